@@ -0,0 +1,219 @@
+import type AsyncStorageModule from '@react-native-async-storage/async-storage';
+import type * as FileSystem from 'expo-file-system';
+import type * as GTFSCache from '../../services/gtfs-cache';
+import type { GTFSData } from '../../services/gtfs-cache';
+import type { StopTime } from '../../types/train';
+
+type MockPathPart = string | { uri: string };
+
+// An in-memory file system with the parts of the expo-file-system API the cache uses
+jest.mock('expo-file-system', () => {
+  const files = new Map<string, string>();
+  const dirs = new Set<string>();
+  const join = (parts: MockPathPart[]) => parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  class Directory {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = join(parts);
+    }
+    get exists() {
+      return dirs.has(this.uri);
+    }
+    create() {
+      const segments = this.uri.split('/');
+      for (let i = 1; i <= segments.length; i++) dirs.add(segments.slice(0, i).join('/'));
+    }
+    delete() {
+      for (const key of [...files.keys()]) if (key.startsWith(`${this.uri}/`)) files.delete(key);
+      for (const key of [...dirs]) if (key === this.uri || key.startsWith(`${this.uri}/`)) dirs.delete(key);
+    }
+    rename(newName: string) {
+      const target = `${this.uri.slice(0, this.uri.lastIndexOf('/'))}/${newName}`;
+      const moved = (key: string) =>
+        key === this.uri || key.startsWith(`${this.uri}/`) ? target + key.slice(this.uri.length) : key;
+      for (const [key, content] of [...files]) {
+        files.delete(key);
+        files.set(moved(key), content);
+      }
+      for (const key of [...dirs]) {
+        dirs.delete(key);
+        dirs.add(moved(key));
+      }
+      this.uri = target;
+    }
+    list() {
+      const isChild = (key: string) => key.startsWith(`${this.uri}/`) && !key.slice(this.uri.length + 1).includes('/');
+      return [
+        ...[...dirs].filter(isChild).map(key => new Directory(key)),
+        ...[...files.keys()].filter(isChild).map(key => new File(key)),
+      ];
+    }
+  }
+
+  class File {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = join(parts);
+    }
+    get name() {
+      return this.uri.slice(this.uri.lastIndexOf('/') + 1);
+    }
+    get exists() {
+      return files.has(this.uri);
+    }
+    async text() {
+      return files.get(this.uri) ?? '';
+    }
+    create() {
+      files.set(this.uri, '');
+    }
+    write(content: string) {
+      files.set(this.uri, content);
+    }
+    delete() {
+      files.delete(this.uri);
+    }
+    move(destination: Directory) {
+      const content = files.get(this.uri) ?? '';
+      files.delete(this.uri);
+      this.uri = `${destination.uri}/${this.name}`;
+      files.set(this.uri, content);
+    }
+  }
+
+  return { Directory, File, Paths: { document: new Directory('file:///document') } };
+});
+
+const stopTime = (tripId: string, sequence: number): StopTime => ({
+  trip_id: tripId,
+  stop_id: 'CHI',
+  arrival_time: '08:00:00',
+  departure_time: '08:00:00',
+  stop_sequence: sequence,
+});
+
+function gtfsData(tripCount: number): GTFSData {
+  const stopTimes: Record<string, StopTime[]> = {};
+  for (let i = 0; i < tripCount; i++) stopTimes[`T${i}`] = [stopTime(`T${i}`, 1)];
+  return {
+    routes: [{ route_id: 'R1', route_long_name: 'Lake Shore Limited' }],
+    stops: [{ stop_id: 'CHI', stop_name: 'Chicago', stop_lat: 41.88, stop_lon: -87.64 }],
+    stopTimes,
+    shapes: {},
+    trips: [],
+    calendar: [],
+    calendarDates: [],
+    agencies: [],
+    transfers: [],
+  };
+}
+
+// Fresh modules per test, so the once-per-session legacy migration runs again on an empty store
+let cache: typeof GTFSCache;
+let AsyncStorage: typeof AsyncStorageModule;
+let fileSystem: typeof FileSystem;
+
+beforeEach(() => {
+  jest.resetModules();
+  cache = require('../../services/gtfs-cache');
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  fileSystem = require('expo-file-system');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('GTFS cache chunks', () => {
+  it('should read back stop times split across chunk files', async () => {
+    const data = gtfsData(450);
+    await cache.writeGTFSCache('amtrak', data, { fetchedAt: 1000, etag: '"v1"' });
+
+    const meta = await cache.readGTFSCacheMeta('amtrak');
+    expect(meta).toMatchObject({ fetchedAt: 1000, etag: '"v1"', stopTimeChunks: 3, shapeChunks: 0 });
+    expect(await cache.readGTFSCache('amtrak')).toEqual(data);
+  });
+
+  it('should treat the cache as missing when a chunk file is gone', async () => {
+    await cache.writeGTFSCache('amtrak', gtfsData(250));
+    new fileSystem.File(fileSystem.Paths.document, 'gtfs-cache', 'amtrak', 'stop_times_1.json').delete();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await cache.readGTFSCache('amtrak')).toBeNull();
+  });
+
+  it('should keep the previous cache when writing a new one fails', async () => {
+    const previous = gtfsData(3);
+    await cache.writeGTFSCache('amtrak', previous);
+    jest.spyOn(fileSystem.File.prototype, 'write').mockImplementationOnce(() => {
+      throw new Error('No space left on device');
+    });
+
+    await expect(cache.writeGTFSCache('amtrak', gtfsData(5))).rejects.toThrow('No space left on device');
+    expect(await cache.readGTFSCache('amtrak')).toEqual(previous);
+  });
+
+  it('should finish swapping in a complete new cache when the app stopped before the rename', async () => {
+    const data = gtfsData(3);
+    await cache.writeGTFSCache('amtrak', data);
+    // As left by a write that deleted the old cache but did not get to rename the new one
+    new fileSystem.Directory(fileSystem.Paths.document, 'gtfs-cache', 'amtrak').rename('amtrak.staging');
+
+    expect(await cache.readGTFSCache('amtrak')).toEqual(data);
+  });
+});
+
+describe('GTFS cache legacy migration', () => {
+  it('should move a cache kept in AsyncStorage into the Amtrak feed files, due for a refresh, and remove the keys', async () => {
+    const data = gtfsData(3);
+    await AsyncStorage.multiSet([
+      ['GTFS_LAST_FETCH', '1700000000000'],
+      ['GTFS_ROUTES_JSON', JSON.stringify(data.routes)],
+      ['GTFS_STOPS_JSON', JSON.stringify(data.stops)],
+      ['GTFS_STOP_TIMES_JSON', JSON.stringify(data.stopTimes)],
+    ]);
+
+    expect(await cache.readGTFSCache('amtrak')).toEqual(data);
+    // Downloaded again on the next sync, as the old cache lacks calendars and agencies
+    expect((await cache.readGTFSCacheMeta('amtrak'))?.fetchedAt).toBe(0);
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+
+  it('should drop an incomplete AsyncStorage cache', async () => {
+    await AsyncStorage.multiSet([
+      ['GTFS_LAST_FETCH', '1700000000000'],
+      ['GTFS_ROUTES_JSON', '[]'],
+      ['GTFS_STOP_TIMES_JSON', 'not json'],
+    ]);
+
+    expect(await cache.readGTFSCacheMeta('amtrak')).toBeNull();
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+
+  it('should move a single-feed file cache into the Amtrak feed folder', async () => {
+    const data = gtfsData(3);
+    const { File, Directory, Paths } = fileSystem;
+    new Directory(Paths.document, 'gtfs-cache').create();
+    const files: Record<string, unknown> = {
+      'routes.json': data.routes,
+      'stops.json': data.stops,
+      'stop_times_0.json': data.stopTimes,
+      'meta.json': {
+        schemaVersion: cache.GTFS_CACHE_SCHEMA_VERSION,
+        fetchedAt: 1000,
+        stopTimeChunks: 1,
+        shapeChunks: 0,
+      },
+    };
+    for (const [name, content] of Object.entries(files)) {
+      const file = new File(Paths.document, 'gtfs-cache', name);
+      file.create();
+      file.write(JSON.stringify(content));
+    }
+
+    expect(await cache.readGTFSCache('amtrak')).toMatchObject({ routes: data.routes, stopTimes: data.stopTimes });
+    expect(new File(Paths.document, 'gtfs-cache', 'meta.json').exists).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { strToU8, zipSync } from 'fflate';
+import { readGTFSCache, readGTFSCacheMeta, touchGTFSCache, writeGTFSCache } from '../../services/gtfs-cache';
+import type { GTFSCacheMeta } from '../../services/gtfs-cache';
+import { ensureFreshGTFS, needsRefresh } from '../../services/gtfs-sync';
+
+jest.mock('../../services/gtfs-cache', () => ({
+  readGTFSCache: jest.fn(),
+  readGTFSCacheMeta: jest.fn(),
+  touchGTFSCache: jest.fn(),
+  writeGTFSCache: jest.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 0, 16, 12).getTime();
+
+function cacheMeta(fetchedAt: number, feedEndDate?: string): GTFSCacheMeta {
+  return {
+    schemaVersion: 4,
+    fetchedAt,
+    etag: '"v1"',
+    feedInfo: feedEndDate ? { feed_publisher_name: 'Amtrak', feed_end_date: feedEndDate } : undefined,
+    stopTimeChunks: 1,
+    shapeChunks: 0,
+  };
+}
+
+describe('needsRefresh', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should refresh a cache older than a week', () => {
+    expect(needsRefresh(cacheMeta(now - 6 * DAY_MS))).toBe(false);
+    expect(needsRefresh(cacheMeta(now - 8 * DAY_MS))).toBe(true);
+  });
+
+  it('should check daily once the feed ends within three days', () => {
+    // Runs out at the end of the 18th, two and a half days from now
+    expect(needsRefresh(cacheMeta(now - 2 * DAY_MS, '20260118'))).toBe(true);
+    expect(needsRefresh(cacheMeta(now - DAY_MS / 2, '20260118'))).toBe(false);
+  });
+
+  it('should keep the weekly schedule while the feed runs longer', () => {
+    // Runs out at the end of the 19th, three and a half days from now
+    expect(needsRefresh(cacheMeta(now - 2 * DAY_MS, '20260119'))).toBe(false);
+  });
+
+  it('should refresh a feed that has already ended', () => {
+    expect(needsRefresh(cacheMeta(now - 2 * DAY_MS, '20260110'))).toBe(true);
+  });
+});
+
+describe('ensureFreshGTFS', () => {
+  const zip = zipSync({
+    'routes.txt': strToU8('route_id,route_long_name\nR1,Lake Shore Limited\n'),
+    'stops.txt': strToU8('stop_id,stop_name,stop_lat,stop_lon\nCHI,Chicago,41.88,-87.64\nNYP,New York,40.75,-73.99\n'),
+    'stop_times.txt': strToU8(
+      'trip_id,arrival_time,departure_time,stop_id,stop_sequence\nT1,15:40:00,15:40:00,NYP,1\nT1,33:45:00,33:45:00,CHI,2\n'
+    ),
+  });
+
+  // Answers each request with the next status, and records the headers it was sent with
+  class FakeXMLHttpRequest {
+    static statuses: number[] = [];
+    static requests: FakeXMLHttpRequest[] = [];
+    headers: Record<string, string> = {};
+    status = 0;
+    response: ArrayBuffer | null = null;
+    responseType = '';
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+    onprogress: (() => void) | null = null;
+
+    open() {}
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+    getResponseHeader(name: string) {
+      return name === 'ETag' ? '"v2"' : null;
+    }
+    abort() {}
+    send() {
+      FakeXMLHttpRequest.requests.push(this);
+      this.status = FakeXMLHttpRequest.statuses.shift() ?? 500;
+      if (this.status === 200) this.response = zip.slice().buffer;
+      this.onload?.();
+    }
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    FakeXMLHttpRequest.requests = [];
+    global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should download again without validators when the server reports no change but the cache is gone', async () => {
+    jest.mocked(readGTFSCacheMeta).mockResolvedValue(cacheMeta(Date.now() - 8 * DAY_MS));
+    jest.mocked(readGTFSCache).mockResolvedValue(null);
+    FakeXMLHttpRequest.statuses = [304, 200];
+
+    expect(await ensureFreshGTFS()).toEqual({ usedCache: false });
+
+    const [conditional, unconditional] = FakeXMLHttpRequest.requests;
+    expect(conditional.headers['If-None-Match']).toBe('"v1"');
+    expect(unconditional.headers).toEqual({});
+    expect(touchGTFSCache).not.toHaveBeenCalled();
+    expect(jest.mocked(writeGTFSCache).mock.calls[0][2]).toMatchObject({ etag: '"v2"' });
+  });
+});
@@ -0,0 +1,86 @@
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import { FEEDS } from '../../constants/feeds';
+import { PositionEstimator } from '../../services/position-estimator';
+import { RealtimeService } from '../../services/realtime';
+import type { GTFSData } from '../../services/gtfs-cache';
+import { gtfsParser } from '../../utils/gtfs-parser';
+
+const { FeedMessage, TripDescriptor } = GtfsRealtimeBindings.transit_realtime;
+
+type FeedEntity = GtfsRealtimeBindings.transit_realtime.IFeedEntity;
+
+function respondWith(entity: FeedEntity[]): void {
+  const body = FeedMessage.encode(FeedMessage.fromObject({ header: { gtfsRealtimeVersion: '2.0' }, entity })).finish();
+  global.fetch = jest.fn(async () => ({
+    ok: true,
+    status: 200,
+    arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+  })) as unknown as typeof fetch;
+}
+
+// A daily train running most of the day, so it is under way at midday in any time zone the tests run in
+const data: GTFSData = {
+  routes: [{ route_id: 'R1', route_long_name: 'Empire Service' }],
+  stops: [
+    { stop_id: 'NYP', stop_name: 'New York', stop_lat: 40.75, stop_lon: -73.99 },
+    { stop_id: 'ALB', stop_name: 'Albany', stop_lat: 42.64, stop_lon: -73.76 },
+  ],
+  stopTimes: {
+    T1: [
+      { trip_id: 'T1', stop_id: 'NYP', arrival_time: '00:30:00', departure_time: '00:30:00', stop_sequence: 1 },
+      { trip_id: 'T1', stop_id: 'ALB', arrival_time: '23:30:00', departure_time: '23:30:00', stop_sequence: 2 },
+    ],
+  },
+  shapes: {},
+  trips: [{ route_id: 'R1', trip_id: 'T1', service_id: 'DAILY', trip_short_name: '233' }],
+  calendar: [
+    {
+      service_id: 'DAILY',
+      monday: true,
+      tuesday: true,
+      wednesday: true,
+      thursday: true,
+      friday: true,
+      saturday: true,
+      sunday: true,
+      start_date: '20260101',
+      end_date: '20260131',
+    },
+  ],
+  calendarDates: [],
+  agencies: [],
+  transfers: [],
+};
+
+const now = new Date(2026, 0, 16, 12).getTime();
+
+function tripUpdate(scheduleRelationship: number): FeedEntity {
+  return { id: 'T1', tripUpdate: { trip: { tripId: 'T1', startDate: '20260116', scheduleRelationship } } };
+}
+
+beforeAll(() => {
+  gtfsParser.loadFeeds([{ source: FEEDS[0], data }]);
+});
+
+beforeEach(() => {
+  RealtimeService.clearCache();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PositionEstimator.getRunningTrains', () => {
+  it('should place a scheduled run from its timetable', async () => {
+    respondWith([tripUpdate(TripDescriptor.ScheduleRelationship.SCHEDULED)]);
+    const running = await PositionEstimator.getRunningTrains(now, await RealtimeService.getSnapshot());
+    expect(running).toEqual([expect.objectContaining({ tripId: 'amtrak:T1', serviceDate: '20260116' })]);
+  });
+
+  it('should leave out runs the feed cancels', async () => {
+    respondWith([tripUpdate(TripDescriptor.ScheduleRelationship.CANCELED)]);
+    const snapshot = await RealtimeService.getSnapshot();
+    expect(await PositionEstimator.getRunningTrains(now, snapshot)).toEqual([]);
+    expect(await PositionEstimator.estimateTrain('amtrak:T1', now, snapshot)).toBeNull();
+  });
+});
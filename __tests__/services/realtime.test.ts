@@ -0,0 +1,210 @@
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import { RealtimeService } from '../../services/realtime';
+import { gtfsParser } from '../../utils/gtfs-parser';
+
+const { FeedMessage } = GtfsRealtimeBindings.transit_realtime;
+
+type FeedEntity = GtfsRealtimeBindings.transit_realtime.IFeedEntity;
+
+/**
+ * Encode a GTFS-RT message as the Amtrak endpoint (the only one fetched before a schedule is loaded) would
+ */
+function encodeFeed(entity: FeedEntity[]): Uint8Array {
+  return FeedMessage.encode(FeedMessage.fromObject({ header: { gtfsRealtimeVersion: '2.0' }, entity })).finish();
+}
+
+function respondWith(entity: FeedEntity[]): jest.Mock {
+  const body = encodeFeed(entity);
+  const fetchMock = jest.fn(async () => ({
+    ok: true,
+    status: 200,
+    arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+  }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function tripUpdate(tripId: string, startDate: string | undefined, delaySeconds: number): FeedEntity {
+  return {
+    id: `${tripId}-update`,
+    tripUpdate: {
+      trip: { tripId, startDate },
+      stopTimeUpdate: [{ stopId: 'CHI', stopSequence: 1, departure: { delay: delaySeconds } }],
+    },
+  };
+}
+
+beforeEach(() => {
+  RealtimeService.clearCache();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('RealtimeService.getSnapshot', () => {
+  const t0 = 1_768_500_000_000;
+
+  it('should share one fetch between concurrent callers', async () => {
+    const fetchMock = respondWith([tripUpdate('2026-01-16_AMTK_3', '20260116', 600)]);
+    const snapshots = await Promise.all([
+      RealtimeService.getSnapshot(),
+      RealtimeService.getSnapshot(),
+      RealtimeService.getUpdatesForTrip('amtrak:3'),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(snapshots[0]).toBe(snapshots[1]);
+    expect(snapshots[2]).toHaveLength(1);
+  });
+
+  it('should reuse the snapshot until it is 15 seconds old', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(t0);
+    const fetchMock = respondWith([]);
+    const first = await RealtimeService.getSnapshot();
+
+    now.mockReturnValue(t0 + 14_000);
+    expect(await RealtimeService.getSnapshot()).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(t0 + 16_000);
+    expect(await RealtimeService.getSnapshot()).not.toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the last snapshot when the feed fails', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(t0);
+    respondWith([tripUpdate('2026-01-16_AMTK_3', '20260116', 600)]);
+    const first = await RealtimeService.getSnapshot();
+
+    now.mockReturnValue(t0 + 60_000);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn(async () => {
+      throw new Error('offline');
+    }) as unknown as typeof fetch;
+    expect(await RealtimeService.getSnapshot()).toBe(first);
+  });
+});
+
+describe('RealtimeService run matching', () => {
+  // Yesterday's train 3 is still running late when today's sets off
+  const runs = [tripUpdate('2026-01-15_AMTK_3', '20260115', 3600), tripUpdate('2026-01-16_AMTK_3', '20260116', 600)];
+
+  it('should match a train number to the run on the service date', async () => {
+    respondWith(runs);
+    const yesterday = await RealtimeService.getUpdatesForTrip('amtrak:3', undefined, '20260115');
+    const today = await RealtimeService.getUpdatesForTrip('amtrak:3', undefined, '20260116');
+    expect(yesterday[0].departure_delay).toBe(3600);
+    expect(today[0].departure_delay).toBe(600);
+    expect(await RealtimeService.getUpdatesForTrip('amtrak:3', undefined, '20260117')).toEqual([]);
+  });
+
+  it("should skip a trip id's entry when it is for another day's run", async () => {
+    respondWith(runs);
+    const tripId = 'amtrak:2026-01-15_AMTK_3';
+    expect(await RealtimeService.getDelayForStop(tripId, 'amtrak:CHI', undefined, '20260115')).toBe(60);
+    // Falls back to the train number, which has no run that day either
+    expect(await RealtimeService.getUpdatesForTrip(tripId, undefined, '20260117')).toEqual([]);
+  });
+
+  it('should match runs the feed gives no start date for on any date', async () => {
+    respondWith([tripUpdate('2026-01-16_AMTK_5', undefined, 300)]);
+    expect(await RealtimeService.getUpdatesForTrip('amtrak:5', undefined, '20260116')).toHaveLength(1);
+    expect(await RealtimeService.getUpdatesForTrip('amtrak:5', undefined, '20260117')).toHaveLength(1);
+  });
+});
+
+describe('RealtimeService.getAllActiveTrains', () => {
+  function vehicle(tripId: string, startDate: string, latitude: number): FeedEntity {
+    return {
+      id: `${tripId}-vehicle`,
+      vehicle: { trip: { tripId, startDate }, position: { latitude, longitude: -87.6 } },
+    };
+  }
+
+  it('should return every run of a train number that is on the road', async () => {
+    respondWith([vehicle('2026-01-15_AMTK_3', '20260115', 40), vehicle('2026-01-16_AMTK_3', '20260116', 42)]);
+    const trains = await RealtimeService.getAllActiveTrains();
+    expect(trains.map(({ trainNumber, position }) => [trainNumber, position.start_date])).toEqual([
+      ['3', '20260115'],
+      ['3', '20260116'],
+    ]);
+  });
+});
+
+describe('RealtimeService alerts', () => {
+  const t0 = Date.UTC(2026, 0, 16, 12);
+  const seconds = (ms: number) => Math.floor(ms / 1000);
+
+  function alert(id: string, fields: GtfsRealtimeBindings.transit_realtime.IAlert): FeedEntity {
+    return { id, alert: { headerText: { translation: [{ text: id }] }, ...fields } };
+  }
+
+  const alerts = [
+    alert('trip', { informedEntity: [{ trip: { tripId: '2026-01-16_AMTK_3' } }], severityLevel: 4 }),
+    alert('route', { informedEntity: [{ routeId: 'R1' }], severityLevel: 2 }),
+    alert('station', { informedEntity: [{ routeId: 'R1', stopId: 'CHI' }] }),
+    alert('over', {
+      informedEntity: [{ stopId: 'CHI' }],
+      activePeriod: [{ start: seconds(t0 - 7_200_000), end: seconds(t0 - 3_600_000) }],
+    }),
+    alert('now', {
+      informedEntity: [{ stopId: 'CHI' }],
+      activePeriod: [{ start: seconds(t0 - 3_600_000), end: seconds(t0 + 3_600_000) }],
+    }),
+  ];
+  const getIds = (found: { id: string }[]) => found.map(a => a.id);
+
+  beforeAll(() => {
+    gtfsParser.overrideData([{ route_id: 'amtrak:R1', route_long_name: 'Lake Shore Limited' }], [], {}, {}, [
+      { route_id: 'amtrak:R1', trip_id: 'amtrak:T3', service_id: 'DAILY', trip_short_name: '3' },
+    ]);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(t0);
+  });
+
+  it('should pick the English translation, or the first one', async () => {
+    respondWith([
+      alert('a', {
+        headerText: {
+          translation: [
+            { language: 'fr', text: 'Retard' },
+            { language: 'en-US', text: 'Delay' },
+          ],
+        },
+        descriptionText: { translation: [{ language: 'de', text: 'Verspätung' }] },
+      }),
+    ]);
+    const [decoded] = await RealtimeService.getAllAlerts();
+    expect(decoded).toMatchObject({ id: 'amtrak:a', header: 'Delay', description: 'Verspätung' });
+  });
+
+  it('should map severity levels', async () => {
+    respondWith(alerts);
+    const severities = (await RealtimeService.getAllAlerts()).map(a => [a.id, a.severity]);
+    expect(severities.slice(0, 3)).toEqual([
+      ['amtrak:trip', 'SEVERE'],
+      ['amtrak:route', 'INFO'],
+      ['amtrak:station', undefined],
+    ]);
+  });
+
+  it('should read active periods in seconds and only return alerts active now', async () => {
+    respondWith(alerts);
+    const now = (await RealtimeService.getAllAlerts()).find(a => a.id === 'amtrak:now');
+    expect(now?.active_periods).toEqual([{ start: t0 - 3_600_000, end: t0 + 3_600_000 }]);
+    expect(getIds(await RealtimeService.getAlertsForStop('amtrak:CHI'))).toEqual(['amtrak:station', 'amtrak:now']);
+  });
+
+  it('should match trip alerts by train number and route alerts by the trip route', async () => {
+    respondWith(alerts);
+    expect(getIds(await RealtimeService.getAlertsForTrip('amtrak:T3'))).toEqual(['amtrak:trip', 'amtrak:route']);
+  });
+
+  it('should leave trip and stop alerts out of route alerts', async () => {
+    respondWith(alerts);
+    expect(getIds(await RealtimeService.getAlertsForRoute('amtrak:R1'))).toEqual(['amtrak:route']);
+  });
+});
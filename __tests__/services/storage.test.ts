@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TrainStorageService } from '../../services/storage';
+import type { SavedTrainRef, StopTime, Train } from '../../types/train';
+import { gtfsParser } from '../../utils/gtfs-parser';
+
+function stopTime(tripId: string, stopId: string, time: string, sequence: number): StopTime {
+  return { trip_id: tripId, stop_id: stopId, arrival_time: time, departure_time: time, stop_sequence: sequence };
+}
+
+// An overnight train reaching Chicago the morning after it leaves New York, and an onward train arriving next day
+const stopTimes: Record<string, StopTime[]> = {
+  'amtrak:LSL': [
+    stopTime('amtrak:LSL', 'amtrak:NYP', '15:40:00', 1),
+    stopTime('amtrak:LSL', 'amtrak:CHI', '33:45:00', 2),
+  ],
+  'amtrak:EB': [stopTime('amtrak:EB', 'amtrak:CHI', '15:00:00', 1), stopTime('amtrak:EB', 'amtrak:MSP', '26:30:00', 2)],
+};
+
+const stops = [
+  { stop_id: 'amtrak:NYP', stop_name: 'New York', stop_lat: 40.75, stop_lon: -73.99 },
+  { stop_id: 'amtrak:CHI', stop_name: 'Chicago', stop_lat: 41.88, stop_lon: -87.64 },
+  { stop_id: 'amtrak:MSP', stop_name: 'St. Paul', stop_lat: 44.95, stop_lon: -93.09 },
+];
+
+const day = (date: number) => new Date(2026, 0, date).getTime();
+const noon = (date: number) => day(date) + 12 * 60 * 60 * 1000;
+
+function ref(
+  tripId: string,
+  fromCode: string,
+  toCode: string,
+  travelDate: number,
+  itineraryId?: string
+): SavedTrainRef {
+  return { tripId, fromCode, toCode, travelDate, savedAt: travelDate, itineraryId };
+}
+
+const getTripIds = (refs: SavedTrainRef[]) => refs.map(r => r.tripId);
+
+beforeAll(() => {
+  gtfsParser.overrideData([], stops, stopTimes);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('TrainStorageService.saveTrain', () => {
+  const train = (fromCode: string): Train => ({
+    id: 1,
+    operator: 'Amtrak',
+    trainNumber: '49',
+    from: '',
+    to: 'Chicago',
+    fromCode,
+    toCode: 'amtrak:CHI',
+    departTime: '',
+    arriveTime: '',
+    date: 'Today',
+    daysAway: 0,
+    routeName: 'Lake Shore Limited',
+    tripId: 'amtrak:LSL',
+    serviceDate: '20260116',
+  });
+
+  it('should record the day the train leaves the boarding stop', async () => {
+    await TrainStorageService.saveTrain(train('amtrak:NYP'));
+    const [saved] = await TrainStorageService.getSavedTrainRefs();
+    expect(saved.travelDate).toBe(day(16));
+  });
+
+  it('should record the next day when boarding after midnight of the service date', async () => {
+    await TrainStorageService.saveTrain(train('amtrak:CHI'));
+    const [saved] = await TrainStorageService.getSavedTrainRefs();
+    expect(saved.travelDate).toBe(day(17));
+  });
+});
+
+describe('TrainStorageService.archivePastTrains', () => {
+  const save = (refs: SavedTrainRef[]) => AsyncStorage.setItem('savedTrainRefs', JSON.stringify(refs));
+
+  it('should archive a train once the day it arrives has passed', async () => {
+    await save([ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16))]);
+
+    // Arrives on the 17th
+    expect(await TrainStorageService.archivePastTrains(noon(17))).toBe(0);
+    expect(await TrainStorageService.archivePastTrains(noon(18))).toBe(1);
+    expect(await TrainStorageService.getSavedTrainRefs()).toEqual([]);
+    expect(getTripIds(await TrainStorageService.getArchivedTrainRefs())).toEqual(['amtrak:LSL']);
+  });
+
+  it('should keep a journey until its last leg has arrived', async () => {
+    await save([
+      ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16), 'trip'),
+      ref('amtrak:EB', 'amtrak:CHI', 'amtrak:MSP', day(17), 'trip'),
+      ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16)),
+    ]);
+
+    // The first leg arrived on the 17th, the second arrives on the 18th
+    expect(await TrainStorageService.archivePastTrains(noon(18))).toBe(1);
+    expect((await TrainStorageService.getSavedTrainRefs()).map(r => r.itineraryId)).toEqual(['trip', 'trip']);
+
+    expect(await TrainStorageService.archivePastTrains(noon(19))).toBe(2);
+    expect(await TrainStorageService.getArchivedTrainRefs()).toHaveLength(3);
+  });
+
+  it('should not archive a train twice when runs overlap', async () => {
+    await save([ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16))]);
+    await Promise.all([
+      TrainStorageService.archivePastTrains(noon(18)),
+      TrainStorageService.archivePastTrains(noon(18)),
+    ]);
+    expect(await TrainStorageService.getArchivedTrainRefs()).toHaveLength(1);
+  });
+
+  it('should keep trains saved without a travel date', async () => {
+    await save([{ tripId: 'amtrak:LSL', savedAt: day(1) }]);
+    expect(await TrainStorageService.archivePastTrains(noon(18))).toBe(0);
+  });
+});
+
+describe('TrainStorageService.deleteTrainByTripId', () => {
+  it("should only delete that day's train when given a travel date", async () => {
+    await TrainStorageService.saveTrainRef(ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16)));
+    await TrainStorageService.saveTrainRef(ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(17)));
+
+    await TrainStorageService.deleteTrainByTripId('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16));
+    expect((await TrainStorageService.getSavedTrainRefs()).map(r => r.travelDate)).toEqual([day(17)]);
+  });
+});
+
+describe('TrainStorageService.saveRealtimeStatuses', () => {
+  const saved = ref('amtrak:LSL', 'amtrak:NYP', 'amtrak:CHI', day(16));
+  const load = () => TrainStorageService.getSavedTrains({ realtime: false });
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(noon(16));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should show a train's stored status on the next load while it is recent", async () => {
+    await TrainStorageService.saveTrainRef(saved);
+    const [train] = await load();
+    await TrainStorageService.saveRealtimeStatuses([{ ...train, realtime: { delay: 12, status: 'Delayed 12m' } }]);
+
+    expect((await load())[0].realtime).toMatchObject({ delay: 12 });
+    jest.spyOn(Date, 'now').mockReturnValue(noon(16) + 2 * 60 * 60 * 1000);
+    expect((await load())[0].realtime).toBeUndefined();
+  });
+
+  it("should leave other days' trains alone", async () => {
+    await TrainStorageService.saveTrainRef(saved);
+    await TrainStorageService.saveTrainRef({ ...saved, travelDate: day(17) });
+    const [train] = await load();
+    await TrainStorageService.saveRealtimeStatuses([{ ...train, realtime: { delay: 12 } }]);
+
+    const refs = await TrainStorageService.getSavedTrainRefs();
+    expect(refs.map(r => r.lastRealtime?.delay)).toEqual([12, undefined]);
+  });
+});
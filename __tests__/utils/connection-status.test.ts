@@ -0,0 +1,85 @@
+import { formatConnectionStatus, getConnectionStatus, getConnectionStatuses } from '../../utils/connection-status';
+import type { Train } from '../../types/train';
+
+const minute = 60_000;
+const t0 = 1_700_000_000_000;
+
+function leg(overrides: Partial<Train>): Train {
+  return {
+    id: 1,
+    operator: 'Amtrak',
+    trainNumber: '49',
+    from: 'New York',
+    to: 'Chicago',
+    fromCode: 'NYP',
+    toCode: 'CHI',
+    departTime: '',
+    arriveTime: '',
+    date: '',
+    daysAway: 0,
+    routeName: '',
+    ...overrides,
+  };
+}
+
+// Arrives Chicago at t0, with the onward train leaving 55 minutes later
+const inbound = (realtime?: Train['realtime']) => leg({ arriveAt: t0, realtime });
+const outbound = (realtime?: Train['realtime']) =>
+  leg({ trainNumber: '7', fromCode: 'CHI', departAt: t0 + 55 * minute, realtime });
+
+describe('getConnectionStatus', () => {
+  it('should be fine when both trains run on time', () => {
+    const status = getConnectionStatus(inbound(), outbound(), 30);
+    expect(status).toMatchObject({ stationCode: 'CHI', risk: 'ok', scheduledLayover: 55, expectedLayover: 55 });
+    expect(formatConnectionStatus(status!)).toBe('55m layover');
+  });
+
+  it('should be at risk when delays eat into the minimum connection time', () => {
+    const status = getConnectionStatus(inbound({ arrivalDelay: 35 }), outbound(), 30);
+    expect(status).toMatchObject({ risk: 'at-risk', inboundDelay: 35, expectedLayover: 20 });
+    expect(formatConnectionStatus(status!)).toBe('Connection at risk: inbound 35m late, 20m layover');
+  });
+
+  it('should count the onward train running late', () => {
+    const status = getConnectionStatus(inbound({ arrivalDelay: 35 }), outbound({ delay: 20 }), 30);
+    expect(status).toMatchObject({ risk: 'ok', expectedLayover: 40 });
+    expect(formatConnectionStatus(status!)).toBe('Connection OK: inbound 35m late, 40m layover');
+  });
+
+  it('should not count on trains running early', () => {
+    const status = getConnectionStatus(inbound({ arrivalDelay: -10 }), outbound(), 30);
+    expect(status?.expectedLayover).toBe(55);
+  });
+
+  it('should be missed when the inbound train arrives after the onward train leaves', () => {
+    const status = getConnectionStatus(inbound({ arrivalDelay: 65 }), outbound(), 30);
+    expect(status?.risk).toBe('missed');
+    expect(formatConnectionStatus(status!)).toBe('Connection likely missed: inbound 1h 5m late');
+  });
+
+  it('should be lost when either train is cancelled', () => {
+    const status = getConnectionStatus(inbound(), outbound({ cancelled: true }), 30);
+    expect(status).toMatchObject({ risk: 'missed', cancelled: 'outbound' });
+    expect(formatConnectionStatus(status!)).toBe('Connection lost: outbound train cancelled');
+  });
+
+  it('should need resolved times', () => {
+    expect(getConnectionStatus(leg({}), outbound(), 30)).toBeNull();
+  });
+});
+
+describe('getConnectionStatuses', () => {
+  it('should check each connection at its own station', () => {
+    const last = leg({ trainNumber: '27', fromCode: 'SPK', departAt: t0 + 24 * 60 * minute });
+    const legs = [
+      inbound({ arrivalDelay: 35 }),
+      { ...outbound(), toCode: 'SPK', arriveAt: t0 + 23 * 60 * minute },
+      last,
+    ];
+    const statuses = getConnectionStatuses(legs, code => (code === 'CHI' ? 30 * minute : null));
+    expect(statuses.map(status => [status.stationCode, status.risk])).toEqual([
+      ['CHI', 'at-risk'],
+      ['SPK', 'ok'],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CSVStreamParser, forEachCSVRow, parseCSV, type CSVRow, type CSVWarning } from '../../utils/csv-parser';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures/csv', name), 'utf8');
+
+describe('parseCSV', () => {
+  it('parses simple rows keyed by header', () => {
+    expect(parseCSV('stop_id,stop_name\nCHI,Chicago\nNYP,New York')).toEqual([
+      { stop_id: 'CHI', stop_name: 'Chicago' },
+      { stop_id: 'NYP', stop_name: 'New York' },
+    ]);
+  });
+
+  it('strips a UTF-8 BOM and handles CRLF line endings', () => {
+    const rows = parseCSV(readFixture('bom-crlf.txt'));
+    expect(Object.keys(rows[0])).toEqual(['stop_id', 'stop_name', 'stop_desc']);
+    expect(rows).toEqual([
+      { stop_id: 'CHI', stop_name: 'Chicago Union Station', stop_desc: 'Canal St, Chicago' },
+      { stop_id: 'NYP', stop_name: 'New York "Penn" Station', stop_desc: '' },
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields and skips blank lines', () => {
+    const rows = parseCSV(readFixture('quoted-newlines.txt'));
+    expect(rows).toEqual([
+      { route_id: 'R1', route_long_name: 'Lake Shore Limited', route_desc: 'Runs along the lake\nand the river' },
+      { route_id: 'R2', route_long_name: 'Empire\r\nBuilder', route_desc: 'Chicago to Seattle' },
+      { route_id: 'R3', route_long_name: 'Cardinal', route_desc: '' },
+    ]);
+  });
+
+  it('handles a file without a trailing newline', () => {
+    expect(parseCSV('a,b\n1,"2"')).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('handles lone CR line endings', () => {
+    expect(parseCSV('a,b\r1,2\r3,4')).toEqual([
+      { a: '1', b: '2' },
+      { a: '3', b: '4' },
+    ]);
+  });
+
+  it('trims whitespace around header names', () => {
+    expect(parseCSV(' a , b\n1,2')).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('returns no rows for empty input or a header only', () => {
+    expect(parseCSV('')).toEqual([]);
+    expect(parseCSV('a,b\n')).toEqual([]);
+  });
+});
+
+describe('warnings', () => {
+  it('reports ragged and malformed rows with their line numbers', () => {
+    const warnings: CSVWarning[] = [];
+    const rows = parseCSV(readFixture('ragged.txt'), { onWarning: w => warnings.push(w) });
+
+    expect(rows).toEqual([
+      { trip_id: 'T1', stop_id: 'CHI', stop_sequence: '1' },
+      { trip_id: 'T1', stop_id: 'MKE', stop_sequence: '' },
+      { trip_id: 'T1', stop_id: 'COL', stop_sequence: '3' },
+      { trip_id: 'T1', stop_id: 'GLNx', stop_sequence: '4' },
+      { trip_id: 'T1', stop_id: 'unterminated,5\n', stop_sequence: '' },
+    ]);
+    expect(warnings).toEqual([
+      { line: 3, message: 'Expected 3 fields but found 2' },
+      { line: 4, message: 'Expected 3 fields but found 4' },
+      { line: 5, message: 'Unexpected character after closing quote' },
+      { line: 6, message: 'Unterminated quoted field' },
+      { line: 6, message: 'Expected 3 fields but found 2' },
+    ]);
+  });
+
+  it('reports line numbers after multi-line quoted fields', () => {
+    const warnings: CSVWarning[] = [];
+    parseCSV('a,b\n"x\ny",1\n2\n', { onWarning: w => warnings.push(w) });
+    expect(warnings).toEqual([{ line: 4, message: 'Expected 2 fields but found 1' }]);
+  });
+
+  it('keeps stray quotes in unquoted fields', () => {
+    const warnings: CSVWarning[] = [];
+    expect(parseCSV('a,b\n5" gauge,1', { onWarning: w => warnings.push(w) })).toEqual([{ a: '5" gauge', b: '1' }]);
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('CSVStreamParser', () => {
+  const parseInChunks = (text: string, size: number) => {
+    const rows: CSVRow[] = [];
+    const parser = new CSVStreamParser(row => rows.push(row));
+    for (let i = 0; i < text.length; i += size) parser.write(text.slice(i, i + size));
+    parser.end();
+    return rows;
+  };
+
+  it.each([1, 2, 3, 7])('gives the same rows when fed in chunks of %i characters', size => {
+    for (const fixture of ['bom-crlf.txt', 'quoted-newlines.txt', 'ragged.txt']) {
+      const text = readFixture(fixture);
+      expect(parseInChunks(text, size)).toEqual(parseCSV(text));
+    }
+  });
+
+  it('emits rows as soon as they are complete', () => {
+    const rows: CSVRow[] = [];
+    const parser = new CSVStreamParser(row => rows.push(row));
+    parser.write('a,b\n1,2\n3,');
+    expect(rows).toEqual([{ a: '1', b: '2' }]);
+    expect(parser.columns).toEqual(['a', 'b']);
+    parser.write('4\n');
+    expect(parser.rowsParsed).toBe(2);
+    parser.end();
+    expect(rows).toHaveLength(2);
+  });
+});
+
+describe('forEachCSVRow', () => {
+  it('passes each row with its starting line and returns the row count', () => {
+    const lines: number[] = [];
+    const count = forEachCSVRow('a\n"1\n2"\n3', (_row, line) => lines.push(line));
+    expect(count).toBe(2);
+    expect(lines).toEqual([2, 4]);
+  });
+});
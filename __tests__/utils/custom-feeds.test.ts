@@ -0,0 +1,79 @@
+import { createCustomFeed, createCustomFeedId, isLocalSource, type CustomFeedInput } from '../../utils/custom-feeds';
+
+const input = (overrides: Partial<CustomFeedInput> = {}): CustomFeedInput => ({
+  name: 'Mock Rail',
+  staticLocation: 'http://localhost:8080/gtfs.zip',
+  realtimeUrls: '',
+  apiKeyHeader: '',
+  apiKey: '',
+  ...overrides,
+});
+
+describe('createCustomFeedId', () => {
+  it('should slugify the name', () => {
+    expect(createCustomFeedId('SMART Train!', [])).toBe('custom-smart-train');
+    expect(createCustomFeedId('   ', [])).toBe('custom-source');
+  });
+
+  it('should not reuse an existing id', () => {
+    expect(createCustomFeedId('Mock', ['custom-mock', 'custom-mock-2'])).toBe('custom-mock-3');
+  });
+});
+
+describe('isLocalSource', () => {
+  it('should treat anything but http(s) URLs as files', () => {
+    expect(isLocalSource('https://example.com/gtfs.zip')).toBe(false);
+    expect(isLocalSource('file:///tmp/gtfs.zip')).toBe(true);
+    expect(isLocalSource('gtfs.zip')).toBe(true);
+  });
+});
+
+describe('createCustomFeed', () => {
+  it('should build a feed with realtime endpoints and an API key header', () => {
+    const { feed } = createCustomFeed(
+      input({
+        realtimeUrls: 'http://localhost:8080/trips.pb\nhttp://localhost:8080/vehicles.pb',
+        apiKeyHeader: 'x-api-key',
+        apiKey: ' secret ',
+      }),
+      []
+    );
+    expect(feed).toMatchObject({
+      id: 'custom-mock-rail',
+      name: 'Mock Rail',
+      staticUrl: 'http://localhost:8080/gtfs.zip',
+      realtimeUrls: ['http://localhost:8080/trips.pb', 'http://localhost:8080/vehicles.pb'],
+      headers: { 'x-api-key': 'secret' },
+      custom: true,
+    });
+  });
+
+  it('should accept a zip in the Documents folder', () => {
+    const { feed } = createCustomFeed(input({ staticLocation: 'regional.zip' }), []);
+    expect(feed?.staticUrl).toBe('regional.zip');
+    expect(feed?.realtimeUrls).toBeUndefined();
+    expect(feed?.headers).toBeUndefined();
+  });
+
+  it('should reject incomplete or malformed input', () => {
+    expect(createCustomFeed(input({ name: ' ' }), []).error).toBe('Enter a name');
+    expect(createCustomFeed(input({ staticLocation: 'ftp://example.com/gtfs.zip' }), []).error).toBe(
+      'The schedule must be an http(s) URL or a file'
+    );
+    expect(createCustomFeed(input({ staticLocation: 'notes.txt' }), []).error).toBe('The schedule file must be a .zip');
+    expect(createCustomFeed(input({ realtimeUrls: 'localhost/rt' }), []).error).toBe(
+      'Live data URLs must be http(s) URLs'
+    );
+    expect(createCustomFeed(input({ apiKey: 'secret' }), []).error).toBe('Enter the header the API key is sent in');
+    expect(createCustomFeed(input({ apiKeyHeader: 'x api key', apiKey: 'secret' }), []).error).toBe(
+      'The header name is not valid'
+    );
+  });
+
+  it('should give each source its own id and color', () => {
+    const first = createCustomFeed(input(), []).feed!;
+    const second = createCustomFeed(input(), [first]).feed!;
+    expect(second.id).toBe('custom-mock-rail-2');
+    expect(second.color).not.toBe(first.color);
+  });
+});
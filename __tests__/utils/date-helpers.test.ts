@@ -6,6 +6,8 @@ import {
   getStartOfDay,
   getEndOfDay,
   addDays,
+  formatGTFSDate,
+  parseGTFSDate,
 } from '../../utils/date-helpers';
 
 describe('date-helpers utilities', () => {
@@ -147,4 +149,18 @@ describe('date-helpers utilities', () => {
       expect(result.getMonth()).toBe(1); // February
     });
   });
+
+  describe('formatGTFSDate', () => {
+    it('should format date as YYYYMMDD', () => {
+      expect(formatGTFSDate(new Date(2024, 0, 4))).toBe('20240104');
+      expect(formatGTFSDate(new Date(2024, 11, 25, 23, 59))).toBe('20241225');
+    });
+  });
+
+  describe('parseGTFSDate', () => {
+    it('should parse YYYYMMDD to local midnight', () => {
+      expect(parseGTFSDate('20240104')).toEqual(new Date(2024, 0, 4));
+      expect(formatGTFSDate(parseGTFSDate('20241225'))).toBe('20241225');
+    });
+  });
 });
@@ -0,0 +1,35 @@
+import { estimateDistanceAlong, isPositionStale, STALE_POSITION_MS } from '../../utils/dead-reckoning';
+
+const minute = 60_000;
+const t0 = 1_700_000_000_000;
+
+// Departs A at t0, dwells at B from +10 to +12 min, arrives C at +22 min
+const stops = [
+  { distanceAlong: 0, arriveAt: t0, departAt: t0 },
+  { distanceAlong: 10_000, arriveAt: t0 + 10 * minute, departAt: t0 + 12 * minute },
+  { distanceAlong: 30_000, arriveAt: t0 + 22 * minute, departAt: t0 + 22 * minute },
+];
+
+describe('estimateDistanceAlong', () => {
+  it('should interpolate between stops', () => {
+    expect(estimateDistanceAlong(stops, t0 + 5 * minute)).toBeCloseTo(5_000);
+    expect(estimateDistanceAlong(stops, t0 + 17 * minute)).toBeCloseTo(20_000);
+  });
+
+  it('should hold the train at a stop while it dwells', () => {
+    expect(estimateDistanceAlong(stops, t0 + 11 * minute)).toBe(10_000);
+  });
+
+  it('should return null outside the run', () => {
+    expect(estimateDistanceAlong(stops, t0 - minute)).toBeNull();
+    expect(estimateDistanceAlong(stops, t0 + 23 * minute)).toBeNull();
+    expect(estimateDistanceAlong([], t0)).toBeNull();
+  });
+});
+
+describe('isPositionStale', () => {
+  it('should flag positions older than the threshold', () => {
+    expect(isPositionStale(t0, t0 + STALE_POSITION_MS)).toBe(false);
+    expect(isPositionStale(t0, t0 + STALE_POSITION_MS + 1)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { propagateDelays, toPredictedDelayMinutes } from '../../utils/delay-propagation';
+import type { StopTime } from '../../types/train';
+
+const stopTimes: StopTime[] = ['NYP', 'NWK', 'TRE', 'PHL', 'WIL'].map((stopId, index) => ({
+  trip_id: 'T1',
+  stop_id: stopId,
+  arrival_time: `${String(8 + index).padStart(2, '0')}:00:00`,
+  departure_time: `${String(8 + index).padStart(2, '0')}:05:00`,
+  stop_sequence: index + 1,
+}));
+
+describe('delay-propagation utilities', () => {
+  describe('propagateDelays', () => {
+    it('should return no predictions when there are no updates', () => {
+      const predicted = propagateDelays(stopTimes, []);
+      expect(predicted).toHaveLength(5);
+      expect(predicted.every(p => p.arrival_delay === null && p.departure_delay === null)).toBe(true);
+    });
+
+    it('should carry the last known delay to downstream stops', () => {
+      const predicted = propagateDelays(stopTimes, [{ stop_id: 'NWK', arrival_delay: 300, departure_delay: 360 }]);
+      expect(predicted[0]).toMatchObject({ arrival_delay: null, departure_delay: null, propagated: false });
+      expect(predicted[1]).toMatchObject({ arrival_delay: 300, departure_delay: 360, propagated: false });
+      expect(predicted[4]).toMatchObject({ arrival_delay: 360, departure_delay: 360, propagated: true });
+    });
+
+    it('should let a later update replace the carried delay', () => {
+      const predicted = propagateDelays(stopTimes, [
+        { stop_id: 'NYP', departure_delay: 600 },
+        { stop_id: 'PHL', arrival_delay: 120 },
+      ]);
+      expect(predicted[2].departure_delay).toBe(600);
+      expect(predicted[3]).toMatchObject({ arrival_delay: 120, departure_delay: 120 });
+      expect(predicted[4].arrival_delay).toBe(120);
+    });
+
+    it('should fall back to the upstream delay when only a departure delay is given', () => {
+      const predicted = propagateDelays(stopTimes, [
+        { stop_id: 'NYP', departure_delay: 600 },
+        { stop_id: 'TRE', departure_delay: 240 },
+      ]);
+      expect(predicted[2]).toMatchObject({ arrival_delay: 600, departure_delay: 240 });
+    });
+
+    it('should match updates by stop_sequence when stop_id is missing', () => {
+      const predicted = propagateDelays(stopTimes, [{ stop_sequence: 4, arrival_delay: 180 }]);
+      expect(predicted[3].arrival_delay).toBe(180);
+      expect(predicted[2].arrival_delay).toBeNull();
+    });
+
+    it('should stop propagating after a NO_DATA update', () => {
+      const predicted = propagateDelays(stopTimes, [
+        { stop_id: 'NYP', departure_delay: 600 },
+        { stop_id: 'TRE', schedule_relationship: 'NO_DATA' },
+      ]);
+      expect(predicted[1].arrival_delay).toBe(600);
+      expect(predicted[2].arrival_delay).toBeNull();
+      expect(predicted[4].arrival_delay).toBeNull();
+    });
+
+    it('should mark skipped stops and keep propagating past them', () => {
+      const predicted = propagateDelays(stopTimes, [
+        { stop_id: 'NWK', departure_delay: 420 },
+        { stop_id: 'TRE', schedule_relationship: 'SKIPPED' },
+      ]);
+      expect(predicted[2]).toMatchObject({ arrival_delay: null, departure_delay: null, skipped: true });
+      expect(predicted[3]).toMatchObject({ arrival_delay: 420, propagated: true, skipped: false });
+    });
+  });
+
+  describe('toPredictedDelayMinutes', () => {
+    it('should round delays to whole minutes and keep missing predictions', () => {
+      expect(
+        toPredictedDelayMinutes({
+          stop_id: 'NYP',
+          stop_sequence: 1,
+          arrival_delay: 290,
+          departure_delay: null,
+          propagated: false,
+          skipped: false,
+        })
+      ).toEqual({ arrival: 5, departure: null, skipped: false });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type { GTFSData } from '../../services/gtfs-cache';
+import type { FeedSource } from '../../types/train';
+import { getFeedIdOf, mergeGTFSData, scopeGTFSData, scopeId, unscopeId } from '../../utils/feed-ids';
+
+const feed: FeedSource = {
+  id: 'metra',
+  name: 'Metra',
+  staticUrl: 'https://example.com/gtfs.zip',
+  color: '#005596',
+  textColor: '#FFFFFF',
+};
+
+const data = (overrides: Partial<GTFSData> = {}): GTFSData => ({
+  routes: [{ route_id: 'UP-N', route_long_name: 'Union Pacific North' }],
+  stops: [{ stop_id: 'OTC', stop_name: 'Ogilvie', stop_lat: 41.88, stop_lon: -87.64 }],
+  stopTimes: {
+    T1: [{ trip_id: 'T1', stop_id: 'OTC', arrival_time: '08:00:00', departure_time: '08:00:00', stop_sequence: 1 }],
+  },
+  shapes: { S1: [{ shape_id: 'S1', shape_pt_lat: 41.88, shape_pt_lon: -87.64, shape_pt_sequence: 1 }] },
+  trips: [{ route_id: 'UP-N', trip_id: 'T1', service_id: 'WK', shape_id: 'S1' }],
+  calendar: [],
+  calendarDates: [{ service_id: 'WK', date: '20240115', exception_type: 2 }],
+  agencies: [{ agency_id: 'METRA', agency_name: 'Metra', agency_timezone: 'America/Chicago' }],
+  transfers: [{ from_stop_id: 'OTC', to_stop_id: 'OTC', transfer_type: 2, min_transfer_time: 300 }],
+  ...overrides,
+});
+
+describe('scopeId', () => {
+  it('should round-trip through getFeedIdOf and unscopeId', () => {
+    const id = scopeId('amtrak', 'CHI');
+    expect(id).toBe('amtrak:CHI');
+    expect(getFeedIdOf(id)).toBe('amtrak');
+    expect(unscopeId(id)).toBe('CHI');
+  });
+
+  it('should split at the first separator only', () => {
+    expect(unscopeId('njt:a:b')).toBe('a:b');
+  });
+
+  it('should leave ids without a namespace alone', () => {
+    expect(getFeedIdOf('CHI')).toBeUndefined();
+    expect(unscopeId('CHI')).toBe('CHI');
+  });
+});
+
+describe('scopeGTFSData', () => {
+  it('should namespace every id and cross-reference', () => {
+    const scoped = scopeGTFSData(feed, data());
+    expect(scoped.routes[0]).toMatchObject({ route_id: 'metra:UP-N', agency_id: 'metra:METRA' });
+    expect(scoped.trips[0]).toMatchObject({
+      trip_id: 'metra:T1',
+      route_id: 'metra:UP-N',
+      service_id: 'metra:WK',
+      shape_id: 'metra:S1',
+    });
+    expect(scoped.stopTimes['metra:T1'][0]).toMatchObject({ trip_id: 'metra:T1', stop_id: 'metra:OTC' });
+    expect(scoped.shapes['metra:S1'][0].shape_id).toBe('metra:S1');
+    expect(scoped.stops[0].stop_id).toBe('metra:OTC');
+    expect(scoped.calendarDates[0].service_id).toBe('metra:WK');
+    expect(scoped.agencies[0].agency_id).toBe('metra:METRA');
+    expect(scoped.transfers[0]).toMatchObject({ from_stop_id: 'metra:OTC', to_stop_id: 'metra:OTC' });
+  });
+
+  it("should assign routes without agency_id to the feed's only agency", () => {
+    const scoped = scopeGTFSData(
+      feed,
+      data({ agencies: [{ agency_name: 'Metra', agency_timezone: 'America/Chicago' }] })
+    );
+    expect(scoped.routes[0].agency_id).toBe('metra:');
+    expect(scoped.agencies[0].agency_id).toBe('metra:');
+  });
+
+  it("should keep only the feed's agency when it has one", () => {
+    const shared = data({
+      routes: [
+        { route_id: 'NEC', route_long_name: 'Northeast Corridor', agency_id: 'NJT' },
+        { route_id: 'BUS', route_long_name: 'Bus', agency_id: 'OTHER' },
+      ],
+      trips: [
+        { route_id: 'NEC', trip_id: 'T1' },
+        { route_id: 'BUS', trip_id: 'T2' },
+      ],
+      stopTimes: {
+        T1: [{ trip_id: 'T1', stop_id: 'NY', arrival_time: '08:00:00', departure_time: '08:00:00', stop_sequence: 1 }],
+        T2: [{ trip_id: 'T2', stop_id: 'NY', arrival_time: '09:00:00', departure_time: '09:00:00', stop_sequence: 1 }],
+      },
+    });
+    const scoped = scopeGTFSData({ ...feed, id: 'njt', agencyId: 'NJT' }, shared);
+    expect(scoped.routes.map(route => route.route_id)).toEqual(['njt:NEC']);
+    expect(scoped.trips.map(trip => trip.trip_id)).toEqual(['njt:T1']);
+    expect(Object.keys(scoped.stopTimes)).toEqual(['njt:T1']);
+  });
+});
+
+describe('mergeGTFSData', () => {
+  it('should keep identical ids from different feeds apart', () => {
+    const merged = mergeGTFSData([
+      scopeGTFSData({ ...feed, id: 'amtrak' }, data()),
+      scopeGTFSData({ ...feed, id: 'via' }, data()),
+    ]);
+    expect(merged.stops.map(stop => stop.stop_id)).toEqual(['amtrak:OTC', 'via:OTC']);
+    expect(Object.keys(merged.stopTimes)).toEqual(['amtrak:T1', 'via:T1']);
+    expect(merged.agencies).toHaveLength(2);
+  });
+});
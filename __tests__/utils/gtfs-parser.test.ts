@@ -0,0 +1,348 @@
+import { GTFSParser } from '../../utils/gtfs-parser';
+import type {
+  Agency,
+  Calendar,
+  CalendarDate,
+  FeedSource,
+  Route,
+  Stop,
+  StopTime,
+  Transfer,
+  Trip,
+} from '../../types/train';
+
+const routes: Route[] = [{ route_id: 'R1', route_long_name: 'Test Route' }];
+
+const stops: Stop[] = [
+  { stop_id: 'AAA', stop_name: 'Alpha', stop_lat: 40, stop_lon: -74 },
+  { stop_id: 'BBB', stop_name: 'Bravo', stop_lat: 41, stop_lon: -75, stop_timezone: 'America/Chicago' },
+];
+
+const agencies: Agency[] = [{ agency_name: 'Test Rail', agency_timezone: 'America/New_York' }];
+
+const stopTimes: Record<string, StopTime[]> = {
+  WEEKDAY_1: [
+    { trip_id: 'WEEKDAY_1', stop_id: 'AAA', arrival_time: '08:00:00', departure_time: '08:00:00', stop_sequence: 1 },
+    { trip_id: 'WEEKDAY_1', stop_id: 'BBB', arrival_time: '10:00:00', departure_time: '10:00:00', stop_sequence: 2 },
+  ],
+  WEEKEND_1: [
+    { trip_id: 'WEEKEND_1', stop_id: 'AAA', arrival_time: '09:00:00', departure_time: '09:00:00', stop_sequence: 1 },
+    { trip_id: 'WEEKEND_1', stop_id: 'BBB', arrival_time: '25:30:00', departure_time: '25:30:00', stop_sequence: 2 },
+  ],
+};
+
+const trips: Trip[] = [
+  { route_id: 'R1', trip_id: 'WEEKDAY_1', service_id: 'WKDY', trip_short_name: '1' },
+  { route_id: 'R1', trip_id: 'WEEKEND_1', service_id: 'WKND', trip_short_name: '1' },
+];
+
+const calendar: Calendar[] = [
+  {
+    service_id: 'WKDY',
+    monday: true,
+    tuesday: true,
+    wednesday: true,
+    thursday: true,
+    friday: true,
+    saturday: false,
+    sunday: false,
+    start_date: '20240101',
+    end_date: '20241231',
+  },
+  {
+    service_id: 'WKND',
+    monday: false,
+    tuesday: false,
+    wednesday: false,
+    thursday: false,
+    friday: false,
+    saturday: true,
+    sunday: true,
+    start_date: '20240101',
+    end_date: '20241231',
+  },
+];
+
+// No weekday service on Jan 15 (holiday); added weekend service that day instead
+const calendarDates: CalendarDate[] = [
+  { service_id: 'WKDY', date: '20240115', exception_type: 2 },
+  { service_id: 'WKND', date: '20240115', exception_type: 1 },
+];
+
+describe('GTFSParser', () => {
+  let parser: GTFSParser;
+
+  beforeEach(() => {
+    parser = new GTFSParser();
+    parser.overrideData(routes, stops, stopTimes, {}, trips, calendar, calendarDates, agencies);
+  });
+
+  describe('isTripActiveOn', () => {
+    it('should follow the weekly calendar pattern', () => {
+      const wednesday = new Date(2024, 0, 10);
+      const saturday = new Date(2024, 0, 13);
+      expect(parser.isTripActiveOn('WEEKDAY_1', wednesday)).toBe(true);
+      expect(parser.isTripActiveOn('WEEKDAY_1', saturday)).toBe(false);
+      expect(parser.isTripActiveOn('WEEKEND_1', saturday)).toBe(true);
+    });
+
+    it('should apply calendar_dates exceptions over the weekly pattern', () => {
+      const holidayMonday = new Date(2024, 0, 15);
+      expect(parser.isTripActiveOn('WEEKDAY_1', holidayMonday)).toBe(false);
+      expect(parser.isTripActiveOn('WEEKEND_1', holidayMonday)).toBe(true);
+    });
+
+    it('should reject dates outside the calendar range', () => {
+      expect(parser.isTripActiveOn('WEEKDAY_1', new Date(2025, 0, 8))).toBe(false);
+    });
+
+    it('should treat trips as active when no calendar data is loaded', () => {
+      const legacy = new GTFSParser();
+      legacy.overrideData(routes, stops, stopTimes, {}, trips);
+      expect(legacy.isTripActiveOn('WEEKDAY_1', new Date(2024, 0, 13))).toBe(true);
+    });
+  });
+
+  describe('getTripsForStopOnDate', () => {
+    it('should return only trips running on the date', () => {
+      expect(parser.getTripsForStopOnDate('AAA', new Date(2024, 0, 10))).toEqual(['WEEKDAY_1']);
+      expect(parser.getTripsForStopOnDate('AAA', new Date(2024, 0, 13))).toEqual(['WEEKEND_1']);
+    });
+
+    it('should use the previous service day for stop times past midnight', () => {
+      // Sunday Jan 14 service reaches BBB at 01:30 on Monday Jan 15
+      expect(parser.getTripsForStopOnDate('BBB', new Date(2024, 0, 15))).toContain('WEEKEND_1');
+      // Friday Jan 12 has no weekend service, so nothing reaches BBB after midnight on Saturday
+      expect(parser.getTripsForStopOnDate('BBB', new Date(2024, 0, 13))).toEqual([]);
+    });
+  });
+
+  describe('getTripsForStop', () => {
+    it('should return every trip calling at the stop', () => {
+      expect(parser.getTripsForStop('AAA').sort()).toEqual(['WEEKDAY_1', 'WEEKEND_1']);
+      expect(parser.getTripsForStop('ZZZ')).toEqual([]);
+    });
+  });
+
+  describe('getDeparturesForStop', () => {
+    it('should return rows for trips running on the date with times at the station', () => {
+      const rows = parser.getDeparturesForStop('AAA', new Date(2024, 0, 10));
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        tripId: 'WEEKDAY_1',
+        trainNumber: '1',
+        routeName: 'Test Route',
+        stopSequence: 1,
+        fromCode: 'AAA',
+        toCode: 'BBB',
+        to: 'Bravo',
+        departTime: '8:00 AM',
+        departAt: Date.UTC(2024, 0, 10, 13, 0),
+        serviceDate: '20240110',
+      });
+    });
+
+    it('should include trips from the previous service day that reach the stop after midnight', () => {
+      const rows = parser.getDeparturesForStop('BBB', new Date(2024, 0, 15));
+      const overnight = rows.find(r => r.tripId === 'WEEKEND_1');
+      expect(overnight).toMatchObject({ serviceDate: '20240114', arriveTime: '12:30 AM', arriveDayOffset: 1 });
+    });
+
+    it('should only return rows whose time at the station falls inside the window', () => {
+      const date = new Date(2024, 0, 10);
+      expect(parser.getDeparturesForStop('AAA', date, { start: Date.UTC(2024, 0, 10, 13, 1) })).toEqual([]);
+      expect(parser.getDeparturesForStop('AAA', date, { end: Date.UTC(2024, 0, 10, 13, 0) })).toHaveLength(1);
+    });
+  });
+
+  describe('search', () => {
+    it('should rank stations by relevance and group results by type', () => {
+      const groups = parser.searchGrouped('alp');
+      expect(groups[0].type).toBe('station');
+      expect(groups[0].results[0].name).toBe('Alpha');
+    });
+
+    it('should list each train number once', () => {
+      const trains = parser.search('1').filter(r => r.type === 'train');
+      expect(trains).toHaveLength(1);
+      expect(trains[0].name).toBe('Test Route 1');
+    });
+
+    it("should name trains after their feed's named trains before their route", () => {
+      parser.loadFeeds([
+        {
+          source: {
+            id: 'east',
+            name: 'East Rail',
+            staticUrl: '',
+            color: '#000000',
+            textColor: '#FFFFFF',
+            namedTrains: [{ name: 'Morning Express', trainNumbers: ['1'] }],
+          },
+          data: { routes, stops, stopTimes, shapes: {}, trips, calendar, calendarDates, agencies, transfers: [] },
+        },
+      ]);
+      expect(parser.getTrainRouteName('east:WEEKDAY_1')).toBe('Morning Express');
+      // Realtime trip ids that aren't in the schedule are matched by train number
+      expect(parser.getTrainRouteName('east:2024-01-10_TEST_1')).toBe('Morning Express');
+      expect(parser.search('1').find(r => r.type === 'train')?.name).toBe('Morning Express 1');
+    });
+
+    it('should find stations by code and with typos', () => {
+      expect(parser.searchStations('bbb').map(s => s.stop_id)).toEqual(['BBB']);
+      expect(parser.searchStations('bravp').map(s => s.stop_id)).toEqual(['BBB']);
+    });
+  });
+
+  describe('findTripsWithStops', () => {
+    it('should filter trips by travel date when provided', () => {
+      expect(parser.findTripsWithStops('AAA', 'BBB')).toHaveLength(2);
+      const weekday = parser.findTripsWithStops('AAA', 'BBB', new Date(2024, 0, 10));
+      expect(weekday.map(t => t.tripId)).toEqual(['WEEKDAY_1']);
+    });
+  });
+
+  describe('findItineraries', () => {
+    // A weekday connection at Bravo (or across the street from it), 20 minutes after train 1 arrives
+    const connecting = (fromStopId: string): StopTime[] => [
+      {
+        trip_id: 'CONNECT',
+        stop_id: fromStopId,
+        arrival_time: '10:20:00',
+        departure_time: '10:20:00',
+        stop_sequence: 1,
+      },
+      { trip_id: 'CONNECT', stop_id: 'CCC', arrival_time: '12:00:00', departure_time: '12:00:00', stop_sequence: 2 },
+    ];
+    const load = (transfers: Transfer[], connectFrom = 'BBB') =>
+      parser.overrideData(
+        routes,
+        [
+          ...stops,
+          { stop_id: 'BBX', stop_name: 'Bravo Street', stop_lat: 41, stop_lon: -75 },
+          { stop_id: 'CCC', stop_name: 'Charlie', stop_lat: 42, stop_lon: -76 },
+        ],
+        { ...stopTimes, CONNECT: connecting(connectFrom) },
+        {},
+        [...trips, { route_id: 'R1', trip_id: 'CONNECT', service_id: 'WKDY', trip_short_name: '3' }],
+        calendar,
+        calendarDates,
+        agencies,
+        transfers
+      );
+
+    it('should connect trains that run on the date', () => {
+      load([{ from_stop_id: 'BBB', to_stop_id: 'BBB', transfer_type: 2, min_transfer_time: 900 }]);
+      const [itinerary] = parser.findItineraries('AAA', 'CCC', new Date(2024, 0, 10));
+      expect(itinerary.legs.map(leg => leg.trip.tripId)).toEqual(['WEEKDAY_1', 'CONNECT']);
+      expect(itinerary.legs[0].departAt).toBe(Date.UTC(2024, 0, 10, 13, 0));
+      expect(itinerary.layovers).toEqual([20 * 60 * 1000]);
+      expect(parser.findItineraries('AAA', 'CCC', new Date(2024, 0, 13))).toEqual([]);
+    });
+
+    it('should change trains at a stop a transfer rule leads to', () => {
+      load([{ from_stop_id: 'BBB', to_stop_id: 'BBX', transfer_type: 2, min_transfer_time: 600 }], 'BBX');
+      const [itinerary] = parser.findItineraries('AAA', 'CCC', new Date(2024, 0, 10));
+      expect(itinerary.legs.map(leg => leg.trip.tripId)).toEqual(['WEEKDAY_1', 'CONNECT']);
+    });
+
+    it("should respect the station's minimum connection time", () => {
+      load([{ from_stop_id: 'BBB', to_stop_id: 'BBB', transfer_type: 2, min_transfer_time: 1800 }]);
+      expect(parser.findItineraries('AAA', 'CCC', new Date(2024, 0, 10))).toEqual([]);
+    });
+  });
+
+  describe('getRouteIdForShape', () => {
+    it("should link a shape to its trips' route", () => {
+      parser.overrideData(
+        routes,
+        stops,
+        stopTimes,
+        {},
+        [{ ...trips[0], shape_id: 'S1' }, trips[1]],
+        calendar,
+        calendarDates,
+        agencies
+      );
+      expect(parser.getRouteIdForShape('S1')).toBe('R1');
+      expect(parser.getRouteIdForShape('S2')).toBeUndefined();
+      expect(parser.getTrainShapeId('WEEKDAY_1')).toBe('S1');
+    });
+  });
+
+  describe('resolveStopTime', () => {
+    it('should resolve times in the agency timezone and display them in the stop timezone', () => {
+      const depart = parser.resolveStopTime('WEEKDAY_1', 'AAA', '08:00:00', '20240110');
+      expect(depart).toMatchObject({ time: '8:00 AM', dayOffset: 0, timeZone: 'America/New_York' });
+      expect(depart.at).toBe(Date.UTC(2024, 0, 10, 13, 0));
+
+      const arrive = parser.resolveStopTime('WEEKDAY_1', 'BBB', '10:00:00', '20240110');
+      expect(arrive).toMatchObject({ time: '9:00 AM', dayOffset: 0, timeZone: 'America/Chicago' });
+    });
+
+    it('should carry times past midnight into the next day', () => {
+      const arrive = parser.resolveStopTime('WEEKEND_1', 'BBB', '25:30:00', new Date(2024, 0, 13));
+      expect(arrive).toMatchObject({ time: '12:30 AM', dayOffset: 1 });
+      expect(arrive.at).toBe(Date.UTC(2024, 0, 14, 6, 30));
+    });
+
+    it('should format in a requested display timezone', () => {
+      const arrive = parser.resolveStopTime('WEEKDAY_1', 'BBB', '10:00:00', '20240110', 'America/Los_Angeles');
+      expect(arrive).toMatchObject({ time: '7:00 AM', timeZone: 'America/Los_Angeles' });
+    });
+
+    it('should fall back to the default timezone without agency data', () => {
+      const legacy = new GTFSParser();
+      legacy.overrideData(routes, stops, stopTimes, {}, trips);
+      expect(legacy.getStopTimezone('AAA')).toBe('America/New_York');
+      expect(legacy.getStopTimezone('BBB')).toBe('America/Chicago');
+    });
+  });
+
+  describe('loadFeeds', () => {
+    const feed = (id: string, name: string): FeedSource => ({
+      id,
+      name,
+      staticUrl: '',
+      color: '#000000',
+      textColor: '#FFFFFF',
+    });
+    const data = { routes, stops, stopTimes, shapes: {}, trips, calendar, calendarDates, agencies, transfers: [] };
+
+    beforeEach(() => {
+      parser.loadFeeds([
+        { source: feed('east', 'East Rail'), data },
+        {
+          source: feed('west', 'West Rail'),
+          data: { ...data, agencies: [{ ...agencies[0], agency_timezone: 'America/Los_Angeles' }] },
+        },
+      ]);
+    });
+
+    it('should keep identical ids from different operators apart', () => {
+      const stations = parser.searchStations('alpha');
+      expect(stations.map(s => s.stop_id).sort()).toEqual(['east:AAA', 'west:AAA']);
+      expect(parser.getStopCode('west:AAA')).toBe('AAA');
+      expect(parser.getOperatorName('west:WEEKDAY_1')).toBe('West Rail');
+    });
+
+    it("should find the route of a realtime trip id from the operator's schedule", () => {
+      expect(parser.getTrainRouteId('west:2024-01-10_1')).toBe('west:R1');
+      expect(parser.getTrainRouteId('west:2024-01-10_99')).toBeUndefined();
+    });
+
+    it('should name the operator in search results', () => {
+      const trains = parser.search('1').filter(r => r.type === 'train');
+      expect(trains.map(r => r.subtitle).sort()).toEqual(['East Rail', 'West Rail']);
+    });
+
+    it("should resolve times in each operator's agency timezone", () => {
+      expect(parser.resolveStopTime('east:WEEKDAY_1', 'east:AAA', '08:00:00', '20240110').at).toBe(
+        Date.UTC(2024, 0, 10, 13, 0)
+      );
+      expect(parser.resolveStopTime('west:WEEKDAY_1', 'west:AAA', '08:00:00', '20240110').at).toBe(
+        Date.UTC(2024, 0, 10, 16, 0)
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { StopSchema, StopTimeSchema } from '../../types/gtfs-schemas';
+import {
+  checkSanity,
+  STATIC_SANITY_THRESHOLDS,
+  ValidationCollector,
+  type FileValidationSummary,
+} from '../../utils/gtfs-validation';
+
+const stopTime = (overrides: Record<string, unknown> = {}) => ({
+  trip_id: 'T1',
+  stop_id: 'CHI',
+  stop_sequence: 1,
+  arrival_time: '25:10:00',
+  departure_time: '25:15:00',
+  ...overrides,
+});
+
+describe('ValidationCollector', () => {
+  it('accepts valid rows, including times past midnight', () => {
+    const validation = new ValidationCollector();
+    expect(validation.check('stop_times.txt', StopTimeSchema, stopTime())).toBe(true);
+    expect(validation.getSummaries()).toEqual([{ file: 'stop_times.txt', accepted: 1, rejected: 0, examples: [] }]);
+  });
+
+  it('rejects malformed times and NaN coordinates with examples', () => {
+    const validation = new ValidationCollector();
+    expect(validation.check('stop_times.txt', StopTimeSchema, stopTime({ arrival_time: '8am' }), { line: 7 })).toBe(
+      false
+    );
+    expect(
+      validation.check(
+        'stops.txt',
+        StopSchema,
+        { stop_id: 'X', stop_name: 'X', stop_lat: NaN, stop_lon: 0 },
+        { id: 'X' }
+      )
+    ).toBe(false);
+
+    const [stopTimes, stops] = validation.getSummaries();
+    expect(stopTimes.rejected).toBe(1);
+    expect(stopTimes.examples[0]).toEqual({ line: 7, reason: 'arrival_time: Expected HH:MM:SS' });
+    expect(stops.examples[0].id).toBe('X');
+    expect(stops.examples[0].reason).toMatch(/^stop_lat: /);
+  });
+
+  it('rejects empty identifiers', () => {
+    const validation = new ValidationCollector();
+    expect(validation.check('stop_times.txt', StopTimeSchema, stopTime({ trip_id: '' }))).toBe(false);
+  });
+
+  it('keeps at most three examples per file', () => {
+    const validation = new ValidationCollector();
+    for (let i = 0; i < 5; i++) validation.check('stop_times.txt', StopTimeSchema, stopTime({ stop_id: '' }));
+    const [summary] = validation.getSummaries();
+    expect(summary.rejected).toBe(5);
+    expect(summary.examples).toHaveLength(3);
+  });
+
+  it('counts accepted rows per file', () => {
+    const validation = new ValidationCollector();
+    validation.check('stop_times.txt', StopTimeSchema, stopTime());
+    validation.check('stop_times.txt', StopTimeSchema, stopTime());
+    validation.check('stop_times.txt', StopTimeSchema, stopTime({ stop_sequence: -1 }));
+    expect(validation.getAcceptedCounts()).toEqual({ 'stop_times.txt': 2 });
+  });
+});
+
+describe('checkSanity', () => {
+  const summary = (file: string, accepted: number, rejected = 0): FileValidationSummary => ({
+    file,
+    accepted,
+    rejected,
+    examples: [],
+  });
+  const healthy = [summary('routes.txt', 40), summary('stops.txt', 500), summary('stop_times.txt', 10000, 3)];
+
+  it('passes a healthy feed', () => {
+    expect(checkSanity(healthy, undefined, STATIC_SANITY_THRESHOLDS)).toBeNull();
+  });
+
+  it('fails when a required file has no valid rows', () => {
+    expect(checkSanity(healthy.slice(0, 2), undefined, STATIC_SANITY_THRESHOLDS)).toBe('stop_times.txt: no valid rows');
+  });
+
+  it('fails when too many rows of a file are rejected', () => {
+    const files = [...healthy, summary('shapes.txt', 80, 20)];
+    expect(checkSanity(files, undefined, STATIC_SANITY_THRESHOLDS)).toBe('shapes.txt: 20% of rows rejected');
+  });
+
+  it('fails when a file shrank well below the last good feed', () => {
+    expect(checkSanity(healthy, { 'stop_times.txt': 30000 }, STATIC_SANITY_THRESHOLDS)).toBe(
+      'stop_times.txt: 10000 rows, down from 30000'
+    );
+    expect(checkSanity(healthy, { 'stop_times.txt': 15000 }, STATIC_SANITY_THRESHOLDS)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { planJourneys, type PlannerOptions, type PlannerTrip } from '../../utils/journey-planner';
+
+const minute = 60_000;
+
+// A trip calling at each stop, in order, at the given minute with no dwell
+function trip(id: string, calls: Record<string, number>): PlannerTrip {
+  return {
+    id,
+    stops: Object.entries(calls).map(([stopId, at]) => ({ stopId, arriveAt: at * minute, departAt: at * minute })),
+  };
+}
+
+const options: PlannerOptions = {
+  maxTransfers: 2,
+  maxLayoverMs: 4 * 60 * minute,
+  getConnections: stopId => [{ stopId, minConnectionMs: (stopId === 'HUB' ? 20 : 10) * minute }],
+};
+
+const allDay = { start: 0, end: 24 * 60 * minute };
+
+function describeLegs(trips: PlannerTrip[], from: string, to: string, planOptions = options) {
+  return planJourneys(trips, from, to, allDay, planOptions).map(itinerary =>
+    itinerary.legs.map(
+      leg => `${leg.trip.id}:${leg.trip.stops[leg.fromIndex].stopId}-${leg.trip.stops[leg.toIndex].stopId}`
+    )
+  );
+}
+
+describe('planJourneys', () => {
+  it('should return direct trips', () => {
+    const trips = [trip('1', { A: 0, B: 60, C: 120 }), trip('2', { C: 0, A: 60 })];
+    const [itinerary] = planJourneys(trips, 'A', 'C', allDay, options);
+    expect(itinerary.legs).toHaveLength(1);
+    expect(itinerary.duration).toBe(120 * minute);
+    expect(itinerary.layovers).toEqual([]);
+    expect(describeLegs(trips, 'C', 'A')).toEqual([['2:C-A']]);
+  });
+
+  it('should connect at a shared stop and report the layover', () => {
+    const trips = [trip('1', { A: 0, HUB: 60 }), trip('2', { HUB: 90, D: 150 })];
+    const [itinerary] = planJourneys(trips, 'A', 'D', allDay, options);
+    expect(itinerary.legs.map(leg => leg.trip.id)).toEqual(['1', '2']);
+    expect(itinerary.layovers).toEqual([30 * minute]);
+    expect(itinerary.departAt).toBe(0);
+    expect(itinerary.arriveAt).toBe(150 * minute);
+  });
+
+  it('should respect the minimum connection time of the stop', () => {
+    const trips = [trip('1', { A: 0, HUB: 60 }), trip('tight', { HUB: 75, D: 100 }), trip('2', { HUB: 90, D: 150 })];
+    expect(describeLegs(trips, 'A', 'D')).toEqual([['1:A-HUB', '2:HUB-D']]);
+  });
+
+  it('should not wait longer than the maximum layover', () => {
+    const trips = [trip('1', { A: 0, B: 60 }), trip('2', { B: 6 * 60, D: 7 * 60 })];
+    expect(describeLegs(trips, 'A', 'D')).toEqual([]);
+  });
+
+  it('should find itineraries with two transfers', () => {
+    const trips = [trip('1', { A: 0, B: 60 }), trip('2', { B: 80, HUB: 120 }), trip('3', { HUB: 150, D: 200 })];
+    expect(describeLegs(trips, 'A', 'D')).toEqual([['1:A-B', '2:B-HUB', '3:HUB-D']]);
+    expect(describeLegs(trips, 'A', 'D', { ...options, maxTransfers: 1 })).toEqual([]);
+  });
+
+  it('should change at the stop that reaches the destination first', () => {
+    const trips = [trip('1', { A: 0, B: 30, C: 60 }), trip('slow', { B: 45, D: 300 }), trip('fast', { C: 75, D: 120 })];
+    expect(describeLegs(trips, 'A', 'D')).toEqual([['1:A-C', 'fast:C-D']]);
+  });
+
+  it('should change to another stop when the schedule allows it', () => {
+    const trips = [trip('1', { A: 0, B: 60 }), trip('2', { 'B-east': 80, D: 120 })];
+    const walk: PlannerOptions = {
+      ...options,
+      getConnections: stopId => (stopId === 'B' ? [{ stopId: 'B-east', minConnectionMs: 15 * minute }] : []),
+    };
+    expect(describeLegs(trips, 'A', 'D', walk)).toEqual([['1:A-B', '2:B-east-D']]);
+  });
+
+  it('should drop connections that are no better than another option', () => {
+    const trips = [
+      trip('direct', { A: 60, D: 180 }),
+      // Departs earlier and arrives later than the direct trip
+      trip('1', { A: 0, B: 60 }),
+      trip('2', { B: 80, D: 200 }),
+      // Arrives earlier, so worth the transfer
+      trip('3', { A: 30, C: 60 }),
+      trip('4', { C: 80, D: 140 }),
+    ];
+    expect(describeLegs(trips, 'A', 'D')).toEqual([['3:A-C', '4:C-D'], ['direct:A-D']]);
+  });
+
+  it('should only return itineraries departing within the window', () => {
+    const trips = [trip('1', { A: 0, D: 60 }), trip('2', { A: 120, D: 180 })];
+    const window = { start: 60 * minute, end: 24 * 60 * minute };
+    expect(planJourneys(trips, 'A', 'D', window, options).map(itinerary => itinerary.legs[0].trip.id)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getMotionDistance,
+  getPointAlongPath,
+  measurePath,
+  projectOntoPath,
+  updateMotion,
+} from '../../utils/map-matching';
+
+// A straight line due north, about 1.1 km between points
+const path = measurePath([0, 1, 2, 3].map(i => ({ latitude: 40 + i / 100, longitude: -75 })));
+const match = (latitude: number) => projectOntoPath(path, { latitude, longitude: -75.001 })!;
+
+describe('measurePath', () => {
+  it('should accumulate segment lengths in meters', () => {
+    expect(path.distances[0]).toBe(0);
+    expect(path.distances[3]).toBeCloseTo(3316, 0);
+  });
+});
+
+describe('projectOntoPath', () => {
+  it('should snap a nearby position onto the line', () => {
+    const result = match(40.015);
+    expect(result.point.longitude).toBeCloseTo(-75);
+    expect(result.distanceAlong).toBeCloseTo(path.distances[3] / 2, 0);
+    expect(result.offset).toBeCloseTo(85, 0);
+    expect(result.bearing).toBeCloseTo(0);
+  });
+
+  it('should leave positions far from the line unmatched', () => {
+    expect(projectOntoPath(path, { latitude: 40.01, longitude: -75.1 })).toBeNull();
+  });
+});
+
+describe('getPointAlongPath', () => {
+  it('should interpolate and clamp to the ends', () => {
+    expect(getPointAlongPath(path, path.distances[1] / 2).point.latitude).toBeCloseTo(40.005);
+    expect(getPointAlongPath(path, -100).point.latitude).toBe(40);
+    expect(getPointAlongPath(path, 1e6).point.latitude).toBe(40.03);
+  });
+});
+
+describe('updateMotion', () => {
+  const t0 = 1_700_000_000_000;
+
+  it('should extrapolate at the reported speed, for a limited time', () => {
+    const motion = updateMotion(undefined, match(40.01), { speed: 20, bearing: 2, timestamp: t0 }, t0);
+    expect(getMotionDistance(motion, t0 + 10_000) - motion.distanceAlong).toBeCloseTo(200);
+    expect(getMotionDistance(motion, t0 + 600_000) - motion.distanceAlong).toBeCloseTo(600);
+  });
+
+  it('should move against the shape when the bearing is reversed', () => {
+    const motion = updateMotion(undefined, match(40.01), { speed: 20, bearing: 180, timestamp: t0 }, t0);
+    expect(motion.speed).toBe(-20);
+  });
+
+  it('should derive speed from consecutive reports without one', () => {
+    const first = updateMotion(undefined, match(40.01), { timestamp: t0 }, t0);
+    const second = updateMotion(first, match(40.02), { timestamp: t0 + 60_000 }, t0 + 60_000);
+    expect(second.speed).toBeCloseTo((path.distances[2] - path.distances[1]) / 60, 1);
+  });
+
+  it('should glide from the previous estimate to the new report', () => {
+    const first = updateMotion(undefined, match(40.01), { speed: 0, timestamp: t0 }, t0);
+    const second = updateMotion(first, match(40.012), { speed: 0, timestamp: t0 + 15_000 }, t0 + 15_000);
+    expect(getMotionDistance(second, t0 + 15_000)).toBeCloseTo(first.distanceAlong);
+    expect(getMotionDistance(second, t0 + 20_000)).toBeCloseTo(second.distanceAlong);
+  });
+
+  it('should ignore a report it has already seen', () => {
+    const first = updateMotion(undefined, match(40.01), { speed: 10, timestamp: t0 }, t0);
+    expect(updateMotion(first, match(40.01), { speed: 10, timestamp: t0 }, t0 + 15_000)).toBe(first);
+  });
+});
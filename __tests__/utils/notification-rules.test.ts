@@ -0,0 +1,208 @@
+import {
+  evaluateNotifications,
+  INITIAL_NOTIFICATION_STATE,
+  isWithinWatchWindow,
+  type NotificationState,
+  type TripStatus,
+  type WatchedTrip,
+} from '../../utils/notification-rules';
+import type { TrainNotificationPreferences } from '../../types/train';
+
+const minute = 60_000;
+const t0 = 1_700_000_000_000;
+
+// Departs A at t0, calls at B and C, arrives D at +60 min
+const trip: WatchedTrip = {
+  label: 'Train 543',
+  stops: [
+    { stopId: 'A', name: 'Alpha', arriveAt: t0, departAt: t0, platform: '3' },
+    { stopId: 'B', name: 'Bravo', arriveAt: t0 + 20 * minute, departAt: t0 + 22 * minute },
+    { stopId: 'C', name: 'Charlie', arriveAt: t0 + 40 * minute, departAt: t0 + 42 * minute },
+    { stopId: 'D', name: 'Delta', arriveAt: t0 + 60 * minute, departAt: t0 + 60 * minute },
+  ],
+};
+
+const preferences: TrainNotificationPreferences = {
+  enabled: true,
+  departureReminderMinutes: 30,
+  delayThresholdsMinutes: [15, 30],
+  cancellation: true,
+  platformChanges: true,
+  stopsBeforeArrival: 1,
+};
+
+// A fake realtime feed: every stop of the segment delayed by the same amount
+function delayed(minutes: number, overrides: Partial<TripStatus> = {}): TripStatus {
+  const delay = minutes * 60;
+  return {
+    cancelled: false,
+    stops: trip.stops.map(() => ({ arrivalDelay: delay, departureDelay: delay, skipped: false })),
+    ...overrides,
+  };
+}
+
+// Run the rules over a sequence of (time, status) observations, as the app would on each refresh
+function run(observations: Array<[number, TripStatus | null]>, prefs = preferences) {
+  let state: NotificationState = INITIAL_NOTIFICATION_STATE;
+  const bodies: string[] = [];
+  for (const [now, status] of observations) {
+    const result = evaluateNotifications(trip, prefs, status, state, now);
+    bodies.push(...result.notifications.map(notification => notification.body));
+    state = result.state;
+  }
+  return { bodies, state };
+}
+
+describe('evaluateNotifications', () => {
+  describe('departure reminder', () => {
+    it('should schedule the reminder from the schedule', () => {
+      const result = evaluateNotifications(trip, preferences, null, INITIAL_NOTIFICATION_STATE, t0 - 2 * 60 * minute);
+      expect(result.departureReminder?.at).toBe(t0 - 30 * minute);
+      expect(result.departureReminder?.body).toBe('Departs Alpha from platform 3 in 30 min');
+    });
+
+    it('should move the reminder with the departure delay', () => {
+      const result = evaluateNotifications(
+        trip,
+        preferences,
+        delayed(20),
+        INITIAL_NOTIFICATION_STATE,
+        t0 - 60 * minute
+      );
+      expect(result.departureReminder?.at).toBe(t0 - 10 * minute);
+    });
+
+    it('should not reschedule a reminder once it is due', () => {
+      const { state } = run([[t0 - 20 * minute, null]]);
+      expect(state.departureReminded).toBe(true);
+      expect(
+        evaluateNotifications(trip, preferences, delayed(30), state, t0 - 15 * minute).departureReminder
+      ).toBeNull();
+    });
+
+    it('should ignore realtime data far ahead of the trip', () => {
+      const result = evaluateNotifications(
+        trip,
+        preferences,
+        delayed(60),
+        INITIAL_NOTIFICATION_STATE,
+        t0 - 24 * 60 * minute
+      );
+      expect(result.departureReminder?.at).toBe(t0 - 30 * minute);
+      expect(result.notifications).toEqual([]);
+    });
+  });
+
+  describe('delays', () => {
+    it('should notify once per threshold crossed', () => {
+      const { bodies } = run([
+        [t0 - 60 * minute, delayed(5)],
+        [t0 - 55 * minute, delayed(16)],
+        [t0 - 50 * minute, delayed(18)],
+        [t0 - 45 * minute, delayed(40)],
+      ]);
+      expect(bodies).toEqual([
+        'Train 543 is running 16 min late at Alpha',
+        'Train 543 is running 40 min late at Alpha',
+      ]);
+    });
+
+    it('should notify when the train makes up time, without flapping around a threshold', () => {
+      const { bodies } = run([
+        [t0 - 60 * minute, delayed(16)],
+        [t0 - 55 * minute, delayed(13)],
+        [t0 - 50 * minute, delayed(0)],
+      ]);
+      expect(bodies).toEqual(['Train 543 is running 16 min late at Alpha', 'Train 543 is back on time at Alpha']);
+    });
+
+    it('should watch the alighting stop once the train has left', () => {
+      const status = delayed(0);
+      status.stops[3].arrivalDelay = 30 * 60;
+      const { bodies } = run([[t0 + 5 * minute, status]], { ...preferences, stopsBeforeArrival: null });
+      expect(bodies).toEqual(['Train 543 is running 30 min late at Delta']);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should notify once and stop scheduling the reminder', () => {
+      const cancelled = delayed(0, { cancelled: true });
+      const first = evaluateNotifications(trip, preferences, cancelled, INITIAL_NOTIFICATION_STATE, t0 - 60 * minute);
+      expect(first.notifications.map(notification => notification.kind)).toEqual(['cancelled']);
+      expect(first.departureReminder).toBeNull();
+
+      const second = evaluateNotifications(trip, preferences, cancelled, first.state, t0 - 55 * minute);
+      expect(second.notifications).toEqual([]);
+    });
+
+    it('should respect the preference', () => {
+      const { bodies } = run([[t0 - 60 * minute, delayed(0, { cancelled: true })]], {
+        ...preferences,
+        cancellation: false,
+      });
+      expect(bodies).toEqual([]);
+    });
+  });
+
+  describe('platform changes', () => {
+    it('should notify when the boarding platform is reassigned', () => {
+      const status = delayed(0);
+      status.stops[0].platform = '7';
+      const { bodies } = run([
+        [t0 - 60 * minute, status],
+        [t0 - 55 * minute, status],
+      ]);
+      expect(bodies).toEqual(['Platform change: Train 543 now departs Alpha from platform 7']);
+    });
+
+    it('should ignore the scheduled platform', () => {
+      const status = delayed(0);
+      status.stops[0].platform = '3';
+      expect(run([[t0 - 60 * minute, status]]).bodies).toEqual([]);
+    });
+  });
+
+  describe('arrival', () => {
+    it('should notify when the train leaves the stop before the destination', () => {
+      const { bodies } = run([
+        [t0 + 30 * minute, null],
+        [t0 + 41 * minute, null],
+        [t0 + 43 * minute, null],
+        [t0 + 50 * minute, null],
+      ]);
+      expect(bodies).toEqual(['Delta is the next stop']);
+    });
+
+    it('should count only stops the train calls at', () => {
+      const status = delayed(0);
+      status.stops[2].skipped = true;
+      const { bodies } = run([[t0 + 25 * minute, status]], { ...preferences, stopsBeforeArrival: 2 });
+      expect(bodies).toEqual(['Delta is the next stop']);
+    });
+
+    it('should count stops several stops out', () => {
+      const { bodies } = run([[t0 + 5 * minute, null]], { ...preferences, stopsBeforeArrival: 3 });
+      expect(bodies).toEqual(['Delta is 3 stops away']);
+    });
+  });
+
+  it('should finish once the train has arrived', () => {
+    const result = evaluateNotifications(trip, preferences, null, INITIAL_NOTIFICATION_STATE, t0 + 61 * minute);
+    expect(result.finished).toBe(true);
+    expect(result.notifications).toEqual([]);
+  });
+
+  it('should stay quiet when notifications are off for the train', () => {
+    const { bodies } = run([[t0 - 60 * minute, delayed(60, { cancelled: true })]], { ...preferences, enabled: false });
+    expect(bodies).toEqual([]);
+  });
+});
+
+describe('isWithinWatchWindow', () => {
+  it('should cover a few hours either side of the run', () => {
+    expect(isWithinWatchWindow(trip, t0 - 24 * 60 * minute)).toBe(false);
+    expect(isWithinWatchWindow(trip, t0 - 60 * minute)).toBe(true);
+    expect(isWithinWatchWindow(trip, t0 + 3 * 60 * minute)).toBe(true);
+    expect(isWithinWatchWindow(trip, t0 + 24 * 60 * minute)).toBe(false);
+  });
+});
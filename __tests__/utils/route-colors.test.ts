@@ -0,0 +1,47 @@
+import { getContrastRatio, getRouteColor, isVisibleOnMap, normalizeHexColor } from '../../utils/route-colors';
+
+describe('normalizeHexColor', () => {
+  it('should accept GTFS colors with or without #', () => {
+    expect(normalizeHexColor('00537e')).toBe('#00537E');
+    expect(normalizeHexColor('#00537E')).toBe('#00537E');
+  });
+
+  it('should reject anything else', () => {
+    expect(normalizeHexColor(undefined)).toBeNull();
+    expect(normalizeHexColor('')).toBeNull();
+    expect(normalizeHexColor('FFF')).toBeNull();
+    expect(normalizeHexColor('blue')).toBeNull();
+  });
+});
+
+describe('getContrastRatio', () => {
+  it('should range from 1 to 21', () => {
+    expect(getContrastRatio('#FFFFFF', '#000000')).toBeCloseTo(21);
+    expect(getContrastRatio('#00537E', '#00537E')).toBe(1);
+  });
+});
+
+describe('getRouteColor', () => {
+  it("should use the agency's route colors", () => {
+    const scheme = getRouteColor('R1', { route_color: '00537E', route_text_color: 'FFFFFF' });
+    expect(scheme.stroke).toBe('#00537E');
+    expect(scheme.textColor).toBe('#FFFFFF');
+  });
+
+  it('should fall back to a palette color for missing or unreadable colors', () => {
+    for (const route of [undefined, {}, { route_color: 'FFFFFF' }, { route_color: '000000' }]) {
+      const scheme = getRouteColor('R1', route);
+      expect(scheme.stroke).not.toMatch(/^#(FFFFFF|000000)$/);
+      expect(isVisibleOnMap(scheme.stroke)).toBe(true);
+    }
+  });
+
+  it('should give the same id the same fallback color', () => {
+    expect(getRouteColor('amtrak:88').stroke).toBe(getRouteColor('amtrak:88').stroke);
+  });
+
+  it('should pick a legible text color when the agency gives none', () => {
+    const scheme = getRouteColor('R1', { route_color: '00537E' });
+    expect(getContrastRatio(scheme.stroke, scheme.textColor)).toBeGreaterThanOrEqual(4.5);
+  });
+});
@@ -0,0 +1,76 @@
+import { editDistance, normalizeSearchText, SearchIndex, tokenize } from '../../utils/search-index';
+
+describe('search-index utilities', () => {
+  describe('normalizeSearchText', () => {
+    it('should lowercase, strip punctuation and accents, and split letters from digits', () => {
+      expect(normalizeSearchText('St. Louis–Gateway')).toBe('st louis gateway');
+      expect(normalizeSearchText('Montréal')).toBe('montreal');
+      expect(normalizeSearchText('acela2150')).toBe('acela 2150');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split text into tokens', () => {
+      expect(tokenize('Chicago Union Station')).toEqual(['chicago', 'union', 'station']);
+      expect(tokenize('  ')).toEqual([]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions, substitutions and transpositions', () => {
+      expect(editDistance('chicago', 'chicago', 2)).toBe(0);
+      expect(editDistance('chicgo', 'chicago', 2)).toBe(1);
+      expect(editDistance('chciago', 'chicago', 2)).toBe(1);
+      expect(editDistance('boston', 'denver', 2)).toBe(3);
+    });
+  });
+
+  describe('SearchIndex', () => {
+    const index = new SearchIndex<string>();
+    index.add({ id: 'CHI', type: 'station', name: 'Chicago Union Station', codes: ['CHI'], boost: 7, value: 'CHI' });
+    index.add({ id: 'CIC', type: 'station', name: 'Chico', codes: ['CIC'], boost: 1, value: 'CIC' });
+    index.add({
+      id: 'NYP',
+      type: 'station',
+      name: 'New York Moynihan Train Hall',
+      codes: ['NYP'],
+      aliases: ['Penn Station'],
+      value: 'NYP',
+    });
+    index.add({ id: 'train-2150', type: 'train', name: 'Acela 2150', codes: ['2150', 'AMT2150'], value: '2150' });
+    index.add({ id: 'route-1', type: 'route', name: 'Lake Shore Limited', codes: ['LSL'], value: 'LSL' });
+
+    const ids = (query: string) => index.search(query).map(match => match.document.id);
+
+    it('should rank by relevance using prefixes and boosts', () => {
+      expect(ids('chi')[0]).toBe('CHI');
+      expect(ids('chi')).toContain('CIC');
+    });
+
+    it('should require every query token to match', () => {
+      expect(ids('chicago union')).toEqual(['CHI']);
+      expect(ids('chicago boston')).toEqual([]);
+    });
+
+    it('should tolerate small typos', () => {
+      expect(ids('chciago')).toEqual(['CHI']);
+      expect(ids('shore limted')).toEqual(['route-1']);
+    });
+
+    it('should match codes exactly, including codes split across tokens', () => {
+      expect(ids('nyp')).toEqual(['NYP']);
+      expect(ids('AMT2150')).toEqual(['train-2150']);
+      expect(ids('acela2150')).toEqual(['train-2150']);
+    });
+
+    it('should match aliases and report which alias matched', () => {
+      const [match] = index.search('penn station');
+      expect(match.document.id).toBe('NYP');
+      expect(match.matchedAlias).toBe('Penn Station');
+    });
+
+    it('should filter by type', () => {
+      expect(index.search('2150', 20, ['station'])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  formatDurationBetween,
+  formatInTimeZone,
+  getDisplayTime,
+  getTimeZoneOffsetMinutes,
+  resolveServiceTime,
+} from '../../utils/service-time';
+
+describe('service-time utilities', () => {
+  describe('resolveServiceTime', () => {
+    it('should resolve a stop time to an absolute instant in the agency timezone', () => {
+      expect(resolveServiceTime('14:30:00', '20240115', 'America/New_York')).toBe(Date.UTC(2024, 0, 15, 19, 30));
+      expect(resolveServiceTime('14:30:00', '20240715', 'America/New_York')).toBe(Date.UTC(2024, 6, 15, 18, 30));
+    });
+
+    it('should handle times past midnight', () => {
+      expect(resolveServiceTime('25:30:00', '20240115', 'America/New_York')).toBe(Date.UTC(2024, 0, 16, 6, 30));
+    });
+
+    it('should measure from noon minus 12 hours on DST transition days', () => {
+      // Clocks spring forward on March 10, 2024, so 01:00 service time is 00:00 local
+      expect(resolveServiceTime('01:00:00', '20240310', 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 5, 0));
+      expect(resolveServiceTime('12:00:00', '20240310', 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 16, 0));
+    });
+  });
+
+  describe('getTimeZoneOffsetMinutes', () => {
+    it('should return the UTC offset including daylight saving time', () => {
+      expect(getTimeZoneOffsetMinutes(Date.UTC(2024, 0, 15), 'America/Chicago')).toBe(-360);
+      expect(getTimeZoneOffsetMinutes(Date.UTC(2024, 6, 15), 'America/Chicago')).toBe(-300);
+      expect(getTimeZoneOffsetMinutes(Date.UTC(2024, 6, 15), 'UTC')).toBe(0);
+    });
+  });
+
+  describe('formatInTimeZone', () => {
+    it('should format the wall-clock time in the given timezone', () => {
+      const at = Date.UTC(2024, 0, 15, 19, 30);
+      expect(formatInTimeZone(at, 'America/New_York', '20240115')).toEqual({ time: '2:30 PM', dayOffset: 0 });
+      expect(formatInTimeZone(at, 'America/Los_Angeles', '20240115')).toEqual({ time: '11:30 AM', dayOffset: 0 });
+    });
+
+    it('should count days after the service date in the display timezone', () => {
+      const at = Date.UTC(2024, 0, 16, 6, 30);
+      expect(formatInTimeZone(at, 'America/Chicago', '20240115')).toEqual({ time: '12:30 AM', dayOffset: 1 });
+      expect(formatInTimeZone(at, 'America/Los_Angeles', '20240115')).toEqual({ time: '10:30 PM', dayOffset: 0 });
+    });
+  });
+
+  describe('formatDurationBetween', () => {
+    it('should format the elapsed time between instants', () => {
+      expect(formatDurationBetween(0, 90 * 60 * 1000)).toBe('1h 30m');
+      expect(formatDurationBetween(0, 26 * 60 * 60 * 1000)).toBe('26h 0m');
+    });
+  });
+
+  describe('getDisplayTime', () => {
+    it('should keep the station time unless a display timezone is requested', () => {
+      const stationTime = { time: '2:30 PM', dayOffset: 0 };
+      const at = Date.UTC(2024, 0, 15, 19, 30);
+      expect(getDisplayTime(stationTime, at, '20240115', undefined)).toBe(stationTime);
+      expect(getDisplayTime(stationTime, undefined, '20240115', 'America/Denver')).toBe(stationTime);
+      expect(getDisplayTime(stationTime, at, '20240115', 'America/Denver')).toEqual({ time: '12:30 PM', dayOffset: 0 });
+    });
+  });
+});
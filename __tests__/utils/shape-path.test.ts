@@ -0,0 +1,40 @@
+import { findNearestPointIndex, slicePath, splitPathAt } from '../../utils/shape-path';
+
+// A straight line north, one point per tenth of a degree
+const path = [0, 1, 2, 3, 4, 5].map(i => ({ latitude: 40 + i / 10, longitude: -75 }));
+
+describe('findNearestPointIndex', () => {
+  it('should snap a location to the closest shape point', () => {
+    expect(findNearestPointIndex(path, { latitude: 40.21, longitude: -74.99 })).toBe(2);
+  });
+
+  it('should return -1 for an empty path', () => {
+    expect(findNearestPointIndex([], { latitude: 40, longitude: -75 })).toBe(-1);
+  });
+});
+
+describe('slicePath', () => {
+  it('should keep the points between two stations', () => {
+    const from = { latitude: 40.1, longitude: -75 };
+    const to = { latitude: 40.4, longitude: -75 };
+    expect(slicePath(path, from, to)).toEqual(path.slice(1, 5));
+  });
+
+  it('should not depend on the direction the shape runs', () => {
+    const from = { latitude: 40.4, longitude: -75 };
+    const to = { latitude: 40.1, longitude: -75 };
+    expect(slicePath(path, from, to)).toEqual(path.slice(1, 5));
+  });
+});
+
+describe('splitPathAt', () => {
+  it('should split at the train, sharing the point it is at', () => {
+    const { traveled, remaining } = splitPathAt(path, { latitude: 40.3, longitude: -75 });
+    expect(traveled).toEqual(path.slice(0, 4));
+    expect(remaining).toEqual(path.slice(3));
+  });
+
+  it('should leave the whole path remaining without a position', () => {
+    expect(splitPathAt(path)).toEqual({ traveled: [], remaining: path });
+  });
+});
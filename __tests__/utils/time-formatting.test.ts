@@ -4,6 +4,7 @@ import {
   parseTimeToMinutes,
   parseTimeToDate,
   addDelayToTime,
+  formatLastReported,
 } from '../../utils/time-formatting';
 
 describe('time-formatting utilities', () => {
@@ -95,4 +96,14 @@ describe('time-formatting utilities', () => {
       expect(addDelayToTime('11:30 PM', 60, 1)).toEqual({ time: '12:30 AM', dayOffset: 2 });
     });
   });
+
+  describe('formatLastReported', () => {
+    const now = 1_700_000_000_000;
+
+    it('should describe the age in minutes, then hours', () => {
+      expect(formatLastReported(now - 30_000, now)).toBe('Last reported just now');
+      expect(formatLastReported(now - 12 * 60_000, now)).toBe('Last reported 12 min ago');
+      expect(formatLastReported(now - 150 * 60_000, now)).toBe('Last reported 2 h ago');
+    });
+  });
 });
@@ -0,0 +1,59 @@
+import { AMTRAK_NAMED_TRAINS } from '../../constants/named-trains';
+import type { Route, Trip } from '../../types/train';
+import { buildTrainRouteNames, findNamedTrainCollisions } from '../../utils/train-route-names';
+
+const routes = new Map<string, Route>([
+  ['WOL', { route_id: 'WOL', route_long_name: 'Wolverine' }],
+  ['BWT', { route_id: 'BWT', route_long_name: 'Blue Water' }],
+  ['PEN', { route_id: 'PEN', route_long_name: 'Pennsylvanian' }],
+  ['PEN2', { route_id: 'PEN2', route_long_name: 'Pennsylvanian' }],
+]);
+
+const trip = (trip_id: string, route_id: string, trip_short_name?: string): Trip => ({
+  trip_id,
+  route_id,
+  trip_short_name,
+});
+
+describe('buildTrainRouteNames', () => {
+  it('should map each train number to its route name', () => {
+    const { names, collisions } = buildTrainRouteNames(
+      [trip('T1', 'PEN', '43'), trip('T2', 'PEN2', '43'), trip('T3', 'WOL', '350')],
+      routes
+    );
+    expect(names.get('43')).toBe('Pennsylvanian');
+    expect(names.get('350')).toBe('Wolverine');
+    expect(collisions).toEqual([]);
+  });
+
+  it('should flag numbers that run on differently named routes and keep the most used name', () => {
+    const { names, collisions } = buildTrainRouteNames(
+      [trip('T1', 'WOL', '364'), trip('T2', 'BWT', '364'), trip('T3', 'BWT', '364')],
+      routes
+    );
+    expect(names.get('364')).toBe('Blue Water');
+    expect(collisions).toEqual([{ trainNumber: '364', routeNames: ['Blue Water', 'Wolverine'] }]);
+  });
+
+  it('should key numbers with the given function and skip trips without one', () => {
+    const { names } = buildTrainRouteNames([trip('amtrak:T1', 'WOL', '350'), trip('amtrak:T2', 'BWT')], routes, t =>
+      t.trip_short_name ? `amtrak:${t.trip_short_name}` : undefined
+    );
+    expect(Array.from(names)).toEqual([['amtrak:350', 'Wolverine']]);
+  });
+});
+
+describe('findNamedTrainCollisions', () => {
+  it('should flag numbers listed under more than one name', () => {
+    expect(
+      findNamedTrainCollisions([
+        { name: 'Lincoln Service', trainNumbers: ['300', '311'] },
+        { name: 'Missouri River Runner', trainNumbers: ['311', '316'] },
+      ])
+    ).toEqual([{ trainNumber: '311', routeNames: ['Lincoln Service', 'Missouri River Runner'] }]);
+  });
+
+  it('should find no collisions in the Amtrak named trains', () => {
+    expect(findNamedTrainCollisions(AMTRAK_NAMED_TRAINS)).toEqual([]);
+  });
+});
@@ -3,6 +3,9 @@ import { StatusBar } from 'expo-status-bar';
 import React, { useEffect, useState } from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
+// Importing defines the background task, which has to happen on every launch, including background ones
+import { registerBackgroundRefresh } from '../services/background-refresh';
+import { TrainNotificationService } from '../services/notifications';
 
 export const unstable_settings = {
   anchor: '/',
@@ -11,6 +14,11 @@ export const unstable_settings = {
 export default function RootLayout() {
   const [isReady, setIsReady] = useState(false);
 
+  useEffect(() => {
+    TrainNotificationService.configure();
+    registerBackgroundRefresh();
+  }, []);
+
   useEffect(() => {
     // Just wait a tick to ensure GestureHandlerRootView is mounted
     const timer = setTimeout(() => setIsReady(true), 0);
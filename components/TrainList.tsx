@@ -14,11 +14,15 @@ import Animated, {
 } from 'react-native-reanimated';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
-import { AppColors, Spacing } from '../constants/theme';
+import { AppColors, BorderRadius, Spacing } from '../constants/theme';
 import { COLORS, styles } from '../screens/styles';
 import type { Train } from '../types/train';
 import TimeDisplay from './ui/TimeDisplay';
 import { SlideUpModalContext } from './ui/slide-up-modal';
+import { useTimeZoneContext } from '../context/TimeZoneContext';
+import { formatConnectionStatus, getConnectionStatuses } from '../utils/connection-status';
+import { getDisplayTime } from '../utils/service-time';
+import { gtfsParser } from '../utils/gtfs-parser';
 import { parseTimeToDate } from '../utils/time-formatting';
 
 // Re-export for backwards compatibility
@@ -38,9 +42,9 @@ export function getCountdownForTrain(train: Train): {
     return { value: Math.round(train.daysAway), unit: 'DAYS', past: false };
   }
   const now = new Date();
-  const baseDate = new Date(now);
-  const departDate = parseTimeToDate(train.departTime, baseDate);
-  let deltaSec = (departDate.getTime() - now.getTime()) / 1000;
+  // Prefer the resolved departure instant; the display string is in the station's timezone, not the device's
+  const departMs = train.departAt ?? parseTimeToDate(train.departTime, new Date(now)).getTime();
+  let deltaSec = (departMs - now.getTime()) / 1000;
   const past = deltaSec < 0;
   const absSec = Math.abs(deltaSec);
 
@@ -54,15 +58,35 @@ export function getCountdownForTrain(train: Train): {
   return { value: seconds, unit: 'SECONDS', past };
 }
 
+/**
+ * Group the legs of each saved journey, at the position of its first leg
+ */
+function groupItineraries(trains: Train[]): Train[][] {
+  const groups: Train[][] = [];
+  const itineraries = new Map<string, Train[]>();
+  for (const train of trains) {
+    const legs = train.itineraryId ? itineraries.get(train.itineraryId) : undefined;
+    if (legs) {
+      legs.push(train);
+    } else {
+      groups.push([train]);
+      if (train.itineraryId) itineraries.set(train.itineraryId, groups[groups.length - 1]);
+    }
+  }
+  return groups;
+}
+
 interface SwipeableTrainCardProps {
-  train: Train;
+  legs: Train[]; // One train, or the legs of a journey with connections in travel order
   onPress: () => void;
   onDelete: () => void;
   isFirst?: boolean;
   contentOpacity?: SharedValue<number>;
 }
 
-function SwipeableTrainCard({ train, onPress, onDelete, isFirst, contentOpacity }: SwipeableTrainCardProps) {
+function SwipeableTrainCard({ legs, onPress, onDelete, isFirst, contentOpacity }: SwipeableTrainCardProps) {
+  const train = legs[0];
+  const lastLeg = legs[legs.length - 1];
   const translateX = useSharedValue(0);
   const hasTriggeredSecondHaptic = useSharedValue(false);
   const isDeleting = useSharedValue(false);
@@ -176,6 +200,21 @@ function SwipeableTrainCard({ train, onPress, onDelete, isFirst, contentOpacity
     };
   });
 
+  const { displayTimeZone } = useTimeZoneContext();
+  const departDisplay = getDisplayTime(
+    { time: train.departTime, dayOffset: train.departDayOffset || 0 },
+    train.departAt,
+    train.serviceDate,
+    displayTimeZone
+  );
+  const arriveDisplay = getDisplayTime(
+    { time: lastLeg.arriveTime, dayOffset: lastLeg.arriveDayOffset || 0 },
+    lastLeg.arriveAt,
+    lastLeg.serviceDate,
+    displayTimeZone
+  );
+  const connections = getConnectionStatuses(legs, code => gtfsParser.getMinConnectionTime(code));
+
   const countdown = getCountdownForTrain(train);
   // Proper pluralization: "1 HOUR" vs "2 HOURS"
   const singularUnit = countdown.unit.slice(0, -1); // Remove trailing 'S' (DAYS->DAY, HOURS->HOUR, etc.)
@@ -234,14 +273,22 @@ function SwipeableTrainCard({ train, onPress, onDelete, isFirst, contentOpacity
           <View style={styles.flightCenter}>
             <View style={styles.flightHeader}>
               <Image source={require('../assets/images/amtrak.png')} style={styles.amtrakLogo} fadeDuration={0} />
-              <Text style={[styles.trainNumber, { color: COLORS.secondary, fontWeight: '400' }]}>
-                {train.routeName ? train.routeName : train.operator} {train.trainNumber}
+              <Text
+                style={[styles.trainNumber, swipeStyles.trainNames, { color: COLORS.secondary, fontWeight: '400' }]}
+                numberOfLines={1}
+              >
+                {legs.map(leg => `${leg.routeName ? leg.routeName : leg.operator} ${leg.trainNumber}`).join(' → ')}
               </Text>
+              {legs.some(leg => leg.realtime?.cancelled) && (
+                <View style={swipeStyles.cancelledBadge}>
+                  <Text style={swipeStyles.cancelledText}>Cancelled</Text>
+                </View>
+              )}
               <Text style={styles.flightDate}>{train.date}</Text>
             </View>
 
             <Text style={[styles.route, { fontSize: 18 }]}>
-              {train.from} to {train.to}
+              {train.from} to {lastLeg.to}
             </Text>
 
             <View style={styles.timeRow}>
@@ -249,10 +296,10 @@ function SwipeableTrainCard({ train, onPress, onDelete, isFirst, contentOpacity
                 <View style={[styles.arrowIcon, styles.departureIcon]}>
                   <MaterialCommunityIcons name="arrow-top-right" size={8} color="rgba(255, 255, 255, 0.5)" />
                 </View>
-                <Text style={styles.timeCode}>{train.fromCode}</Text>
+                <Text style={styles.timeCode}>{gtfsParser.getStopCode(train.fromCode)}</Text>
                 <TimeDisplay
-                  time={train.departTime}
-                  dayOffset={train.departDayOffset}
+                  time={departDisplay.time}
+                  dayOffset={departDisplay.dayOffset}
                   style={styles.timeValue}
                   superscriptStyle={swipeStyles.timeSuperscript}
                 />
@@ -262,15 +309,24 @@ function SwipeableTrainCard({ train, onPress, onDelete, isFirst, contentOpacity
                 <View style={[styles.arrowIcon, styles.arrivalIcon]}>
                   <MaterialCommunityIcons name="arrow-bottom-left" size={8} color="rgba(255, 255, 255, 0.5)" />
                 </View>
-                <Text style={styles.timeCode}>{train.toCode}</Text>
+                <Text style={styles.timeCode}>{gtfsParser.getStopCode(lastLeg.toCode)}</Text>
                 <TimeDisplay
-                  time={train.arriveTime}
-                  dayOffset={train.arriveDayOffset}
+                  time={arriveDisplay.time}
+                  dayOffset={arriveDisplay.dayOffset}
                   style={styles.timeValue}
                   superscriptStyle={swipeStyles.timeSuperscript}
                 />
               </View>
             </View>
+
+            {connections.map(connection => (
+              <Text
+                key={connection.stationCode}
+                style={[swipeStyles.connection, connection.risk !== 'ok' && swipeStyles.connectionAtRisk]}
+              >
+                {gtfsParser.getStopCode(connection.stationCode)} · {formatConnectionStatus(connection)}
+              </Text>
+            ))}
           </View>
         </Animated.View>
       </GestureDetector>
@@ -298,12 +354,12 @@ export function TrainList({ flights, onTrainSelect, onDeleteTrain }: TrainListPr
 
   return (
     <>
-      {flights.map((flight, index) => (
+      {groupItineraries(flights).map((legs, index) => (
         <SwipeableTrainCard
-          key={flight.id}
-          train={flight}
-          onPress={() => onTrainSelect(flight)}
-          onDelete={() => onDeleteTrain?.(flight)}
+          key={legs[0].itineraryId ?? legs[0].id}
+          legs={legs}
+          onPress={() => onTrainSelect(legs[0])}
+          onDelete={() => onDeleteTrain?.(legs[0])}
           isFirst={index === 0}
           contentOpacity={contentOpacity}
         />
@@ -340,6 +396,30 @@ const swipeStyles = StyleSheet.create({
     alignItems: 'center',
     flexDirection: 'row',
   },
+  cancelledBadge: {
+    marginLeft: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: 'rgba(239, 68, 68, 0.45)',
+  },
+  cancelledText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  trainNames: {
+    flexShrink: 1,
+  },
+  connection: {
+    marginTop: Spacing.xs,
+    fontSize: 12,
+    color: COLORS.secondary,
+  },
+  connectionAtRisk: {
+    color: AppColors.error,
+    fontWeight: '600',
+  },
   timeSuperscript: {
     fontSize: 8,
     fontWeight: '600',
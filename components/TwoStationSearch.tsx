@@ -1,40 +1,58 @@
 import DateTimePicker from '@react-native-community/datetimepicker';
 import React, { useEffect, useState, useRef } from 'react';
-import { Platform, Text, TextInput, TouchableOpacity, View, StyleSheet } from 'react-native';
+import { InteractionManager, Platform, Text, TextInput, TouchableOpacity, View, StyleSheet } from 'react-native';
 import FontAwesome6 from 'react-native-vector-icons/FontAwesome6';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { AppColors, BorderRadius, FontSizes, Spacing } from '../constants/theme';
+import { useTimeZoneContext } from '../context/TimeZoneContext';
 import { getTrainDisplayName } from '../services/api';
-import type { Stop, EnrichedStopTime } from '../types/train';
-import { gtfsParser } from '../utils/gtfs-parser';
+import TimeDisplay from './ui/TimeDisplay';
+import type { Stop } from '../types/train';
+import { gtfsParser, type TripRun } from '../utils/gtfs-parser';
+import type { Journey, JourneyLeg } from '../utils/journey-planner';
+import { formatDurationBetween, formatInTimeZone } from '../utils/service-time';
 
-interface TripResult {
+/**
+ * One train of a selected journey: the segment to save and the day the rider boards
+ */
+export interface SelectedLeg {
   tripId: string;
-  fromStop: EnrichedStopTime;
-  toStop: EnrichedStopTime;
-  intermediateStops: EnrichedStopTime[];
+  fromCode: string;
+  toCode: string;
+  date: Date;
 }
 
 interface TwoStationSearchProps {
-  onSelectTrip: (tripId: string, fromCode: string, toCode: string, date: Date) => void;
+  onSelectItinerary: (legs: SelectedLeg[]) => void;
   onClose: () => void;
 }
 
-import { formatTime } from '../utils/time-formatting';
-import { formatDateForDisplay } from '../utils/date-helpers';
+import { formatDateForDisplay, formatGTFSDate } from '../utils/date-helpers';
 
 // Use imported utilities
 const formatDateForPill = formatDateForDisplay;
 
-export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProps) {
+function toSelectedLeg({ trip, fromIndex, toIndex }: JourneyLeg<TripRun>): SelectedLeg {
+  const boarding = trip.stopTimes[fromIndex];
+  return {
+    tripId: trip.tripId,
+    fromCode: boarding.stop_id,
+    toCode: trip.stopTimes[toIndex].stop_id,
+    date: gtfsParser.getTravelDate(boarding.departure_time, trip.serviceDate),
+  };
+}
+
+export function TwoStationSearch({ onSelectItinerary, onClose }: TwoStationSearchProps) {
   const [fromStation, setFromStation] = useState<Stop | null>(null);
   const [toStation, setToStation] = useState<Stop | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const { displayTimeZone } = useTimeZoneContext();
   const [tempDate, setTempDate] = useState<Date>(new Date()); // Temp date for picker before confirmation
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [stationResults, setStationResults] = useState<Stop[]>([]);
-  const [tripResults, setTripResults] = useState<TripResult[]>([]);
+  const [tripResults, setTripResults] = useState<Journey<TripRun>[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
   const [activeField, setActiveField] = useState<'from' | 'to'>('from');
   const [isDataLoaded, setIsDataLoaded] = useState(gtfsParser.isLoaded);
   const searchInputRef = useRef<TextInput>(null);
@@ -62,14 +80,20 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
     }
   }, [searchQuery, isDataLoaded]);
 
-  // Find trips when both stations AND date are selected
+  // Find direct trains and connections when both stations AND date are selected
+  // Planning can take a moment with several operators loaded, so it waits for the picker to close
   useEffect(() => {
-    if (fromStation && toStation && selectedDate) {
-      const trips = gtfsParser.findTripsWithStops(fromStation.stop_id, toStation.stop_id);
-      setTripResults(trips);
-    } else {
+    if (!fromStation || !toStation || !selectedDate) {
       setTripResults([]);
+      setIsSearching(false);
+      return;
     }
+    setIsSearching(true);
+    const task = InteractionManager.runAfterInteractions(() => {
+      setTripResults(gtfsParser.findItineraries(fromStation.stop_id, toStation.stop_id, selectedDate));
+      setIsSearching(false);
+    });
+    return () => task.cancel();
   }, [fromStation, toStation, selectedDate]);
 
   // Show date picker when both stations are selected but no date yet
@@ -176,7 +200,7 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
                   </View>
                   <View style={styles.stationInfo}>
                     <Text style={styles.stationName}>{station.stop_name}</Text>
-                    <Text style={styles.stationCode}>{station.stop_id}</Text>
+                    <Text style={styles.stationCode}>{gtfsParser.getStopCode(station.stop_id)}</Text>
                   </View>
                 </TouchableOpacity>
               ))
@@ -194,7 +218,7 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
       <View style={styles.inputRow}>
         {/* From Station Pill */}
         <TouchableOpacity style={styles.stationPill} onPress={handleClearFrom}>
-          <Text style={styles.stationPillText}>{fromStation.stop_id}</Text>
+          <Text style={styles.stationPillText}>{gtfsParser.getStopCode(fromStation.stop_id)}</Text>
           <Ionicons name="close" size={14} color={AppColors.primary} />
         </TouchableOpacity>
 
@@ -204,7 +228,7 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
         {/* To Station Pill/Input */}
         {toStation ? (
           <TouchableOpacity style={styles.stationPill} onPress={handleClearTo}>
-            <Text style={styles.stationPillText}>{toStation.stop_id}</Text>
+            <Text style={styles.stationPillText}>{gtfsParser.getStopCode(toStation.stop_id)}</Text>
             <Ionicons name="close" size={14} color={AppColors.primary} />
           </TouchableOpacity>
         ) : (
@@ -259,7 +283,7 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
                 </View>
                 <View style={styles.stationInfo}>
                   <Text style={styles.stationName}>{station.stop_name}</Text>
-                  <Text style={styles.stationCode}>{station.stop_id}</Text>
+                  <Text style={styles.stationCode}>{gtfsParser.getStopCode(station.stop_id)}</Text>
                 </View>
               </TouchableOpacity>
             ))
@@ -301,19 +325,35 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
       {showingResults && (
         <View style={styles.resultsContainer}>
           <Text style={styles.sectionLabel}>
-            {tripResults.length} TRAIN{tripResults.length !== 1 ? 'S' : ''} FOUND
+            {isSearching ? 'SEARCHING' : `${tripResults.length} JOURNEY${tripResults.length !== 1 ? 'S' : ''} FOUND`}
           </Text>
-          {tripResults.length === 0 ? (
-            <Text style={styles.noResults}>No direct trains between these stations</Text>
+          {isSearching ? (
+            <Text style={styles.noResults}>Finding trains and connections...</Text>
+          ) : tripResults.length === 0 ? (
+            <Text style={styles.noResults}>No trains or connections between these stations</Text>
           ) : (
-            tripResults.map(trip => {
-              const { displayName, routeName } = getTrainDisplayName(trip.tripId);
-              const isAcela = routeName?.toLowerCase().includes('acela');
+            tripResults.map(itinerary => {
+              const { legs } = itinerary;
+              const names = legs.map(leg => getTrainDisplayName(leg.trip.tripId));
+              const isAcela = legs.length === 1 && names[0].routeName?.toLowerCase().includes('acela');
+              // Times are shown in each station's local timezone unless the user prefers their own,
+              // with a day offset counted from the travel date
+              const formatAt = (at: number, stopId: string, tripId: string) =>
+                formatInTimeZone(
+                  at,
+                  displayTimeZone || gtfsParser.getStopTimezone(stopId, tripId),
+                  formatGTFSDate(selectedDate)
+                );
+              const first = legs[0];
+              const last = legs[legs.length - 1];
+              const depart = formatAt(itinerary.departAt, fromStation.stop_id, first.trip.tripId);
+              const arrive = formatAt(itinerary.arriveAt, toStation.stop_id, last.trip.tripId);
+              const stopCount = first.toIndex - first.fromIndex - 1;
               return (
                 <TouchableOpacity
-                  key={trip.tripId}
+                  key={legs.map(leg => leg.trip.id).join('+')}
                   style={styles.tripItem}
-                  onPress={() => onSelectTrip(trip.tripId, fromStation.stop_id, toStation.stop_id, selectedDate)}
+                  onPress={() => onSelectItinerary(legs.map(toSelectedLeg))}
                 >
                   <View style={styles.tripIcon}>
                     {isAcela ? (
@@ -323,17 +363,31 @@ export function TwoStationSearch({ onSelectTrip, onClose }: TwoStationSearchProp
                     )}
                   </View>
                   <View style={styles.tripInfo}>
-                    <Text style={styles.tripName}>{displayName}</Text>
+                    <Text style={styles.tripName}>{names.map(name => name.displayName).join(' → ')}</Text>
                     <View style={styles.tripTimes}>
-                      <Text style={styles.tripTime}>{formatTime(trip.fromStop.departure_time)}</Text>
+                      <TimeDisplay time={depart.time} dayOffset={depart.dayOffset} style={styles.tripTime} />
                       <Ionicons name="arrow-forward" size={12} color={AppColors.secondary} />
-                      <Text style={styles.tripTime}>{formatTime(trip.toStop.arrival_time)}</Text>
-                    </View>
-                    {trip.intermediateStops.length > 0 && (
-                      <Text style={styles.tripStops}>
-                        {trip.intermediateStops.length} stop{trip.intermediateStops.length !== 1 ? 's' : ''}
+                      <TimeDisplay time={arrive.time} dayOffset={arrive.dayOffset} style={styles.tripTime} />
+                      <Text style={styles.tripDuration}>
+                        {formatDurationBetween(itinerary.departAt, itinerary.arriveAt)}
                       </Text>
-                    )}
+                    </View>
+                    {legs.length === 1
+                      ? stopCount > 0 && (
+                          <Text style={styles.tripStops}>
+                            {stopCount} stop{stopCount !== 1 ? 's' : ''}
+                          </Text>
+                        )
+                      : legs.slice(1).map((leg, i) => {
+                          const previous = legs[i];
+                          const changeAt = previous.trip.stopTimes[previous.toIndex].stop_id;
+                          return (
+                            <Text key={leg.trip.id} style={styles.tripStops}>
+                              Change at {gtfsParser.getStopName(changeAt)} ({gtfsParser.getStopCode(changeAt)}) ·{' '}
+                              {formatDurationBetween(previous.arriveAt, leg.departAt)} layover
+                            </Text>
+                          );
+                        })}
                   </View>
                   <Ionicons name="add" size={24} color={AppColors.primary} />
                 </TouchableOpacity>
@@ -556,6 +610,11 @@ const styles = StyleSheet.create({
     color: AppColors.secondary,
     fontWeight: '500',
   },
+  tripDuration: {
+    fontSize: FontSizes.daysLabel,
+    color: AppColors.secondary,
+    marginLeft: 'auto',
+  },
   tripStops: {
     fontSize: FontSizes.daysLabel,
     color: AppColors.secondary,
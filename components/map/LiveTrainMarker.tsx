@@ -1,6 +1,7 @@
 /**
  * Live train marker component for map visualization
  * Displays train position with label (matching station marker animation style)
+ * Estimated and stale positions are faded and captioned
  */
 
 import React, { useEffect, useRef, useState } from 'react';
@@ -10,9 +11,13 @@ import FontAwesome6 from 'react-native-vector-icons/FontAwesome6';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { AppColors } from '../../constants/theme';
 
+// Estimated positions are drawn faded so they read as less certain than reported ones
+const ESTIMATED_OPACITY = 0.6;
+
 interface LiveTrainMarkerProps {
   trainNumber: string;
   routeName: string | null;
+  color?: string; // Route or operator color, replacing the default icon color
   coordinate: {
     latitude: number;
     longitude: number;
@@ -20,16 +25,21 @@ interface LiveTrainMarkerProps {
   isSaved?: boolean;
   isCluster?: boolean;
   clusterCount?: number;
+  estimated?: boolean; // Position estimated from the schedule rather than reported
+  lastReported?: string; // e.g. "Last reported 12 min ago", for stale or estimated positions
   onPress?: () => void;
 }
 
 export function LiveTrainMarker({
   trainNumber,
   routeName,
+  color,
   coordinate,
   isSaved = false,
   isCluster = false,
   clusterCount = 0,
+  estimated = false,
+  lastReported,
   onPress,
 }: LiveTrainMarkerProps) {
   // Use Ionicons train for Acela (high-speed), FontAwesome6 train for others
@@ -42,7 +52,8 @@ export function LiveTrainMarker({
   const [currentIsCluster, setCurrentIsCluster] = useState(isCluster);
 
   // Determine icon color based on state
-  const iconColor = isSaved ? AppColors.accentBlue : AppColors.primary;
+  const iconColor = isSaved ? AppColors.accentBlue : (color ?? AppColors.primary);
+  const caption = currentIsCluster ? null : (lastReported ?? (estimated ? 'Estimated position' : null));
 
   // Fade in on mount
   useEffect(() => {
@@ -105,7 +116,7 @@ export function LiveTrainMarker({
       <Animated.View
         style={{
           alignItems: 'center',
-          opacity: fadeAnim,
+          opacity: estimated ? Animated.multiply(fadeAnim, ESTIMATED_OPACITY) : fadeAnim,
           transform: [{ scale: scaleAnim }],
         }}
       >
@@ -147,6 +158,22 @@ export function LiveTrainMarker({
         >
           {currentLabel}
         </Text>
+        {caption && (
+          <Text
+            style={{
+              color: AppColors.primary,
+              fontSize: 8,
+              fontStyle: estimated ? 'italic' : 'normal',
+              textAlign: 'center',
+              textShadowColor: 'rgba(0, 0, 0, 0.75)',
+              textShadowOffset: { width: 0, height: 1 },
+              textShadowRadius: 3,
+            }}
+            numberOfLines={1}
+          >
+            {caption}
+          </Text>
+        )}
       </Animated.View>
     </Marker>
   );
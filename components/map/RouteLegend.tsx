@@ -0,0 +1,154 @@
+import { BlurView } from 'expo-blur';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { AppColors, BlurIntensity } from '../../constants/theme';
+
+const BUTTON_SIZE = 48;
+const LEGEND_WIDTH = 240;
+const LEGEND_MAX_HEIGHT = 320;
+
+export interface LegendRoute {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface RouteLegendProps {
+  top: number;
+  routes: LegendRoute[]; // Routes drawn in the viewport
+  hiddenRouteIds: ReadonlySet<string>;
+  onToggleRoute: (routeId: string) => void;
+}
+
+/**
+ * Button that opens a list of the routes in the viewport, each of which can be hidden on the map
+ */
+export default function RouteLegend({ top, routes, hiddenRouteIds, onToggleRoute }: RouteLegendProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (routes.length === 0) return null;
+
+  return (
+    <View style={[styles.container, { top }, isExpanded && styles.expandedContainer]}>
+      <BlurView intensity={BlurIntensity} style={StyleSheet.absoluteFill} />
+      {isExpanded ? (
+        <>
+          <View style={styles.header}>
+            <Text style={styles.title}>Routes</Text>
+            <TouchableOpacity
+              onPress={() => setIsExpanded(false)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel="Close route legend"
+            >
+              <Ionicons name="close" size={20} color={AppColors.primary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.list}>
+            {routes.map(route => {
+              const hidden = hiddenRouteIds.has(route.id);
+              return (
+                <TouchableOpacity
+                  key={route.id}
+                  style={styles.row}
+                  onPress={() => onToggleRoute(route.id)}
+                  activeOpacity={0.7}
+                  accessibilityRole="switch"
+                  accessibilityState={{ checked: !hidden }}
+                  accessibilityLabel={`Show ${route.name}`}
+                >
+                  <View style={[styles.swatch, { backgroundColor: route.color }, hidden && styles.hidden]} />
+                  <Text style={[styles.routeName, hidden && styles.hidden]} numberOfLines={1}>
+                    {route.name}
+                  </Text>
+                  <Ionicons
+                    name={hidden ? 'eye-off-outline' : 'eye-outline'}
+                    size={18}
+                    color={hidden ? AppColors.tertiary : AppColors.primary}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => setIsExpanded(true)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Show route legend"
+        >
+          <Ionicons name="color-palette-outline" size={24} color={AppColors.primary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    width: BUTTON_SIZE,
+    height: BUTTON_SIZE,
+    borderRadius: 24,
+    shadowColor: AppColors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 5,
+    borderWidth: 1,
+    borderColor: AppColors.border.primary,
+    overflow: 'hidden',
+  },
+  expandedContainer: {
+    width: LEGEND_WIDTH,
+    height: undefined,
+    maxHeight: LEGEND_MAX_HEIGHT,
+    borderRadius: 16,
+    paddingVertical: 8,
+  },
+  button: {
+    width: BUTTON_SIZE,
+    height: BUTTON_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingBottom: 4,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  swatch: {
+    width: 16,
+    height: 4,
+    borderRadius: 2,
+  },
+  routeName: {
+    flex: 1,
+    fontSize: 13,
+    color: AppColors.primary,
+  },
+  hidden: {
+    opacity: 0.4,
+  },
+});
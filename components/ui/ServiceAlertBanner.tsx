@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { AppColors, BorderRadius, Spacing } from '../../constants/theme';
+import type { RealtimeAlert } from '../../services/realtime';
+
+interface ServiceAlertBannerProps {
+  alerts: RealtimeAlert[];
+  containerStyle?: ViewStyle;
+}
+
+const SEVERITY_COLORS: Record<NonNullable<RealtimeAlert['severity']>, string> = {
+  INFO: 'rgba(59, 130, 246, 0.2)',
+  WARNING: 'rgba(245, 158, 11, 0.2)',
+  SEVERE: 'rgba(239, 68, 68, 0.2)',
+};
+
+/**
+ * Displays GTFS-RT service alerts as a stacked banner
+ * Each alert shows its header; tapping expands the full description
+ */
+export default function ServiceAlertBanner({ alerts, containerStyle }: ServiceAlertBannerProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      {alerts.map(alert => {
+        const isExpanded = expandedId === alert.id;
+        const hasDescription = alert.description.length > 0;
+        return (
+          <TouchableOpacity
+            key={alert.id}
+            style={[styles.alert, { backgroundColor: SEVERITY_COLORS[alert.severity ?? 'WARNING'] }]}
+            onPress={() => hasDescription && setExpandedId(isExpanded ? null : alert.id)}
+            activeOpacity={hasDescription ? 0.7 : 1}
+            accessibilityRole="button"
+            accessibilityLabel={`Service alert: ${alert.header}`}
+          >
+            <View style={styles.headerRow}>
+              <Ionicons
+                name={alert.severity === 'INFO' ? 'information-circle' : 'warning'}
+                size={16}
+                color={AppColors.primary}
+              />
+              <Text style={styles.header} numberOfLines={isExpanded ? undefined : 2}>
+                {alert.header || 'Service alert'}
+              </Text>
+              {hasDescription && (
+                <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={14} color={AppColors.secondary} />
+              )}
+            </View>
+            {isExpanded && <Text style={styles.description}>{alert.description}</Text>}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  alert: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  header: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  description: {
+    fontSize: 13,
+    color: AppColors.secondary,
+    marginTop: Spacing.xs,
+    marginLeft: 16 + Spacing.sm,
+  },
+});
@@ -1,13 +1,13 @@
 import React from 'react';
-import { StyleSheet, Text, TextStyle, View, ViewStyle } from 'react-native';
+import { StyleProp, StyleSheet, Text, TextStyle, View, ViewStyle } from 'react-native';
 import { AppColors, Spacing } from '../../constants/theme';
 
 interface TimeDisplayProps {
   time: string;
   dayOffset?: number;
-  style?: TextStyle;
-  superscriptStyle?: TextStyle;
-  containerStyle?: ViewStyle;
+  style?: StyleProp<TextStyle>;
+  superscriptStyle?: StyleProp<TextStyle>;
+  containerStyle?: StyleProp<ViewStyle>;
   // Delay support
   delayMinutes?: number;
   delayedTime?: string;
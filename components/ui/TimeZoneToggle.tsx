@@ -0,0 +1,53 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, ViewStyle } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { AppColors, BorderRadius, Spacing } from '../../constants/theme';
+import { useTimeZoneContext } from '../../context/TimeZoneContext';
+import { getTimeZoneAbbreviation } from '../../utils/service-time';
+
+interface TimeZoneToggleProps {
+  containerStyle?: ViewStyle;
+}
+
+/**
+ * Switches schedule times between each station's local time and the device timezone
+ */
+export default function TimeZoneToggle({ containerStyle }: TimeZoneToggleProps) {
+  const { showInDeviceTimeZone, setShowInDeviceTimeZone, deviceTimeZone } = useTimeZoneContext();
+  const deviceLabel = getTimeZoneAbbreviation(Date.now(), deviceTimeZone);
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, containerStyle]}
+      onPress={() => setShowInDeviceTimeZone(!showInDeviceTimeZone)}
+      activeOpacity={0.7}
+      accessibilityRole="switch"
+      accessibilityState={{ checked: showInDeviceTimeZone }}
+      accessibilityLabel="Show times in my timezone"
+    >
+      <Ionicons name="globe-outline" size={14} color={AppColors.secondary} />
+      <Text style={styles.label}>{showInDeviceTimeZone ? `Your time (${deviceLabel})` : 'Station local time'}</Text>
+      <Text style={styles.action}>{showInDeviceTimeZone ? 'Use station time' : 'Show in my timezone'}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  label: {
+    fontSize: 12,
+    color: AppColors.secondary,
+  },
+  action: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: AppColors.primary,
+    marginLeft: 'auto',
+  },
+});
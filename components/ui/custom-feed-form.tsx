@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View, type TextInputProps } from 'react-native';
+import { AppColors, BorderRadius, Colors, Spacing } from '../../constants/theme';
+import type { FeedSource } from '../../types/train';
+import { createCustomFeed, type CustomFeedInput } from '../../utils/custom-feeds';
+
+interface CustomFeedFormProps {
+  existing: FeedSource[]; // Custom sources already added
+  onAdd: (feed: FeedSource) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_INPUT: CustomFeedInput = { name: '', staticLocation: '', realtimeUrls: '', apiKeyHeader: '', apiKey: '' };
+
+function Field({ label, ...inputProps }: { label: string } & TextInputProps) {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, inputProps.multiline && styles.multilineInput]}
+        placeholderTextColor={AppColors.tertiary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        {...inputProps}
+      />
+    </View>
+  );
+}
+
+/**
+ * Form for adding a GTFS schedule (URL or local zip) with optional GTFS-RT endpoints and API key
+ */
+export default function CustomFeedForm({ existing, onAdd, onCancel }: CustomFeedFormProps) {
+  const [input, setInput] = useState<CustomFeedInput>(EMPTY_INPUT);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof CustomFeedInput) => (value: string) => {
+    setInput(current => ({ ...current, [field]: value }));
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    const result = createCustomFeed(input, existing);
+    if (result.error !== undefined) {
+      setError(result.error);
+      return;
+    }
+    onAdd(result.feed);
+    setInput(EMPTY_INPUT);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Field
+        label="Name"
+        value={input.name}
+        onChangeText={update('name')}
+        placeholder="Regional Rail"
+        autoCapitalize="words"
+      />
+      <Field
+        label="Schedule"
+        value={input.staticLocation}
+        onChangeText={update('staticLocation')}
+        placeholder="https://example.com/gtfs.zip"
+        keyboardType="url"
+      />
+      <Text style={styles.hint}>A GTFS zip URL, or the name of a zip copied into the app&apos;s Documents folder</Text>
+      <Field
+        label="Live data (optional)"
+        value={input.realtimeUrls}
+        onChangeText={update('realtimeUrls')}
+        placeholder="GTFS-RT URLs, one per line"
+        keyboardType="url"
+        multiline
+      />
+      <Field
+        label="API key header (optional)"
+        value={input.apiKeyHeader}
+        onChangeText={update('apiKeyHeader')}
+        placeholder="x-api-key"
+      />
+      <Field label="API key (optional)" value={input.apiKey} onChangeText={update('apiKey')} secureTextEntry />
+      {error && <Text style={styles.error}>{error}</Text>}
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onCancel} style={styles.button} accessibilityRole="button">
+          <Text style={styles.buttonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleAdd}
+          style={[styles.button, styles.primaryButton]}
+          accessibilityRole="button"
+          accessibilityLabel="Add source"
+        >
+          <Text style={[styles.buttonText, styles.primaryButtonText]}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: AppColors.background.primary,
+  },
+  field: {
+    gap: Spacing.xs,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  input: {
+    fontSize: 14,
+    color: AppColors.primary,
+    backgroundColor: AppColors.background.secondary,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: AppColors.border.secondary,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  multilineInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: AppColors.secondary,
+  },
+  error: {
+    fontSize: 13,
+    color: AppColors.error,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  button: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: AppColors.background.secondary,
+  },
+  primaryButton: {
+    backgroundColor: AppColors.primary,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  primaryButtonText: {
+    color: Colors.dark.background,
+  },
+});
@@ -14,19 +14,24 @@ import {
 } from 'react-native';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import Animated, { interpolate, runOnJS, useAnimatedStyle, useSharedValue, withSpring } from 'react-native-reanimated';
-
-const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { AppColors, BorderRadius, Spacing } from '../../constants/theme';
 import { TrainAPIService } from '../../services/api';
-import type { Stop, Train } from '../../types/train';
+import { useTimeZoneContext } from '../../context/TimeZoneContext';
+import { RealtimeService, type RealtimeAlert } from '../../services/realtime';
+import type { Departure, Stop, Train } from '../../types/train';
+import ServiceAlertBanner from './ServiceAlertBanner';
 import { SlideUpModalContext } from './slide-up-modal';
 import TimeDisplay from './TimeDisplay';
-import { parseTimeToMinutes } from '../../utils/time-formatting';
-import { getDaysAwayLabel, isSameDay, getStartOfDay, addDays } from '../../utils/date-helpers';
+import TimeZoneToggle from './TimeZoneToggle';
+import { getDisplayTime } from '../../utils/service-time';
+import { getDaysAwayLabel, isSameDay, getStartOfDay, addDays, parseGTFSDate } from '../../utils/date-helpers';
+import { gtfsParser } from '../../utils/gtfs-parser';
 import { logger } from '../../utils/logger';
 
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
 interface DepartureBoardModalProps {
   station: Stop;
   onClose: () => void;
@@ -51,74 +56,49 @@ function formatDateDisplay(date: Date): string {
   }
 }
 
-// parseTimeToMinutes is now imported from utils/time-formatting
-
-/**
- * Check if a train is still upcoming based on the relevant time for the station
- * For terminating trains, check arrival time; for others, check departure/pass time
- */
-function isTrainUpcoming(
-  train: Train,
-  selectedDate: Date,
-  stationId: string,
-  filterMode: 'all' | 'beginning' | 'terminating'
-): boolean {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const targetDate = new Date(selectedDate);
-  targetDate.setHours(0, 0, 0, 0);
-
-  // If selected date is not today, show all trains
-  if (targetDate.getTime() !== today.getTime()) {
-    return true;
-  }
-
-  // For today, determine which time to check based on filter mode and station
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-  let relevantTime: string;
-  if (filterMode === 'terminating' || train.toCode === stationId) {
-    // For terminating trains, use arrival time at this station
-    relevantTime = train.arriveTime;
-  } else if (train.fromCode === stationId) {
-    // For beginning trains, use departure time
-    relevantTime = train.departTime;
-  } else {
-    // For passing through trains, check intermediate stops or fall back to departure
-    const stop = train.intermediateStops?.find(s => s.code === stationId);
-    relevantTime = stop?.time || train.departTime;
-  }
+// Trains stay on today's board until 5 minutes after their time at the station
+const DEPARTED_GRACE_MS = 5 * 60 * 1000;
 
-  const trainMinutes = parseTimeToMinutes(relevantTime);
-  return trainMinutes > currentMinutes - 5; // 5 minute grace period
+interface StationTime {
+  time: string; // Station-local display time
+  dayOffset: number;
+  at: number; // Absolute instant (ms since epoch)
 }
 
 /**
- * Get the departure time for a specific station from a train's stops
- * Returns the time at the station, or falls back to origin departure time
+ * Get a board row's time at its station
+ * Trains terminating here show their arrival, all others their departure
  */
-function getStationDepartureTime(train: Train, stationId: string): { time: string; dayOffset?: number } {
-  // If station is the origin, use departTime
-  if (train.fromCode === stationId) {
-    return { time: train.departTime, dayOffset: train.departDayOffset };
-  }
-
-  // If station is the destination, use arriveTime
-  if (train.toCode === stationId) {
-    return { time: train.arriveTime, dayOffset: train.arriveDayOffset };
-  }
+function getStationTime(departure: Departure): StationTime {
+  return departure.toCode === departure.stopId
+    ? { time: departure.arriveTime, dayOffset: departure.arriveDayOffset, at: departure.arriveAt }
+    : { time: departure.departTime, dayOffset: departure.departDayOffset, at: departure.departAt };
+}
 
-  // Check intermediate stops for the station
-  if (train.intermediateStops) {
-    const stop = train.intermediateStops.find(s => s.code === stationId);
-    if (stop) {
-      return { time: stop.time, dayOffset: undefined };
-    }
-  }
+type FilterMode = 'all' | 'beginning' | 'terminating';
 
-  // Fallback to origin departure time
-  return { time: train.departTime, dayOffset: train.departDayOffset };
+/**
+ * Narrow a train to the rider's segment through this station: from it, or to it in terminating mode
+ * Times at the station come from the board row
+ */
+function toStationSegment(train: Train, departure: Departure, station: Stop, filterMode: FilterMode): Train {
+  return filterMode === 'terminating'
+    ? {
+        ...train,
+        toCode: station.stop_id,
+        to: station.stop_name,
+        arriveTime: departure.arriveTime,
+        arriveDayOffset: departure.arriveDayOffset,
+        arriveAt: departure.arriveAt,
+      }
+    : {
+        ...train,
+        fromCode: station.stop_id,
+        from: station.stop_name,
+        departTime: departure.departTime,
+        departDayOffset: departure.departDayOffset,
+        departAt: departure.departAt,
+      };
 }
 
 // Swipe threshold - card bounces back at 50% of reveal width
@@ -126,17 +106,18 @@ const SWIPE_THRESHOLD = -80;
 const BOUNCE_BACK_THRESHOLD = -40; // 50% of SWIPE_THRESHOLD
 
 interface SwipeableDepartureItemProps {
-  train: Train;
-  stationTime: { time: string; dayOffset?: number };
-  stationId: string;
+  departure: Departure;
+  stationTime: StationTime;
   onPress: () => void;
   onSave: () => void;
 }
 
-function SwipeableDepartureItem({ train, stationTime, stationId, onPress, onSave }: SwipeableDepartureItemProps) {
+function SwipeableDepartureItem({ departure, stationTime, onPress, onSave }: SwipeableDepartureItemProps) {
   const translateX = useSharedValue(0);
   const hasTriggeredHaptic = useSharedValue(false);
   const isSaving = useSharedValue(false);
+  const { displayTimeZone } = useTimeZoneContext();
+  const displayTime = getDisplayTime(stationTime, stationTime.at, departure.serviceDate, displayTimeZone);
 
   const triggerHaptic = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -244,41 +225,45 @@ function SwipeableDepartureItem({ train, stationTime, stationId, onPress, onSave
         <Animated.View style={[styles.departureItem, { borderBottomWidth: 0 }, cardAnimatedStyle]}>
           <View style={styles.departureTime}>
             <TimeDisplay
-              time={stationTime.time}
-              dayOffset={stationTime.dayOffset}
+              time={displayTime.time}
+              dayOffset={displayTime.dayOffset}
               style={styles.timeText}
               superscriptStyle={styles.timeSuperscript}
             />
-            {train.realtime?.delay != null && train.realtime.delay > 0 ? (
-              <Text style={styles.delayText}>+{train.realtime.delay}m</Text>
+            {!departure.realtime?.cancelled && departure.realtime?.delay != null && departure.realtime.delay > 0 ? (
+              <Text style={styles.delayText}>+{departure.realtime.delay}m</Text>
             ) : null}
           </View>
           <View style={styles.departureInfo}>
             <View style={styles.trainHeader}>
               <Text style={styles.trainNumber}>
-                {train.routeName || 'Amtrak'}
-                {train.trainNumber ? ` ${train.trainNumber}` : ''}
+                {departure.routeName || gtfsParser.getOperatorName(departure.tripId)}
+                {departure.trainNumber ? ` ${departure.trainNumber}` : ''}
               </Text>
-              {train.realtime?.status ? (
+              {departure.realtime?.cancelled ? (
+                <View style={[styles.statusBadge, styles.statusCancelled]}>
+                  <Text style={styles.statusText}>Cancelled</Text>
+                </View>
+              ) : departure.realtime ? (
                 <View
                   style={[
                     styles.statusBadge,
-                    train.realtime.delay != null && train.realtime.delay > 0
+                    departure.realtime.delay != null && departure.realtime.delay > 0
                       ? styles.statusDelayed
                       : styles.statusOnTime,
                   ]}
                 >
                   <Text style={styles.statusText}>
-                    {train.realtime.delay != null && train.realtime.delay > 0 ? 'Delayed' : 'On Time'}
+                    {departure.realtime.delay != null && departure.realtime.delay > 0 ? 'Delayed' : 'On Time'}
                   </Text>
                 </View>
               ) : null}
             </View>
             <View style={styles.destinationRow}>
               <Text style={styles.destinationText}>
-                {stationId === train.fromCode || stationId === train.toCode
-                  ? `${train.fromCode} → ${train.toCode}`
-                  : `${train.fromCode} → ${stationId} → ${train.toCode}`}
+                {departure.stopId === departure.fromCode || departure.stopId === departure.toCode
+                  ? `${gtfsParser.getStopCode(departure.fromCode)} → ${gtfsParser.getStopCode(departure.toCode)}`
+                  : `${gtfsParser.getStopCode(departure.fromCode)} → ${gtfsParser.getStopCode(departure.stopId)} → ${gtfsParser.getStopCode(departure.toCode)}`}
               </Text>
             </View>
           </View>
@@ -297,13 +282,13 @@ export default function DepartureBoardModal({
   onTrainSelect,
   onSaveTrain,
 }: DepartureBoardModalProps) {
-  const [departures, setDepartures] = useState<Train[]>([]);
+  const [departures, setDepartures] = useState<Departure[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [searchQuery, setSearchQuery] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
-  const [filterMode, setFilterMode] = useState<'all' | 'beginning' | 'terminating'>('all');
+  const [filterMode, setFilterMode] = useState<FilterMode>('all');
 
   const { isCollapsed, isFullscreen, scrollOffset, contentOpacity } = React.useContext(SlideUpModalContext);
 
@@ -317,27 +302,14 @@ export default function DepartureBoardModal({
   // Check if modal is at half height (not collapsed and not fullscreen)
   const isHalfHeight = !isCollapsed && !isFullscreen;
 
-  // Fetch departures for the station
+  // Fetch departures for the station, with times resolved for the selected date
   useEffect(() => {
     const fetchDepartures = async () => {
       setLoading(true);
       try {
-        const trains = await TrainAPIService.getTrainsForStation(station.stop_id);
-        // Sort by departure time
-        trains.sort((a, b) => {
-          const aMinutes = parseTimeToMinutes(a.departTime);
-          const bMinutes = parseTimeToMinutes(b.departTime);
-          return aMinutes - bMinutes;
-        });
-        // Deduplicate by train number + departure time (same train on different days has different tripIds)
-        const seen = new Set<string>();
-        const deduped = trains.filter(train => {
-          const key = `${train.trainNumber}-${train.departTime}`;
-          if (seen.has(key)) return false;
-          seen.add(key);
-          return true;
-        });
-        setDepartures(deduped);
+        // Today's board hides trains that have already left; other days show the full schedule
+        const window = isSameDay(selectedDate, new Date()) ? { start: Date.now() - DEPARTED_GRACE_MS } : {};
+        setDepartures(await TrainAPIService.getDeparturesForStop(station.stop_id, selectedDate, window));
       } catch (error) {
         logger.error('Error fetching departures:', error);
         setDepartures([]);
@@ -347,22 +319,31 @@ export default function DepartureBoardModal({
     };
 
     fetchDepartures();
+  }, [station.stop_id, selectedDate]);
+
+  // Fetch service alerts for the station
+  const [stationAlerts, setStationAlerts] = useState<RealtimeAlert[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    RealtimeService.getAlertsForStop(station.stop_id)
+      .then(alerts => {
+        if (!cancelled) setStationAlerts(alerts);
+      })
+      .catch(error => logger.warn('Could not fetch station alerts:', error));
+    return () => {
+      cancelled = true;
+    };
   }, [station.stop_id]);
 
-  // Filter departures based on search, date, and filter mode
+  // Filter departures based on search and filter mode (date filtering happens when fetching)
   const filteredDepartures = useMemo(() => {
-    const filtered = departures.filter(train => {
-      // Filter by upcoming time for today (using relevant time based on filter mode)
-      if (!isTrainUpcoming(train, selectedDate, station.stop_id, filterMode)) {
-        return false;
-      }
-
+    const filtered = departures.filter(departure => {
       // Filter by beginning/terminating mode
       if (filterMode !== 'all') {
         // For beginning: only show trains where this station is the origin
-        const isBeginning = train.fromCode === station.stop_id;
+        const isBeginning = departure.fromCode === station.stop_id;
         // For terminating: only show trains where this station is the final destination
-        const isTerminating = train.toCode === station.stop_id;
+        const isTerminating = departure.toCode === station.stop_id;
         if (filterMode === 'beginning' && !isBeginning) return false;
         if (filterMode === 'terminating' && !isTerminating) return false;
       }
@@ -370,12 +351,12 @@ export default function DepartureBoardModal({
       // Filter by search query (destination, train number, route name)
       if (searchQuery.trim()) {
         const query = searchQuery.toLowerCase();
-        const matchesDestination = train.to.toLowerCase().includes(query);
-        const matchesToCode = train.toCode.toLowerCase().includes(query);
-        const matchesOrigin = train.from.toLowerCase().includes(query);
-        const matchesFromCode = train.fromCode.toLowerCase().includes(query);
-        const matchesTrainNumber = train.trainNumber.toLowerCase().includes(query);
-        const matchesRouteName = train.routeName?.toLowerCase().includes(query);
+        const matchesDestination = departure.to.toLowerCase().includes(query);
+        const matchesToCode = gtfsParser.getStopCode(departure.toCode).toLowerCase().includes(query);
+        const matchesOrigin = departure.from.toLowerCase().includes(query);
+        const matchesFromCode = gtfsParser.getStopCode(departure.fromCode).toLowerCase().includes(query);
+        const matchesTrainNumber = departure.trainNumber.toLowerCase().includes(query);
+        const matchesRouteName = departure.routeName.toLowerCase().includes(query);
         return (
           matchesDestination ||
           matchesToCode ||
@@ -389,28 +370,16 @@ export default function DepartureBoardModal({
       return true;
     });
 
-    // Sort based on filter mode
-    return filtered.sort((a, b) => {
-      if (filterMode === 'terminating') {
-        // Sort by arrival time at this station
-        const aMinutes = parseTimeToMinutes(a.arriveTime);
-        const bMinutes = parseTimeToMinutes(b.arriveTime);
-        return aMinutes - bMinutes;
-      } else if (filterMode === 'beginning') {
-        // Sort by departure time (this station is the origin)
-        const aMinutes = parseTimeToMinutes(a.departTime);
-        const bMinutes = parseTimeToMinutes(b.departTime);
-        return aMinutes - bMinutes;
-      } else {
-        // 'all' mode: sort by the time at this station
-        const aTime = getStationDepartureTime(a, station.stop_id);
-        const bTime = getStationDepartureTime(b, station.stop_id);
-        const aMinutes = parseTimeToMinutes(aTime.time);
-        const bMinutes = parseTimeToMinutes(bTime.time);
-        return aMinutes - bMinutes;
-      }
+    // Deduplicate by train number + departure time (same train on different days has different tripIds)
+    // Rows arrive sorted by their time at this station
+    const seen = new Set<string>();
+    return filtered.filter(departure => {
+      const key = `${departure.trainNumber}-${departure.departTime}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
     });
-  }, [departures, selectedDate, searchQuery, filterMode, station.stop_id]);
+  }, [departures, searchQuery, filterMode, station.stop_id]);
 
   // Date navigation
   const navigateDate = useCallback((direction: 'prev' | 'next') => {
@@ -452,41 +421,29 @@ export default function DepartureBoardModal({
     setShowDatePicker(false);
   }, []);
 
+  // Full train details are only built once a row is opened or saved
   const handleTrainPress = useCallback(
-    (train: Train) => {
+    async (departure: Departure) => {
+      const train = await TrainAPIService.getTrainDetails(departure.tripId, parseGTFSDate(departure.serviceDate));
+      if (!train) return;
+
       // For terminating: keep original origin, set destination to this station
       // For beginning/all: set origin to this station, keep original destination
-      // Also update the departure/arrival times to match the station
-      const stationTime = getStationDepartureTime(train, station.stop_id);
-      const updatedTrain: Train =
-        filterMode === 'terminating'
-          ? {
-              ...train,
-              // Explicitly preserve the original origin
-              fromCode: train.fromCode,
-              from: train.from,
-              // Set destination to this station
-              toCode: station.stop_id,
-              to: station.stop_name,
-              arriveTime: stationTime.time,
-              arriveDayOffset: stationTime.dayOffset,
-            }
-          : {
-              ...train,
-              // Set origin to this station
-              fromCode: station.stop_id,
-              from: station.stop_name,
-              departTime: stationTime.time,
-              departDayOffset: stationTime.dayOffset,
-              // Explicitly preserve the original destination
-              toCode: train.toCode,
-              to: train.to,
-            };
-      onTrainSelect(updatedTrain);
+      onTrainSelect(toStationSegment(train, departure, station, filterMode));
     },
     [station, onTrainSelect, filterMode]
   );
 
+  // Save the same segment a press opens, so its travel date is the day the rider is at this station
+  const handleSaveTrain = useCallback(
+    async (departure: Departure) => {
+      if (!onSaveTrain) return;
+      const train = await TrainAPIService.getTrainDetails(departure.tripId, parseGTFSDate(departure.serviceDate));
+      if (train) await onSaveTrain(toStationSegment(train, departure, station, filterMode));
+    },
+    [onSaveTrain, station, filterMode]
+  );
+
   return (
     <View style={styles.modalContent}>
       {/* Fixed Header Area */}
@@ -494,7 +451,7 @@ export default function DepartureBoardModal({
         {/* Header - Title and close button */}
         <View style={styles.header}>
           <View style={styles.headerTextContainer}>
-            <Text style={styles.headerSubtitle}>{station.stop_id}</Text>
+            <Text style={styles.headerSubtitle}>{gtfsParser.getStopCode(station.stop_id)}</Text>
             <Text style={styles.headerTitle} numberOfLines={1}>
               {station.stop_name}
             </Text>
@@ -585,6 +542,8 @@ export default function DepartureBoardModal({
               </TouchableOpacity>
             </View>
           </View>
+
+          <TimeZoneToggle containerStyle={styles.timeZoneToggle} />
         </Animated.View>
       </View>
 
@@ -622,6 +581,11 @@ export default function DepartureBoardModal({
           bounces={true}
           nestedScrollEnabled={true}
         >
+          {/* Service alerts */}
+          {stationAlerts.length > 0 && (
+            <ServiceAlertBanner alerts={stationAlerts} containerStyle={styles.alertBanner} />
+          )}
+
           {/* Departures List */}
           {loading ? (
             <View style={styles.loadingContainer}>
@@ -647,24 +611,15 @@ export default function DepartureBoardModal({
                 {filterMode === 'terminating' ? 'Terminating' : filterMode === 'beginning' ? 'Beginning' : 'All Trains'}{' '}
                 ({filteredDepartures.length})
               </Text>
-              {filteredDepartures.map((train, index) => {
-                if (!train || !train.departTime) return null;
-                // Get the correct time for this station (not the origin's departure time)
-                const stationTime =
-                  filterMode === 'terminating'
-                    ? { time: train.arriveTime, dayOffset: train.arriveDayOffset }
-                    : getStationDepartureTime(train, station.stop_id);
-                return (
-                  <SwipeableDepartureItem
-                    key={`${train.tripId || train.id}-${index}`}
-                    train={train}
-                    stationTime={stationTime}
-                    stationId={station.stop_id}
-                    onPress={() => handleTrainPress(train)}
-                    onSave={() => onSaveTrain?.(train)}
-                  />
-                );
-              })}
+              {filteredDepartures.map(departure => (
+                <SwipeableDepartureItem
+                  key={departure.tripId}
+                  departure={departure}
+                  stationTime={getStationTime(departure)}
+                  onPress={() => handleTrainPress(departure)}
+                  onSave={() => handleSaveTrain(departure)}
+                />
+              ))}
             </View>
           )}
         </ScrollView>
@@ -697,6 +652,10 @@ const styles = StyleSheet.create({
   scrollContent: {
     flex: 1,
   },
+  alertBanner: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+  },
   headerTextContainer: {
     flex: 1,
     marginRight: 48 + Spacing.md,
@@ -737,6 +696,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.xl,
     paddingVertical: Spacing.md,
   },
+  timeZoneToggle: {
+    marginHorizontal: Spacing.xl,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
   dateSelector: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -923,6 +887,9 @@ const styles = StyleSheet.create({
   statusDelayed: {
     backgroundColor: 'rgba(239, 68, 68, 0.2)',
   },
+  statusCancelled: {
+    backgroundColor: 'rgba(239, 68, 68, 0.45)',
+  },
   statusText: {
     fontSize: 10,
     fontWeight: '600',
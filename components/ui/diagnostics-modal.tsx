@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { FEEDS } from '../../constants/feeds';
+import { AppColors, BorderRadius, Colors, Spacing } from '../../constants/theme';
+import { getCachedFeedInfos, getGTFSValidationReport } from '../../services/gtfs-sync';
+import { RealtimeService } from '../../services/realtime';
+import { TrainStorageService } from '../../services/storage';
+import type { FeedInfo, FeedSource } from '../../types/train';
+import { formatDateForDisplay, parseGTFSDate } from '../../utils/date-helpers';
+import type { FileValidationSummary, ValidationReport } from '../../utils/gtfs-validation';
+import CustomFeedForm from './custom-feed-form';
+
+interface DiagnosticsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onFeedsChanged?: () => void; // Called on close if operators or custom sources were changed
+}
+
+interface FeedDiagnostics {
+  source: FeedSource;
+  feedInfo: FeedInfo | null;
+  report: ValidationReport | null;
+}
+
+function formatGTFSDate(date: string | undefined): string {
+  return date ? formatDateForDisplay(parseGTFSDate(date)) : '—';
+}
+
+function formatCheckedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${formatDateForDisplay(date)}, ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+function FileSummaryRow({ summary }: { summary: FileValidationSummary }) {
+  return (
+    <View style={styles.fileRow}>
+      <View style={styles.fileHeader}>
+        <Text style={styles.fileName}>{summary.file}</Text>
+        <Text style={[styles.fileCounts, summary.rejected > 0 && styles.rejectedText]}>
+          {summary.accepted.toLocaleString()} valid · {summary.rejected.toLocaleString()} rejected
+        </Text>
+      </View>
+      {summary.examples.map((example, index) => (
+        <Text key={index} style={styles.example} numberOfLines={2}>
+          {[example.line !== undefined ? `Line ${example.line}` : null, example.id, example.reason]
+            .filter(Boolean)
+            .join(' · ')}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+function ReportSection({
+  title,
+  report,
+  emptyText,
+}: {
+  title: string;
+  report: ValidationReport | null;
+  emptyText: string;
+}) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {!report ? (
+        <Text style={styles.muted}>{emptyText}</Text>
+      ) : (
+        <>
+          <Text style={styles.muted}>Checked {formatCheckedAt(report.createdAt)}</Text>
+          {!report.passed && (
+            <Text style={[styles.status, styles.rejectedText]}>
+              Update rejected: {report.failureReason}. Using the previous schedule.
+            </Text>
+          )}
+          {report.files.length === 0 && <Text style={styles.muted}>No rows validated</Text>}
+          {report.files.map(summary => (
+            <FileSummaryRow key={summary.file} summary={summary} />
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Lets riders choose operators and add their own GTFS / GTFS-RT sources, and shows each cached feed's
+ * version and how many GTFS / GTFS-RT rows failed validation
+ */
+export default function DiagnosticsModal({ visible, onClose, onFeedsChanged }: DiagnosticsModalProps) {
+  const [enabledFeedIds, setEnabledFeedIds] = useState<string[]>([]);
+  const [customFeeds, setCustomFeeds] = useState<FeedSource[]>([]);
+  const [showCustomFeedForm, setShowCustomFeedForm] = useState(false);
+  const [feeds, setFeeds] = useState<FeedDiagnostics[]>([]);
+  const [realtimeReport, setRealtimeReport] = useState<ValidationReport | null>(null);
+  const feedsChanged = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    feedsChanged.current = false;
+    setShowCustomFeedForm(false);
+    TrainStorageService.getPreferences().then(prefs => {
+      setEnabledFeedIds(prefs.enabledFeedIds);
+      setCustomFeeds(prefs.customFeeds);
+    });
+    getCachedFeedInfos()
+      .then(infos =>
+        Promise.all(
+          infos.map(async ({ source, feedInfo }) => ({
+            source,
+            feedInfo,
+            report: await getGTFSValidationReport(source.id),
+          }))
+        )
+      )
+      .then(setFeeds);
+    RealtimeService.getSnapshot().then(snapshot => setRealtimeReport(snapshot.validation));
+  }, [visible]);
+
+  const toggleFeed = (feedId: string, enabled: boolean) => {
+    const next = enabled ? [...enabledFeedIds, feedId] : enabledFeedIds.filter(id => id !== feedId);
+    if (next.length === 0) return; // Keep at least one operator
+    feedsChanged.current = true;
+    setEnabledFeedIds(next);
+    TrainStorageService.savePreferences({ enabledFeedIds: next });
+  };
+
+  const addCustomFeed = (feed: FeedSource) => {
+    feedsChanged.current = true;
+    setCustomFeeds(current => [...current, feed]);
+    setEnabledFeedIds(current => [...current, feed.id]);
+    setShowCustomFeedForm(false);
+    TrainStorageService.addCustomFeed(feed);
+  };
+
+  const removeCustomFeed = (feed: FeedSource) => {
+    Alert.alert(`Remove ${feed.name}?`, 'Its downloaded schedule will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          feedsChanged.current = true;
+          await TrainStorageService.removeCustomFeed(feed.id);
+          const prefs = await TrainStorageService.getPreferences();
+          setEnabledFeedIds(prefs.enabledFeedIds);
+          setCustomFeeds(prefs.customFeeds);
+          setFeeds(current => current.filter(({ source }) => source.id !== feed.id));
+        },
+      },
+    ]);
+  };
+
+  const handleClose = () => {
+    onClose();
+    if (feedsChanged.current) onFeedsChanged?.();
+    feedsChanged.current = false;
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Data Sources</Text>
+          <TouchableOpacity onPress={handleClose} accessibilityRole="button" accessibilityLabel="Close data sources">
+            <Ionicons name="close" size={24} color={AppColors.primary} />
+          </TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Operators</Text>
+            {[...FEEDS, ...customFeeds].map(source => {
+              const enabled = enabledFeedIds.includes(source.id);
+              return (
+                <View key={source.id} style={styles.feedRow}>
+                  <View style={[styles.feedSwatch, { backgroundColor: source.color }]} />
+                  <Text style={styles.feedName}>{source.name}</Text>
+                  {source.custom && (
+                    <TouchableOpacity
+                      onPress={() => removeCustomFeed(source)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Remove ${source.name}`}
+                    >
+                      <Ionicons name="trash-outline" size={18} color={AppColors.secondary} />
+                    </TouchableOpacity>
+                  )}
+                  <Switch
+                    value={enabled}
+                    onValueChange={value => toggleFeed(source.id, value)}
+                    disabled={enabled && enabledFeedIds.length === 1}
+                    accessibilityLabel={`Load ${source.name} schedules`}
+                  />
+                </View>
+              );
+            })}
+            {showCustomFeedForm ? (
+              <CustomFeedForm
+                existing={customFeeds}
+                onAdd={addCustomFeed}
+                onCancel={() => setShowCustomFeedForm(false)}
+              />
+            ) : (
+              <TouchableOpacity
+                onPress={() => setShowCustomFeedForm(true)}
+                style={styles.addSourceButton}
+                accessibilityRole="button"
+              >
+                <Ionicons name="add-circle-outline" size={18} color={AppColors.primary} />
+                <Text style={styles.detail}>Add custom source</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={styles.muted}>Schedules update when this screen is closed</Text>
+          </View>
+          {feeds.map(({ source, feedInfo, report }) => (
+            <React.Fragment key={source.id}>
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{source.name} schedule</Text>
+                {feedInfo ? (
+                  <>
+                    <Text style={styles.detail}>
+                      {feedInfo.feed_publisher_name}
+                      {feedInfo.feed_version ? ` · ${feedInfo.feed_version}` : ''}
+                    </Text>
+                    <Text style={styles.muted}>
+                      Valid {formatGTFSDate(feedInfo.feed_start_date)} – {formatGTFSDate(feedInfo.feed_end_date)}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.muted}>No feed information published</Text>
+                )}
+              </View>
+              <ReportSection
+                title={`${source.name} schedule validation`}
+                report={report}
+                emptyText="The schedule has not been downloaded since validation was added"
+              />
+            </React.Fragment>
+          ))}
+          <ReportSection title="Live data validation" report={realtimeReport} emptyText="No live data received yet" />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.border.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: AppColors.primary,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  section: {
+    gap: Spacing.xs,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.primary,
+    marginBottom: Spacing.xs,
+  },
+  detail: {
+    fontSize: 14,
+    color: AppColors.primary,
+  },
+  muted: {
+    fontSize: 13,
+    color: AppColors.secondary,
+  },
+  feedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  feedSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  feedName: {
+    flex: 1,
+    fontSize: 14,
+    color: AppColors.primary,
+  },
+  addSourceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  status: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
+  fileRow: {
+    marginTop: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: AppColors.background.primary,
+    gap: Spacing.xs,
+  },
+  fileHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  fileName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  fileCounts: {
+    fontSize: 12,
+    color: AppColors.secondary,
+  },
+  rejectedText: {
+    color: AppColors.error,
+  },
+  example: {
+    fontSize: 12,
+    color: AppColors.secondary,
+  },
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { AppColors, BorderRadius, Spacing } from '../../constants/theme';
+import type { Train } from '../../types/train';
+import { formatConnectionStatus, getConnectionStatuses } from '../../utils/connection-status';
+import { gtfsParser } from '../../utils/gtfs-parser';
+
+interface ItineraryLegsProps {
+  train: Train;
+  legs: Train[]; // Every leg of the train's journey, in travel order
+  onSelectLeg?: (leg: Train) => void;
+  containerStyle?: ViewStyle;
+}
+
+/**
+ * Steps through the legs of a saved journey with connections, with the status of the connections
+ * into and out of the current leg; renders nothing for trains that are not part of one
+ */
+export default function ItineraryLegs({ train, legs, onSelectLeg, containerStyle }: ItineraryLegsProps) {
+  const index = legs.findIndex(
+    leg => leg.tripId === train.tripId && leg.fromCode === train.fromCode && leg.toCode === train.toCode
+  );
+  if (legs.length < 2 || index === -1) return null;
+
+  const previous = legs[index - 1];
+  const next = legs[index + 1];
+  // The connections into and out of this leg
+  const connections = getConnectionStatuses(legs, code => gtfsParser.getMinConnectionTime(code)).filter(
+    connection => connection.stationCode === previous?.toCode || (next && connection.stationCode === train.toCode)
+  );
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={() => previous && onSelectLeg?.(previous)}
+          disabled={!previous}
+          accessibilityRole="button"
+          accessibilityLabel="Previous leg"
+        >
+          <Ionicons name="chevron-back" size={20} color={previous ? AppColors.primary : AppColors.tertiary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>
+          Leg {index + 1} of {legs.length}
+        </Text>
+        <TouchableOpacity
+          onPress={() => next && onSelectLeg?.(next)}
+          disabled={!next}
+          accessibilityRole="button"
+          accessibilityLabel="Next leg"
+        >
+          <Ionicons name="chevron-forward" size={20} color={next ? AppColors.primary : AppColors.tertiary} />
+        </TouchableOpacity>
+      </View>
+
+      {connections.map(connection => (
+        <Text
+          key={connection.stationCode}
+          style={[styles.connection, connection.risk !== 'ok' && styles.connectionAtRisk]}
+        >
+          {gtfsParser.getStopCode(connection.stationCode)} · {formatConnectionStatus(connection)}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: AppColors.background.primary,
+    borderWidth: 1,
+    borderColor: AppColors.border.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  connection: {
+    fontSize: 13,
+    color: AppColors.secondary,
+  },
+  connectionAtRisk: {
+    color: AppColors.error,
+    fontWeight: '600',
+  },
+});
@@ -4,15 +4,24 @@ import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { AppColors, Spacing } from '../../constants/theme';
-import { formatTimeWithDayOffset, addDelayToTime, timeToMinutes } from '../../utils/time-formatting';
+import { addDelayToTime, formatLastReported, timeToMinutes } from '../../utils/time-formatting';
 
+import { useTimeZoneContext } from '../../context/TimeZoneContext';
 import { useTrainContext } from '../../context/TrainContext';
+import { RealtimeService, type RealtimeAlert } from '../../services/realtime';
 import type { Train } from '../../types/train';
 import { haversineDistance } from '../../utils/distance';
+import { isPositionStale } from '../../utils/dead-reckoning';
+import { toPredictedDelayMinutes, type PredictedDelayMinutes } from '../../utils/delay-propagation';
 import { gtfsParser } from '../../utils/gtfs-parser';
+import { formatDurationBetween, getDisplayTime } from '../../utils/service-time';
 import { getCountdownForTrain } from '../TrainList';
+import ItineraryLegs from './itinerary-legs';
+import ServiceAlertBanner from './ServiceAlertBanner';
 import { SlideUpModalContext } from './slide-up-modal';
 import TimeDisplay from './TimeDisplay';
+import TimeZoneToggle from './TimeZoneToggle';
+import TrainNotificationSettings from './train-notification-settings';
 import { logger } from '../../utils/logger';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -29,8 +38,15 @@ interface TrainDetailModalProps {
   onTrainSelect?: (train: Train) => void;
 }
 
-// formatTime24to12, addDelayToTime, and timeToMinutes are now imported from utils/time-formatting
-const formatTime24to12 = formatTimeWithDayOffset;
+// addDelayToTime and timeToMinutes are now imported from utils/time-formatting
+
+interface StopRow {
+  time: string;
+  dayOffset: number;
+  at?: number; // Absolute instant (ms since epoch), when the stop has a scheduled time
+  name: string;
+  code: string;
+}
 
 /**
  * Calculate number of nights for a journey based on day offsets
@@ -68,6 +84,15 @@ const timeToMinutes = (timeStr: string): number => {
   return totalHours * 60 + minutes;
 };
 
+/**
+ * Build TimeDisplay delay props for a scheduled time, or none when the train is not late
+ */
+function getDelayProps(time: string, dayOffset: number, delayMinutes: number | null | undefined) {
+  if (!time || !delayMinutes || delayMinutes <= 0) return {};
+  const delayed = addDelayToTime(time, delayMinutes, dayOffset);
+  return { delayMinutes, delayedTime: delayed.time, delayedDayOffset: delayed.dayOffset };
+}
+
 function calculateDuration(startTime: string, endTime: string): string {
   const startMinutes = timeToMinutes(startTime);
   let endMinutes = timeToMinutes(endTime);
@@ -81,19 +106,39 @@ function calculateDuration(startTime: string, endTime: string): string {
   return `${hours}h ${minutes}m`;
 }
 
+/**
+ * Duration between two stops, using absolute instants when both are resolved
+ * so journeys crossing timezones are measured correctly
+ */
+function calculateStopDuration(start: { time: string; at?: number }, end: { time: string; at?: number }): string {
+  if (start.at !== undefined && end.at !== undefined) {
+    return formatDurationBetween(start.at, end.at);
+  }
+  return calculateDuration(start.time, end.time);
+}
+
 import { Alert } from 'react-native';
 
 export default function TrainDetailModal({ train, onClose, onStationSelect, onTrainSelect }: TrainDetailModalProps) {
   // Use context if train is not provided
-  const { selectedTrain } = useTrainContext();
+  const { selectedTrain, savedTrains } = useTrainContext();
   const trainData = train || selectedTrain;
-  const [intermediateStops, setIntermediateStops] = React.useState<
-    { time: string; dayOffset: number; name: string; code: string }[]
-  >([]);
+  // Every leg of the journey this train is saved in, if any
+  const itineraryLegs = React.useMemo(
+    () =>
+      trainData?.itineraryId
+        ? savedTrains
+            .filter(leg => leg.itineraryId === trainData.itineraryId)
+            .sort((a, b) => (a.departAt ?? 0) - (b.departAt ?? 0))
+        : [],
+    [savedTrains, trainData?.itineraryId]
+  );
+  const { displayTimeZone } = useTimeZoneContext();
+  const [intermediateStops, setIntermediateStops] = React.useState<StopRow[]>([]);
   const [error, setError] = React.useState<string | null>(null);
 
   // For live trains: track past stops, next stop, and future stops
-  const [allStops, setAllStops] = React.useState<{ time: string; dayOffset: number; name: string; code: string }[]>([]);
+  const [allStops, setAllStops] = React.useState<StopRow[]>([]);
   const [isRouteExpanded, setIsRouteExpanded] = React.useState(false);
   const [isHeaderExpanded, setIsHeaderExpanded] = React.useState(false);
 
@@ -105,19 +150,31 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
   // Actual day offsets from GTFS for segment endpoints (more reliable than trainData which may be undefined)
   const [segmentDepartDayOffset, setSegmentDepartDayOffset] = React.useState(0);
   const [segmentArriveDayOffset, setSegmentArriveDayOffset] = React.useState(0);
+  // Segment endpoint times resolved in the display timezone
+  const [segmentDepartTime, setSegmentDepartTime] = React.useState<string | null>(null);
+  const [segmentArriveTime, setSegmentArriveTime] = React.useState<string | null>(null);
 
   React.useEffect(() => {
     if (!trainData) return;
     if (trainData.tripId) {
       try {
-        const stops = gtfsParser.getStopTimesForTrip(trainData.tripId);
+        const tripId = trainData.tripId;
+        const stops = gtfsParser.getStopTimesForTrip(tripId);
         if (stops && stops.length > 0) {
+          // Resolve each stop time on the train's service day, in station-local or device time
+          const serviceDate = trainData.serviceDate ?? new Date();
+          const resolve = (stopId: string, gtfsTime: string): { time: string; dayOffset: number; at?: number } =>
+            gtfsTime
+              ? gtfsParser.resolveStopTime(tripId, stopId, gtfsTime, serviceDate, displayTimeZone)
+              : { time: '', dayOffset: 0 };
+
           // Store all stops for the full route (for live trains)
           const allFormattedStops = stops.map(stop => {
-            const formatted = stop.departure_time ? formatTime24to12(stop.departure_time) : { time: '', dayOffset: 0 };
+            const formatted = resolve(stop.stop_id, stop.departure_time);
             return {
               time: formatted.time,
               dayOffset: formatted.dayOffset,
+              at: formatted.at,
               name: stop.stop_name,
               code: stop.stop_id,
             };
@@ -132,28 +189,25 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
             // Calculate base day offset from the segment's departure station
             const fromStop = stops[fromIdx];
             const toStop = stops[toIdx];
-            const fromFormatted = fromStop.departure_time
-              ? formatTime24to12(fromStop.departure_time)
-              : { time: '', dayOffset: 0 };
-            const toFormatted = toStop.arrival_time
-              ? formatTime24to12(toStop.arrival_time)
-              : { time: '', dayOffset: 0 };
+            const fromFormatted = resolve(fromStop.stop_id, fromStop.departure_time);
+            const toFormatted = resolve(toStop.stop_id, toStop.arrival_time);
 
             setSegmentBaseDayOffset(fromFormatted.dayOffset);
             setSegmentDepartDayOffset(fromFormatted.dayOffset);
             setSegmentArriveDayOffset(toFormatted.dayOffset);
+            setSegmentDepartTime(fromFormatted.time || null);
+            setSegmentArriveTime(toFormatted.time || null);
 
             // Only show stops between from and to (exclusive of endpoints)
             // Day offsets are localized relative to segment departure
             const segmentStops = stops.slice(fromIdx + 1, toIdx);
             setIntermediateStops(
               segmentStops.map(stop => {
-                const formatted = stop.departure_time
-                  ? formatTime24to12(stop.departure_time)
-                  : { time: '', dayOffset: 0 };
+                const formatted = resolve(stop.stop_id, stop.departure_time);
                 return {
                   time: formatted.time,
                   dayOffset: formatted.dayOffset - fromFormatted.dayOffset, // Localize to segment
+                  at: formatted.at,
                   name: stop.stop_name,
                   code: stop.stop_id,
                 };
@@ -164,14 +218,15 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
             setSegmentBaseDayOffset(0);
             setSegmentDepartDayOffset(0);
             setSegmentArriveDayOffset(0);
+            setSegmentDepartTime(null);
+            setSegmentArriveTime(null);
             setIntermediateStops(
               stops.slice(1, -1).map(stop => {
-                const formatted = stop.departure_time
-                  ? formatTime24to12(stop.departure_time)
-                  : { time: '', dayOffset: 0 };
+                const formatted = resolve(stop.stop_id, stop.departure_time);
                 return {
                   time: formatted.time,
                   dayOffset: formatted.dayOffset,
+                  at: formatted.at,
                   name: stop.stop_name,
                   code: stop.stop_id,
                 };
@@ -187,7 +242,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
     } else {
       setError('No trip ID available for this train.');
     }
-  }, [trainData]);
+  }, [trainData, displayTimeZone]);
 
   React.useEffect(() => {
     if (error) {
@@ -195,6 +250,41 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
     }
   }, [error, onClose]);
 
+  // Service alerts affecting this train or its route
+  const [serviceAlerts, setServiceAlerts] = React.useState<RealtimeAlert[]>([]);
+  const alertTripKey = trainData?.tripId || trainData?.trainNumber;
+  React.useEffect(() => {
+    if (!alertTripKey) return;
+    let cancelled = false;
+    RealtimeService.getAlertsForTrip(alertTripKey)
+      .then(alerts => {
+        if (!cancelled) setServiceAlerts(alerts);
+      })
+      .catch(e => logger.warn('Could not fetch service alerts:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [alertTripKey]);
+
+  // Predicted delays for every stop, refreshed whenever realtime data updates
+  const [predictedDelays, setPredictedDelays] = React.useState<Map<string, PredictedDelayMinutes>>(new Map());
+  const predictionTripId = trainData?.tripId;
+  const predictionServiceDate = trainData?.serviceDate;
+  const realtimeUpdatedAt = trainData?.realtime?.lastUpdated;
+  React.useEffect(() => {
+    if (!predictionTripId) return;
+    let cancelled = false;
+    RealtimeService.getPredictedStopTimes(predictionTripId, undefined, predictionServiceDate)
+      .then(predicted => {
+        if (!cancelled) setPredictedDelays(new Map(predicted.map(p => [p.stop_id, toPredictedDelayMinutes(p)])));
+      })
+      .catch(e => logger.warn('Could not fetch predicted stop times:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [predictionTripId, predictionServiceDate, realtimeUpdatedAt]);
+  const isSkipped = (stopCode: string) => predictedDelays.get(stopCode)?.skipped === true;
+
   // Use context from SlideUpModal for proper scroll/gesture coordination
   const { isCollapsed, isFullscreen, scrollOffset, contentOpacity } = React.useContext(SlideUpModalContext);
   const [isScrolled, setIsScrolled] = React.useState(false);
@@ -209,7 +299,12 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
   // Check if modal is at half height (not collapsed and not fullscreen)
   const isHalfHeight = !isCollapsed && !isFullscreen;
   // Calculate journey duration from departure to arrival
-  const duration = trainData ? calculateDuration(trainData.departTime, trainData.arriveTime) : '';
+  const duration = trainData
+    ? calculateStopDuration(
+        { time: trainData.departTime, at: trainData.departAt },
+        { time: trainData.arriveTime, at: trainData.arriveAt }
+      )
+    : '';
 
   // Calculate distance using station coordinates
   let distanceMiles: number | null = null;
@@ -237,6 +332,15 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
     // Find the first stop that hasn't happened yet
     let nextStopIndex = -1;
     for (let i = 0; i < allStops.length; i++) {
+      const stopAt = allStops[i].at;
+      if (stopAt !== undefined) {
+        if (stopAt > now.getTime()) {
+          nextStopIndex = i;
+          break;
+        }
+        continue;
+      }
+
       const stopMinutes = timeToMinutes(allStops[i].time);
       // Account for day offset - if stop is next day, add 24 hours
       const adjustedStopMinutes = stopMinutes + allStops[i].dayOffset * 24 * 60;
@@ -279,7 +383,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
     const finalStop = allStops[allStops.length - 1];
 
     // Calculate remaining duration from next stop to final destination
-    const remDuration = calculateDuration(nextStop.time, finalStop.time);
+    const remDuration = calculateStopDuration(nextStop, finalStop);
 
     // Calculate remaining distance from next stop to final destination
     let remDistance: number | null = null;
@@ -317,7 +421,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
     const finalStop = allStops[allStops.length - 1];
 
     // Calculate full route duration
-    const fullDuration = calculateDuration(originStop.time, finalStop.time);
+    const fullDuration = calculateStopDuration(originStop, finalStop);
 
     // Calculate full route distance
     let fullDistance: number | null = null;
@@ -376,8 +480,8 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                 // When modal is collapsed, always show short format
                 <Text style={styles.routeTitle} numberOfLines={1}>
                   {isRouteExpanded && allStops.length >= 2
-                    ? `${allStops[0].code} → ${allStops[allStops.length - 1].code}`
-                    : `${trainData.fromCode} → ${trainData.toCode}`}
+                    ? `${gtfsParser.getStopCode(allStops[0].code)} → ${gtfsParser.getStopCode(allStops[allStops.length - 1].code)}`
+                    : `${gtfsParser.getStopCode(trainData.fromCode)} → ${gtfsParser.getStopCode(trainData.toCode)}`}
                 </Text>
               ) : isHeaderExpanded ? (
                 <>
@@ -391,8 +495,8 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
               ) : (
                 <Text style={styles.routeTitle} numberOfLines={1}>
                   {isRouteExpanded && allStops.length >= 2
-                    ? `${allStops[0].code} → ${allStops[allStops.length - 1].code}`
-                    : `${trainData.fromCode} → ${trainData.toCode}`}
+                    ? `${gtfsParser.getStopCode(allStops[0].code)} → ${gtfsParser.getStopCode(allStops[allStops.length - 1].code)}`
+                    : `${gtfsParser.getStopCode(trainData.fromCode)} → ${gtfsParser.getStopCode(trainData.toCode)}`}
                 </Text>
               )}
             </TouchableOpacity>
@@ -419,6 +523,24 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
           bounces={true}
           nestedScrollEnabled={true}
         >
+          {/* Legs of a saved journey with connections */}
+          {trainData && itineraryLegs.length > 1 && (
+            <ItineraryLegs
+              train={trainData}
+              legs={itineraryLegs}
+              onSelectLeg={onTrainSelect}
+              containerStyle={styles.itineraryLegs}
+            />
+          )}
+
+          {/* Service alerts */}
+          {serviceAlerts.length > 0 && (
+            <ServiceAlertBanner alerts={serviceAlerts} containerStyle={styles.alertBanner} />
+          )}
+
+          {/* Notification settings, for saved trains */}
+          {trainData && <TrainNotificationSettings train={trainData} containerStyle={styles.notificationSettings} />}
+
           {/* Departs in (granular, like card) */}
           {countdown && <View style={styles.fullWidthLine} />}
           {countdown && (
@@ -430,6 +552,15 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
               </Text>
             </View>
           )}
+          {/* Stale live position */}
+          {realtimeUpdatedAt !== undefined && isPositionStale(realtimeUpdatedAt, Date.now()) && (
+            <View style={styles.departsSection}>
+              <Text style={[styles.departsText, { color: COLORS.secondary }]}>
+                {formatLastReported(realtimeUpdatedAt)}
+              </Text>
+            </View>
+          )}
+          <TimeZoneToggle containerStyle={styles.timeZoneToggle} />
           <View style={styles.fullWidthLine} />
 
           {/* LIVE TRAIN VIEW: Show next stop as primary, elapsed stops in duration row */}
@@ -446,13 +577,18 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                         onPress={() => handleStationPress(nextStop.code)}
                         activeOpacity={0.7}
                       >
-                        <Text style={styles.locationCode}>{nextStop.code}</Text>
+                        <Text style={styles.locationCode}>{gtfsParser.getStopCode(nextStop.code)}</Text>
                         <Text style={styles.locationName}> • {nextStop.name}</Text>
                       </TouchableOpacity>
                     </View>
                     <TimeDisplay
                       time={nextStop.time}
                       dayOffset={nextStop.dayOffset}
+                      {...getDelayProps(
+                        nextStop.time,
+                        nextStop.dayOffset,
+                        predictedDelays.get(nextStop.code)?.departure
+                      )}
                       style={styles.timeText}
                       superscriptStyle={styles.timeSuperscript}
                     />
@@ -503,11 +639,16 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                           <TimeDisplay
                             time={stop.time}
                             dayOffset={stop.dayOffset}
-                            style={styles.stopTime}
+                            {...getDelayProps(stop.time, stop.dayOffset, predictedDelays.get(stop.code)?.departure)}
+                            style={[styles.stopTime, isSkipped(stop.code) && styles.skippedText]}
                             superscriptStyle={styles.stopTimeSuperscript}
                           />
-                          <Text style={styles.stopStation}>{stop.name}</Text>
-                          <Text style={styles.stopCode}>{stop.code}</Text>
+                          <Text style={[styles.stopStation, isSkipped(stop.code) && styles.skippedText]}>
+                            {stop.name}
+                          </Text>
+                          <Text style={[styles.stopCode, isSkipped(stop.code) && styles.skippedText]}>
+                            {gtfsParser.getStopCode(stop.code)}
+                          </Text>
                         </TouchableOpacity>
                       ))}
                       <View style={styles.endLineRow}>
@@ -527,7 +668,9 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                     onPress={() => handleStationPress(allStops[allStops.length - 1]?.code || trainData.toCode)}
                     activeOpacity={0.7}
                   >
-                    <Text style={styles.locationCode}>{allStops[allStops.length - 1]?.code || trainData.toCode}</Text>
+                    <Text style={styles.locationCode}>
+                      {gtfsParser.getStopCode(allStops[allStops.length - 1]?.code || trainData.toCode)}
+                    </Text>
                     <Text style={styles.locationName}>
                       {' '}
                       • {allStops[allStops.length - 1]?.name || gtfsParser.getStopName(trainData.toCode)}
@@ -537,6 +680,11 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                 <TimeDisplay
                   time={allStops[allStops.length - 1]?.time || trainData.arriveTime}
                   dayOffset={allStops[allStops.length - 1]?.dayOffset || trainData.arriveDayOffset}
+                  {...getDelayProps(
+                    allStops[allStops.length - 1]?.time || trainData.arriveTime,
+                    allStops[allStops.length - 1]?.dayOffset || trainData.arriveDayOffset || 0,
+                    predictedDelays.get(allStops[allStops.length - 1]?.code || trainData.toCode)?.arrival
+                  )}
                   style={styles.timeText}
                   superscriptStyle={styles.timeSuperscript}
                 />
@@ -576,7 +724,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                         activeOpacity={0.7}
                       >
                         <Text style={[styles.locationCode, pastStopsCount > 0 && styles.elapsedText]}>
-                          {allStops[0].code}
+                          {gtfsParser.getStopCode(allStops[0].code)}
                         </Text>
                         <Text style={[styles.locationName, pastStopsCount > 0 && styles.elapsedText]}>
                           {' '}
@@ -587,6 +735,11 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                     <TimeDisplay
                       time={allStops[0].time}
                       dayOffset={allStops[0].dayOffset}
+                      {...getDelayProps(
+                        allStops[0].time,
+                        allStops[0].dayOffset,
+                        predictedDelays.get(allStops[0].code)?.departure
+                      )}
                       style={[styles.timeText, pastStopsCount > 0 && styles.elapsedText]}
                       superscriptStyle={[styles.timeSuperscript, pastStopsCount > 0 && styles.elapsedText]}
                     />
@@ -637,11 +790,32 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                             <TimeDisplay
                               time={stop.time}
                               dayOffset={stop.dayOffset}
-                              style={[styles.stopTime, isElapsed && styles.elapsedText]}
+                              {...getDelayProps(stop.time, stop.dayOffset, predictedDelays.get(stop.code)?.departure)}
+                              style={[
+                                styles.stopTime,
+                                isElapsed && styles.elapsedText,
+                                isSkipped(stop.code) && styles.skippedText,
+                              ]}
                               superscriptStyle={[styles.stopTimeSuperscript, isElapsed && styles.elapsedText]}
                             />
-                            <Text style={[styles.stopStation, isElapsed && styles.elapsedText]}>{stop.name}</Text>
-                            <Text style={[styles.stopCode, isElapsed && styles.elapsedText]}>{stop.code}</Text>
+                            <Text
+                              style={[
+                                styles.stopStation,
+                                isElapsed && styles.elapsedText,
+                                isSkipped(stop.code) && styles.skippedText,
+                              ]}
+                            >
+                              {stop.name}
+                            </Text>
+                            <Text
+                              style={[
+                                styles.stopCode,
+                                isElapsed && styles.elapsedText,
+                                isSkipped(stop.code) && styles.skippedText,
+                              ]}
+                            >
+                              {gtfsParser.getStopCode(stop.code)}
+                            </Text>
                           </TouchableOpacity>
                         );
                       })}
@@ -660,13 +834,20 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                         onPress={() => handleStationPress(allStops[allStops.length - 1].code)}
                         activeOpacity={0.7}
                       >
-                        <Text style={styles.locationCode}>{allStops[allStops.length - 1].code}</Text>
+                        <Text style={styles.locationCode}>
+                          {gtfsParser.getStopCode(allStops[allStops.length - 1].code)}
+                        </Text>
                         <Text style={styles.locationName}> • {allStops[allStops.length - 1].name}</Text>
                       </TouchableOpacity>
                     </View>
                     <TimeDisplay
                       time={allStops[allStops.length - 1].time}
                       dayOffset={allStops[allStops.length - 1].dayOffset}
+                      {...getDelayProps(
+                        allStops[allStops.length - 1].time,
+                        allStops[allStops.length - 1].dayOffset,
+                        predictedDelays.get(allStops[allStops.length - 1].code)?.arrival
+                      )}
                       style={styles.timeText}
                       superscriptStyle={styles.timeSuperscript}
                     />
@@ -697,7 +878,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                                 activeOpacity={0.7}
                               >
                                 <Text style={[styles.locationCode, isOriginOutsideSegment && styles.elapsedText]}>
-                                  {allStops[0].code}
+                                  {gtfsParser.getStopCode(allStops[0].code)}
                                 </Text>
                                 <Text style={[styles.locationName, isOriginOutsideSegment && styles.elapsedText]}>
                                   {' '}
@@ -708,6 +889,11 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                             <TimeDisplay
                               time={allStops[0].time}
                               dayOffset={allStops[0].dayOffset}
+                              {...getDelayProps(
+                                allStops[0].time,
+                                allStops[0].dayOffset,
+                                predictedDelays.get(allStops[0].code)?.departure
+                              )}
                               style={[styles.timeText, isOriginOutsideSegment && styles.elapsedText]}
                               superscriptStyle={[styles.timeSuperscript, isOriginOutsideSegment && styles.elapsedText]}
                             />
@@ -766,17 +952,38 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                                 <TimeDisplay
                                   time={stop.time}
                                   dayOffset={stop.dayOffset}
-                                  style={[styles.stopTime, isOutsideSegment && styles.elapsedText]}
+                                  {...getDelayProps(
+                                    stop.time,
+                                    stop.dayOffset,
+                                    predictedDelays.get(stop.code)?.departure
+                                  )}
+                                  style={[
+                                    styles.stopTime,
+                                    isOutsideSegment && styles.elapsedText,
+                                    isSkipped(stop.code) && styles.skippedText,
+                                  ]}
                                   superscriptStyle={[
                                     styles.stopTimeSuperscript,
                                     isOutsideSegment && styles.elapsedText,
                                   ]}
                                 />
-                                <Text style={[styles.stopStation, isOutsideSegment && styles.elapsedText]}>
+                                <Text
+                                  style={[
+                                    styles.stopStation,
+                                    isOutsideSegment && styles.elapsedText,
+                                    isSkipped(stop.code) && styles.skippedText,
+                                  ]}
+                                >
                                   {stop.name}
                                 </Text>
-                                <Text style={[styles.stopCode, isOutsideSegment && styles.elapsedText]}>
-                                  {stop.code}
+                                <Text
+                                  style={[
+                                    styles.stopCode,
+                                    isOutsideSegment && styles.elapsedText,
+                                    isSkipped(stop.code) && styles.skippedText,
+                                  ]}
+                                >
+                                  {gtfsParser.getStopCode(stop.code)}
                                 </Text>
                               </TouchableOpacity>
                             );
@@ -806,7 +1013,7 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                                 activeOpacity={0.7}
                               >
                                 <Text style={[styles.locationCode, isDestinationOutsideSegment && styles.elapsedText]}>
-                                  {allStops[allStops.length - 1].code}
+                                  {gtfsParser.getStopCode(allStops[allStops.length - 1].code)}
                                 </Text>
                                 <Text style={[styles.locationName, isDestinationOutsideSegment && styles.elapsedText]}>
                                   {' '}
@@ -817,6 +1024,11 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                             <TimeDisplay
                               time={allStops[allStops.length - 1].time}
                               dayOffset={allStops[allStops.length - 1].dayOffset}
+                              {...getDelayProps(
+                                allStops[allStops.length - 1].time,
+                                allStops[allStops.length - 1].dayOffset,
+                                predictedDelays.get(allStops[allStops.length - 1].code)?.arrival
+                              )}
                               style={[styles.timeText, isDestinationOutsideSegment && styles.elapsedText]}
                               superscriptStyle={[
                                 styles.timeSuperscript,
@@ -839,35 +1051,30 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                             onPress={() => handleStationPress(trainData.fromCode)}
                             activeOpacity={0.7}
                           >
-                            <Text style={styles.locationCode}>{trainData.fromCode}</Text>
+                            <Text style={styles.locationCode}>{gtfsParser.getStopCode(trainData.fromCode)}</Text>
                             <Text style={styles.locationName}> • {gtfsParser.getStopName(trainData.fromCode)}</Text>
                           </TouchableOpacity>
                         </View>
                         {(() => {
-                          const delay = trainData.realtime?.delay;
+                          const delay = predictedDelays.get(trainData.fromCode)?.departure ?? trainData.realtime?.delay;
                           // Localize day offset: departure is always day 0 for segment view
                           // Use GTFS-derived offset which is more reliable than trainData.departDayOffset
                           const localizedDepartOffset = segmentDepartDayOffset - segmentBaseDayOffset; // Should always be 0
-                          if (delay && delay > 0) {
-                            const delayed = addDelayToTime(trainData.departTime, delay, localizedDepartOffset);
-                            return (
-                              <TimeDisplay
-                                time={trainData.departTime}
-                                dayOffset={localizedDepartOffset}
-                                style={styles.timeText}
-                                superscriptStyle={styles.timeSuperscript}
-                                delayMinutes={delay}
-                                delayedTime={delayed.time}
-                                delayedDayOffset={delayed.dayOffset}
-                              />
-                            );
-                          }
+                          const departTime =
+                            segmentDepartTime ??
+                            getDisplayTime(
+                              { time: trainData.departTime, dayOffset: 0 },
+                              trainData.departAt,
+                              trainData.serviceDate,
+                              displayTimeZone
+                            ).time;
                           return (
                             <TimeDisplay
-                              time={trainData.departTime}
+                              time={departTime}
                               dayOffset={localizedDepartOffset}
                               style={styles.timeText}
                               superscriptStyle={styles.timeSuperscript}
+                              {...getDelayProps(departTime, localizedDepartOffset, delay)}
                             />
                           );
                         })()}
@@ -922,11 +1129,16 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                               <TimeDisplay
                                 time={stop.time}
                                 dayOffset={stop.dayOffset}
-                                style={styles.stopTime}
+                                {...getDelayProps(stop.time, stop.dayOffset, predictedDelays.get(stop.code)?.departure)}
+                                style={[styles.stopTime, isSkipped(stop.code) && styles.skippedText]}
                                 superscriptStyle={styles.stopTimeSuperscript}
                               />
-                              <Text style={styles.stopStation}>{stop.name}</Text>
-                              <Text style={styles.stopCode}>{stop.code}</Text>
+                              <Text style={[styles.stopStation, isSkipped(stop.code) && styles.skippedText]}>
+                                {stop.name}
+                              </Text>
+                              <Text style={[styles.stopCode, isSkipped(stop.code) && styles.skippedText]}>
+                                {gtfsParser.getStopCode(stop.code)}
+                              </Text>
                             </TouchableOpacity>
                           ))}
                           <View style={styles.endLineRow}>
@@ -944,35 +1156,32 @@ export default function TrainDetailModal({ train, onClose, onStationSelect, onTr
                             onPress={() => handleStationPress(trainData.toCode)}
                             activeOpacity={0.7}
                           >
-                            <Text style={styles.locationCode}>{trainData.toCode}</Text>
+                            <Text style={styles.locationCode}>{gtfsParser.getStopCode(trainData.toCode)}</Text>
                             <Text style={styles.locationName}> • {gtfsParser.getStopName(trainData.toCode)}</Text>
                           </TouchableOpacity>
                         </View>
                         {(() => {
-                          const delay = trainData.realtime?.delay;
+                          // Use the predicted arrival delay, not the departure delay
+                          const delay =
+                            predictedDelays.get(trainData.toCode)?.arrival ?? trainData.realtime?.arrivalDelay;
                           // Localize day offset relative to segment departure
                           // Use GTFS-derived offset which is more reliable than trainData.arriveDayOffset
                           const localizedArriveOffset = segmentArriveDayOffset - segmentBaseDayOffset;
-                          if (delay && delay > 0) {
-                            const delayed = addDelayToTime(trainData.arriveTime, delay, localizedArriveOffset);
-                            return (
-                              <TimeDisplay
-                                time={trainData.arriveTime}
-                                dayOffset={localizedArriveOffset}
-                                style={styles.timeText}
-                                superscriptStyle={styles.timeSuperscript}
-                                delayMinutes={delay}
-                                delayedTime={delayed.time}
-                                delayedDayOffset={delayed.dayOffset}
-                              />
-                            );
-                          }
+                          const arriveTime =
+                            segmentArriveTime ??
+                            getDisplayTime(
+                              { time: trainData.arriveTime, dayOffset: 0 },
+                              trainData.arriveAt,
+                              trainData.serviceDate,
+                              displayTimeZone
+                            ).time;
                           return (
                             <TimeDisplay
-                              time={trainData.arriveTime}
+                              time={arriveTime}
                               dayOffset={localizedArriveOffset}
                               style={styles.timeText}
                               superscriptStyle={styles.timeSuperscript}
+                              {...getDelayProps(arriveTime, localizedArriveOffset, delay)}
                             />
                           );
                         })()}
@@ -1081,10 +1290,26 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.family,
     color: COLORS.primary,
   },
+  itineraryLegs: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  alertBanner: {
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  notificationSettings: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
   departsSection: {
     paddingBottom: 12,
     paddingHorizontal: 20,
   },
+  timeZoneToggle: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
   departsText: {
     fontSize: 16,
     fontFamily: FONTS.family,
@@ -1309,4 +1534,8 @@ const styles = StyleSheet.create({
   elapsedText: {
     color: COLORS.secondary,
   },
+  skippedText: {
+    color: COLORS.secondary,
+    textDecorationLine: 'line-through',
+  },
 });
@@ -0,0 +1,223 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import {
+  DELAY_THRESHOLD_OPTIONS,
+  DEPARTURE_REMINDER_OPTIONS,
+  STOPS_BEFORE_ARRIVAL_OPTIONS,
+} from '../../constants/notifications';
+import { AppColors, BorderRadius, Spacing } from '../../constants/theme';
+import { TrainNotificationService } from '../../services/notifications';
+import { TrainStorageService } from '../../services/storage';
+import type { Train, TrainNotificationPreferences } from '../../types/train';
+
+interface TrainNotificationSettingsProps {
+  train: Train;
+  containerStyle?: ViewStyle;
+}
+
+function formatReminder(minutes: number | null): string {
+  return minutes === null ? 'Off' : `${minutes} min before`;
+}
+
+function formatStopsBefore(stops: number | null): string {
+  if (stops === null) return 'Off';
+  return stops === 1 ? '1 stop before' : `${stops} stops before`;
+}
+
+/**
+ * Pick the option after the current one, wrapping around
+ */
+function nextOption<T>(options: readonly T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+/**
+ * Notification settings for a saved train; renders nothing for trains that are not saved
+ */
+export default function TrainNotificationSettings({ train, containerStyle }: TrainNotificationSettingsProps) {
+  const [preferences, setPreferences] = React.useState<TrainNotificationPreferences | null>(null);
+  const { tripId, travelDate } = train;
+  // Saved references leave out empty segment codes
+  const fromCode = train.fromCode || undefined;
+  const toCode = train.toCode || undefined;
+
+  React.useEffect(() => {
+    if (!tripId) return;
+    let cancelled = false;
+    TrainStorageService.getTrainRef(tripId, fromCode, toCode, travelDate).then(ref => {
+      if (!cancelled) setPreferences(ref ? TrainNotificationService.getPreferences(ref) : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, fromCode, toCode, travelDate]);
+
+  if (!tripId || !preferences) return null;
+
+  const update = (updates: Partial<TrainNotificationPreferences>) => {
+    const next = { ...preferences, ...updates };
+    setPreferences(next);
+    TrainStorageService.saveTrainNotifications(tripId, fromCode, toCode, travelDate, next);
+    if (updates.enabled) TrainNotificationService.requestPermission();
+  };
+
+  const toggleThreshold = (minutes: number) => {
+    const thresholds = preferences.delayThresholdsMinutes;
+    update({
+      delayThresholdsMinutes: thresholds.includes(minutes)
+        ? thresholds.filter(threshold => threshold !== minutes)
+        : [...thresholds, minutes].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      <View style={styles.row}>
+        <Ionicons name="notifications-outline" size={16} color={AppColors.primary} />
+        <Text style={styles.title}>Notifications</Text>
+        <Switch
+          value={preferences.enabled}
+          onValueChange={enabled => update({ enabled })}
+          accessibilityLabel="Notify me about this train"
+        />
+      </View>
+
+      {preferences.enabled && (
+        <>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() =>
+              update({
+                departureReminderMinutes: nextOption<number | null>(
+                  DEPARTURE_REMINDER_OPTIONS,
+                  preferences.departureReminderMinutes
+                ),
+              })
+            }
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Departure reminder"
+          >
+            <Text style={styles.label}>Departure reminder</Text>
+            <Text style={styles.value}>{formatReminder(preferences.departureReminderMinutes)}</Text>
+          </TouchableOpacity>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Delays of</Text>
+            <View style={styles.chips}>
+              {DELAY_THRESHOLD_OPTIONS.map(minutes => {
+                const selected = preferences.delayThresholdsMinutes.includes(minutes);
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleThreshold(minutes)}
+                    activeOpacity={0.7}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`Delays of ${minutes} minutes`}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{minutes}m</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Cancellation</Text>
+            <Switch
+              value={preferences.cancellation}
+              onValueChange={cancellation => update({ cancellation })}
+              accessibilityLabel="Notify me if this train is cancelled"
+            />
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Platform changes</Text>
+            <Switch
+              value={preferences.platformChanges}
+              onValueChange={platformChanges => update({ platformChanges })}
+              accessibilityLabel="Notify me if the platform changes"
+            />
+          </View>
+
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() =>
+              update({
+                stopsBeforeArrival: nextOption<number | null>(
+                  STOPS_BEFORE_ARRIVAL_OPTIONS,
+                  preferences.stopsBeforeArrival
+                ),
+              })
+            }
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Arrival alert"
+          >
+            <Text style={styles.label}>Arrival alert</Text>
+            <Text style={styles.value}>{formatStopsBefore(preferences.stopsBeforeArrival)}</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: AppColors.background.primary,
+    borderWidth: 1,
+    borderColor: AppColors.border.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    minHeight: 32,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: AppColors.secondary,
+  },
+  value: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: AppColors.border.secondary,
+  },
+  chipSelected: {
+    backgroundColor: AppColors.background.tertiary,
+    borderColor: AppColors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: AppColors.secondary,
+  },
+  chipTextSelected: {
+    color: AppColors.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,74 @@
+/**
+ * Built-in registry of rail operators the app can load
+ * Schedules are downloaded for the operators enabled in user preferences (Amtrak by default)
+ */
+
+import type { FeedSource } from '../types/train';
+import { AMTRAK_NAMED_TRAINS } from './named-trains';
+import { STATION_ALIASES } from './station-aliases';
+
+export const DEFAULT_FEED_ID = 'amtrak';
+
+export const FEEDS: FeedSource[] = [
+  {
+    id: DEFAULT_FEED_ID,
+    name: 'Amtrak',
+    staticUrl: 'https://content.amtrak.com/content/gtfs/GTFS.zip',
+    // Transitdocs consolidates vehicle positions, trip updates and alerts in one feed
+    realtimeUrls: ['https://asm-backend.transitdocs.com/gtfs/amtrak'],
+    color: '#00537E',
+    textColor: '#FFFFFF',
+    codePrefix: 'AMT',
+    stationAliases: STATION_ALIASES,
+    namedTrains: AMTRAK_NAMED_TRAINS,
+  },
+  {
+    id: 'via',
+    name: 'VIA Rail',
+    staticUrl: 'https://www.viarail.ca/sites/all/files/gtfs/viarail.zip',
+    color: '#FFC20E',
+    textColor: '#000000',
+  },
+  {
+    id: 'brightline',
+    name: 'Brightline',
+    staticUrl: 'https://feed.gobrightline.com/bl_gtfs.zip',
+    realtimeUrls: [
+      'https://feed.gobrightline.com/trip_updates.pb',
+      'https://feed.gobrightline.com/position_updates.pb',
+    ],
+    color: '#FFE600',
+    textColor: '#000000',
+  },
+  {
+    // Metra's GTFS-RT feeds require an API key, so only the schedule is loaded
+    id: 'metra',
+    name: 'Metra',
+    staticUrl: 'https://schedules.metrarail.com/gtfs/schedule.zip',
+    color: '#005596',
+    textColor: '#FFFFFF',
+  },
+  {
+    // NJ Transit's GTFS-RT feeds require a developer account, so only the schedule is loaded
+    id: 'njt',
+    name: 'NJ Transit Rail',
+    staticUrl: 'https://content.njtransit.com/public/developers-resources/rail_data.zip',
+    color: '#F7941D',
+    textColor: '#000000',
+  },
+];
+
+/**
+ * Get a registered feed by id
+ */
+export function getFeedSource(feedId: string): FeedSource | undefined {
+  return FEEDS.find(feed => feed.id === feedId);
+}
+
+/**
+ * Resolve feed ids (e.g. from preferences) to registered feeds, in registry order, then custom sources
+ * Unknown ids are ignored
+ */
+export function resolveFeedSources(feedIds: readonly string[], customFeeds: readonly FeedSource[] = []): FeedSource[] {
+  return [...FEEDS, ...customFeeds].filter(feed => feedIds.includes(feed.id));
+}
@@ -0,0 +1,11 @@
+/**
+ * Limits for planning journeys with connections in the two-station search
+ */
+
+// Transfer time assumed at stations whose schedule gives none (transfers.txt)
+export const DEFAULT_MIN_CONNECTION_MINUTES = 30;
+
+// Longest wait between trains that still counts as a connection
+export const MAX_LAYOVER_HOURS = 8;
+
+export const MAX_TRANSFERS = 2;
@@ -0,0 +1,12 @@
+/**
+ * Amtrak trains whose names GTFS doesn't publish as routes of their own
+ * Route names otherwise come from trips.txt and routes.txt (see utils/train-route-names)
+ */
+
+import type { NamedTrains } from '../types/train';
+
+export const AMTRAK_NAMED_TRAINS: NamedTrains[] = [
+  // Published together as the "Illini/Saluki" route
+  { name: 'Saluki', trainNumbers: ['390', '391'] },
+  { name: 'Illini', trainNumbers: ['392', '393'] },
+];
@@ -0,0 +1,19 @@
+/**
+ * Defaults and choices for saved train notifications
+ */
+
+import type { TrainNotificationPreferences } from '../types/train';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: TrainNotificationPreferences = {
+  enabled: true,
+  departureReminderMinutes: 30,
+  delayThresholdsMinutes: [15, 30, 60],
+  cancellation: true,
+  platformChanges: true,
+  stopsBeforeArrival: 1,
+};
+
+// Choices offered in a saved train's notification settings
+export const DEPARTURE_REMINDER_OPTIONS = [null, 15, 30, 60] as const;
+export const DELAY_THRESHOLD_OPTIONS = [5, 15, 30, 60, 120] as const;
+export const STOPS_BEFORE_ARRIVAL_OPTIONS = [null, 1, 2, 3] as const;
@@ -0,0 +1,28 @@
+/**
+ * Common names riders use for stations, keyed by Amtrak station code
+ * Matched by search in addition to the official GTFS stop name
+ */
+export const STATION_ALIASES: Record<string, string[]> = {
+  NYP: ['Penn Station', 'New York Penn Station', 'NY Penn', 'Moynihan Train Hall'],
+  WAS: ['Union Station, Washington', 'DC Union Station', 'Washington DC'],
+  CHI: ['Union Station, Chicago', 'Chicago Union Station'],
+  LAX: ['Union Station, Los Angeles', 'LA Union Station'],
+  PHL: ['30th Street Station', 'Philadelphia 30th Street'],
+  BOS: ['South Station'],
+  BON: ['North Station'],
+  BBY: ['Back Bay'],
+  BAL: ['Penn Station, Baltimore', 'Baltimore Penn'],
+  NWK: ['Penn Station, Newark', 'Newark Penn'],
+  EWR: ['Newark Airport'],
+  NHV: ['Union Station, New Haven'],
+  DEN: ['Union Station, Denver'],
+  KCY: ['Union Station, Kansas City'],
+  PDX: ['Union Station, Portland'],
+  SEA: ['King Street Station'],
+  ALB: ['Albany', 'Rensselaer'],
+  SAC: ['Sacramento Valley Station'],
+  NOL: ['Union Passenger Terminal', 'New Orleans UPT'],
+  STL: ['Gateway Station'],
+  OKJ: ['Jack London Square'],
+  EMY: ['Emeryville', 'San Francisco'],
+};
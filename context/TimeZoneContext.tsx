@@ -0,0 +1,45 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { TrainStorageService } from '../services/storage';
+import { getDeviceTimeZone } from '../utils/service-time';
+
+interface TimeZoneContextType {
+  showInDeviceTimeZone: boolean;
+  setShowInDeviceTimeZone: (value: boolean) => void;
+  deviceTimeZone: string;
+  // Timezone to format times in, or undefined for each station's local time
+  displayTimeZone: string | undefined;
+}
+
+export const TimeZoneContext = createContext<TimeZoneContextType | undefined>(undefined);
+
+export const useTimeZoneContext = () => {
+  const ctx = useContext(TimeZoneContext);
+  if (!ctx) throw new Error('useTimeZoneContext must be used within TimeZoneProvider');
+  return ctx;
+};
+
+export const TimeZoneProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [showInDeviceTimeZone, setShowInDeviceTimeZoneState] = useState(false);
+  const deviceTimeZone = useMemo(() => getDeviceTimeZone(), []);
+
+  useEffect(() => {
+    TrainStorageService.getPreferences().then(prefs => setShowInDeviceTimeZoneState(prefs.showTimesInDeviceTimeZone));
+  }, []);
+
+  const setShowInDeviceTimeZone = useCallback((value: boolean) => {
+    setShowInDeviceTimeZoneState(value);
+    TrainStorageService.savePreferences({ showTimesInDeviceTimeZone: value });
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      showInDeviceTimeZone,
+      setShowInDeviceTimeZone,
+      deviceTimeZone,
+      displayTimeZone: showInDeviceTimeZone ? deviceTimeZone : undefined,
+    }),
+    [showInDeviceTimeZone, setShowInDeviceTimeZone, deviceTimeZone]
+  );
+
+  return <TimeZoneContext.Provider value={value}>{children}</TimeZoneContext.Provider>;
+};
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { TrainAPIService } from '../services/api';
+import { unscopeId } from '../utils/feed-ids';
+import { gtfsParser } from '../utils/gtfs-parser';
 
 export interface FrequentlyUsedItem {
   id: string;
@@ -19,15 +21,15 @@ export function useFrequentlyUsed() {
       ...routes.slice(0, 3).map((route, index) => ({
         id: `freq-route-${index}`,
         name: route.route_long_name,
-        code: route.route_short_name || route.route_id.substring(0, 3),
-        subtitle: `AMT${route.route_id}`,
+        code: route.route_short_name || unscopeId(route.route_id).substring(0, 3),
+        subtitle: `${gtfsParser.getFeed(route.route_id)?.codePrefix ?? ''}${unscopeId(route.route_id)}`,
         type: 'train' as const,
       })),
       ...stops.slice(0, 2).map((stop, index) => ({
         id: `freq-stop-${index}`,
         name: stop.stop_name,
-        code: stop.stop_id,
-        subtitle: stop.stop_id,
+        code: gtfsParser.getStopCode(stop.stop_id),
+        subtitle: gtfsParser.getStopCode(stop.stop_id),
         type: 'station' as const,
       })),
     ]);
@@ -0,0 +1,88 @@
+/**
+ * Hook that moves live trains along their route shapes between GTFS-RT updates
+ * Positions are snapped onto the trip's shape and advanced at the train's speed every tick
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { shapeLoader } from '../services/shape-loader';
+import { gtfsParser } from '../utils/gtfs-parser';
+import {
+  getMotionDistance,
+  getPointAlongPath,
+  measurePath,
+  projectOntoPath,
+  updateMotion,
+  type MeasuredPath,
+  type TrainMotion,
+} from '../utils/map-matching';
+import type { LiveTrain } from './useLiveTrains';
+
+interface MatchedTrain {
+  train: LiveTrain;
+  path?: MeasuredPath;
+  motion?: TrainMotion;
+}
+
+/**
+ * Get live trains with positions snapped to and moving along their shapes
+ * Trains without a shape, or reported away from it, keep their reported position
+ * @param intervalMs - How often markers move (default: 1000ms)
+ */
+export function useGlidingTrains(trains: LiveTrain[], intervalMs: number = 1000): LiveTrain[] {
+  const paths = useRef(new Map<string, MeasuredPath | null>()); // keyed by shape_id
+  const motions = useRef(new Map<string, TrainMotion>()); // keyed by trip_id
+  const [now, setNow] = useState(Date.now);
+  const hasTrains = trains.length > 0;
+
+  useEffect(() => {
+    if (!hasTrains) return;
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [hasTrains, intervalMs]);
+
+  // Fold each new report into the train's motion
+  const matched = useMemo<MatchedTrain[]>(() => {
+    const receivedAt = Date.now();
+    const nextMotions = new Map<string, TrainMotion>();
+
+    const result = trains.map(train => {
+      const shapeId = gtfsParser.getTrainShapeId(train.tripId);
+      if (shapeId === undefined) return { train };
+      if (!paths.current.has(shapeId)) {
+        const shape = shapeLoader.getShape(shapeId);
+        paths.current.set(shapeId, shape && shape.coordinates.length > 1 ? measurePath(shape.coordinates) : null);
+      }
+      const path = paths.current.get(shapeId);
+      if (!path) return { train };
+
+      const match = projectOntoPath(path, { latitude: train.position.lat, longitude: train.position.lon });
+      if (!match) return { train };
+
+      const report = { speed: train.position.speed, bearing: train.position.bearing, timestamp: train.timestamp };
+      const motion = updateMotion(motions.current.get(train.tripId), match, report, receivedAt);
+      nextMotions.set(train.tripId, motion);
+      return { train, path, motion };
+    });
+
+    motions.current = nextMotions;
+    return result;
+  }, [trains]);
+
+  return useMemo(
+    () =>
+      matched.map(({ train, path, motion }) => {
+        if (!path || !motion) return train;
+        const { point, bearing } = getPointAlongPath(path, getMotionDistance(motion, now));
+        return {
+          ...train,
+          position: {
+            ...train.position,
+            lat: point.latitude,
+            lon: point.longitude,
+            bearing: motion.speed < 0 ? (bearing + 180) % 360 : bearing,
+          },
+        };
+      }),
+    [matched, now]
+  );
+}
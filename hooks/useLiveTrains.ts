@@ -1,12 +1,17 @@
 /**
  * Hook for fetching all live trains from GTFS-RT feed
- * Returns an array of all currently active trains with their positions
+ * Returns an array of all currently active trains with their positions, estimating positions that are stale
+ * or missing from the schedule
  */
 
 import { useCallback, useEffect, useState } from 'react';
+import { getTrainDisplayName } from '../services/api';
+import { PositionEstimator } from '../services/position-estimator';
 import { RealtimeService } from '../services/realtime';
-import { getRouteNameForTrainNumber } from '../services/api';
+import { isPositionStale } from '../utils/dead-reckoning';
+import { gtfsParser } from '../utils/gtfs-parser';
 import { logger } from '../utils/logger';
+import { getRouteColor } from '../utils/route-colors';
 
 export interface LiveTrain {
   trainNumber: string;
@@ -18,7 +23,10 @@ export interface LiveTrain {
     speed?: number;
   };
   routeName: string | null;
-  timestamp: number;
+  color?: string; // Route color, or operator color when several operators are loaded and the route is unknown
+  timestamp: number; // When the train was at position (ms)
+  estimated?: boolean; // Position placed from the schedule and last known delays, not reported by the feed
+  lastReportedAt?: number; // When the feed last reported the train, if its position is stale (ms)
 }
 
 /**
@@ -35,19 +43,79 @@ export function useLiveTrains(intervalMs: number = 15000, enabled: boolean = tru
   const fetchLiveTrains = useCallback(async () => {
     try {
       const activeTrains = await RealtimeService.getAllActiveTrains();
+      const multipleOperators = gtfsParser.getFeeds().length > 1;
 
-      const trains: LiveTrain[] = activeTrains.map(({ trainNumber, position }) => ({
+      const getColor = (tripId: string) => {
+        const routeId = gtfsParser.getTrainRouteId(tripId);
+        if (routeId !== undefined) return getRouteColor(routeId, gtfsParser.getRoute(routeId)).stroke;
+        return multipleOperators ? gtfsParser.getFeed(tripId)?.color : undefined;
+      };
+
+      const toLiveTrain = (
+        trainNumber: string,
+        tripId: string,
+        position: LiveTrain['position'],
+        timestamp: number
+      ) => ({
         trainNumber,
-        tripId: position.trip_id,
-        position: {
-          lat: position.latitude,
-          lon: position.longitude,
-          bearing: position.bearing,
-          speed: position.speed,
-        },
-        routeName: getRouteNameForTrainNumber(trainNumber),
-        timestamp: position.timestamp,
-      }));
+        tripId,
+        position,
+        routeName: getTrainDisplayName(tripId).routeName,
+        color: getColor(tripId),
+        timestamp,
+      });
+
+      // Trains with a stale position are placed from their schedule and last known delays instead
+      const snapshot = await RealtimeService.getSnapshot();
+      const now = Date.now();
+      const reported: LiveTrain[] = await Promise.all(
+        activeTrains.map(async ({ trainNumber, position }) => {
+          const train = toLiveTrain(
+            trainNumber,
+            position.trip_id,
+            { lat: position.latitude, lon: position.longitude, bearing: position.bearing, speed: position.speed },
+            position.timestamp
+          );
+          if (!isPositionStale(position.timestamp, now)) return train;
+
+          const near = { latitude: position.latitude, longitude: position.longitude };
+          const estimate = await PositionEstimator.estimateTrain(position.trip_id, now, snapshot, near);
+          if (!estimate) return { ...train, lastReportedAt: position.timestamp };
+          return {
+            ...train,
+            position: { lat: estimate.latitude, lon: estimate.longitude, bearing: estimate.bearing },
+            timestamp: now,
+            estimated: true,
+            lastReportedAt: position.timestamp,
+          };
+        })
+      );
+
+      // Trains that should be running but have no vehicle in the feed (or the feed is down)
+      // Reported runs are keyed by service date, so another day's run of the same trip is still estimated;
+      // a position without a start date stands for every run of its trip
+      const reportedRuns = new Set(
+        activeTrains.map(({ position }) => {
+          const tripId = gtfsParser.getScheduledTrip(position.trip_id)?.trip_id ?? position.trip_id;
+          return position.start_date ? `${tripId}@${position.start_date}` : tripId;
+        })
+      );
+      const missing: LiveTrain[] = (await PositionEstimator.getRunningTrains(now, snapshot))
+        .filter(
+          estimate =>
+            !reportedRuns.has(estimate.tripId) && !reportedRuns.has(`${estimate.tripId}@${estimate.serviceDate}`)
+        )
+        .map(estimate => ({
+          ...toLiveTrain(
+            gtfsParser.getTrainNumber(estimate.tripId),
+            estimate.tripId,
+            { lat: estimate.latitude, lon: estimate.longitude, bearing: estimate.bearing },
+            now
+          ),
+          estimated: true,
+        }));
+
+      const trains = [...reported, ...missing];
 
       setLiveTrains(trains);
       setLastUpdated(Date.now());
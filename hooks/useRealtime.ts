@@ -1,5 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { TrainAPIService } from '../services/api';
+import { TrainNotificationService } from '../services/notifications';
+import { TrainStorageService } from '../services/storage';
 import type { Train } from '../types/train';
 
 export function useRealtime(trains: Train[], setTrains: (t: Train[]) => void, intervalMs: number = 20000) {
@@ -14,6 +16,8 @@ export function useRealtime(trains: Train[], setTrains: (t: Train[]) => void, in
     let mounted = true;
 
     const refresh = async () => {
+      // Also runs with no saved trains, to cancel reminders of trains just removed
+      await TrainNotificationService.checkSavedTrains(await TrainStorageService.getSavedTrainRefs());
       if (trainsRef.current.length === 0) return;
       const updated = await Promise.all(trainsRef.current.map(t => TrainAPIService.refreshRealtimeData(t)));
       if (mounted) setTrainsRef.current(updated);
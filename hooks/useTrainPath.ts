@@ -0,0 +1,61 @@
+/**
+ * Hook for a selected train's path along its GTFS shape
+ * Splits the path at the train's live position and picks out the rider's segment to fit the camera to
+ */
+
+import { useMemo } from 'react';
+import { shapeLoader } from '../services/shape-loader';
+import type { Stop, Train } from '../types/train';
+import { gtfsParser } from '../utils/gtfs-parser';
+import { getRouteColor } from '../utils/route-colors';
+import { slicePath, splitPathAt, type PathPoint, type SplitPath } from '../utils/shape-path';
+
+export interface TrainPath extends SplitPath {
+  shapeId: string;
+  color: string; // Route color, matching the route's line on the map
+  segment: PathPoint[]; // From the rider's boarding to alighting station
+}
+
+function getStopPoint(stop: Stop | undefined): PathPoint | undefined {
+  return stop ? { latitude: stop.stop_lat, longitude: stop.stop_lon } : undefined;
+}
+
+/**
+ * Get the path of a train, or null if its trip has no shape
+ * The segment keeps its identity while the train moves, so it can drive camera fitting
+ */
+export function useTrainPath(train: Train | null): TrainPath | null {
+  const tripId = train?.tripId;
+  const fromCode = train?.fromCode;
+  const toCode = train?.toCode;
+  const lat = train?.realtime?.position?.lat;
+  const lon = train?.realtime?.position?.lon;
+
+  const route = useMemo(() => {
+    if (!tripId) return null;
+    const shapeId = gtfsParser.getTrainShapeId(tripId);
+    const shape = shapeId !== undefined ? shapeLoader.getShape(shapeId) : undefined;
+    if (!shape) return null;
+
+    const routeId = gtfsParser.getTrainRouteId(tripId);
+    const from = fromCode ? getStopPoint(gtfsParser.getStop(fromCode)) : undefined;
+    const to = toCode ? getStopPoint(gtfsParser.getStop(toCode)) : undefined;
+    return {
+      shape,
+      color: getRouteColor(routeId ?? shape.id, routeId !== undefined ? gtfsParser.getRoute(routeId) : undefined)
+        .stroke,
+      segment: from && to ? slicePath(shape.coordinates, from, to) : shape.coordinates,
+    };
+  }, [tripId, fromCode, toCode]);
+
+  return useMemo(() => {
+    if (!route) return null;
+    const position = lat !== undefined && lon !== undefined ? { latitude: lat, longitude: lon } : undefined;
+    return {
+      shapeId: route.shape.id,
+      color: route.color,
+      segment: route.segment,
+      ...splitPathAt(route.shape.coordinates, position),
+    };
+  }, [route, lat, lon]);
+}
@@ -1,23 +1,28 @@
 import * as Location from 'expo-location';
-import React, { useCallback, useMemo, useRef, useState } from 'react';
-import { Text, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Dimensions, Text, View } from 'react-native';
 import MapView, { PROVIDER_DEFAULT } from 'react-native-maps';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { AnimatedRoute } from '../components/map/AnimatedRoute';
 import { AnimatedStationMarker } from '../components/map/AnimatedStationMarker';
 import { LiveTrainMarker } from '../components/map/LiveTrainMarker';
 import MapSettingsPill, { MapType, RouteMode, StationMode, TrainMode } from '../components/map/MapSettingsPill';
+import RouteLegend, { type LegendRoute } from '../components/map/RouteLegend';
 import DepartureBoardModal from '../components/ui/departure-board-modal';
 import SlideUpModal from '../components/ui/slide-up-modal';
 import TrainDetailModal from '../components/ui/train-detail-modal';
 import { AppColors } from '../constants/theme';
 import { ModalProvider, useModalContext } from '../context/ModalContext';
+import { TimeZoneProvider } from '../context/TimeZoneContext';
 import { TrainProvider, useTrainContext } from '../context/TrainContext';
+import { useGlidingTrains } from '../hooks/useGlidingTrains';
 import { useLiveTrains } from '../hooks/useLiveTrains';
 import { useRealtime } from '../hooks/useRealtime';
 import { useShapes } from '../hooks/useShapes';
 import { useStations } from '../hooks/useStations';
+import { useTrainPath } from '../hooks/useTrainPath';
 import { TrainAPIService } from '../services/api';
+import { TrainNotificationService } from '../services/notifications';
 import type { ViewportBounds } from '../services/shape-loader';
 import { TrainStorageService } from '../services/storage';
 import type { Stop, Train } from '../types/train';
@@ -25,11 +30,17 @@ import { gtfsParser } from '../utils/gtfs-parser';
 import { getRouteColor, getStrokeWidthForZoom } from '../utils/route-colors';
 import { ClusteringConfig } from '../utils/clustering-config';
 import { clusterStations, getStationAbbreviation } from '../utils/station-clustering';
+import { formatLastReported } from '../utils/time-formatting';
 import { clusterTrains } from '../utils/train-clustering';
 import { logger } from '../utils/logger';
 import { ModalContent } from './ModalContent';
 import { styles } from './styles';
 
+// Opacity of the rest of the network while a train's path is highlighted
+const FADED_ROUTE_OPACITY = 0.25;
+// Opacity of the part of a highlighted path the train has already covered
+const TRAVELED_PATH_OPACITY = 0.4;
+
 // Convert map region to viewport bounds for lazy loading
 function regionToViewportBounds(region: {
   latitude: number;
@@ -96,6 +107,7 @@ function MapScreenInner() {
   const [routeMode, setRouteMode] = useState<RouteMode>('visible');
   const [stationMode, setStationMode] = useState<StationMode>('auto');
   const [trainMode, setTrainMode] = useState<TrainMode>('all');
+  const [hiddenRouteIds, setHiddenRouteIds] = useState<ReadonlySet<string>>(new Set());
   const { savedTrains, setSavedTrains, selectedTrain, setSelectedTrain } = useTrainContext();
   const insets = useSafeAreaInsets();
 
@@ -103,8 +115,22 @@ function MapScreenInner() {
   const stations = useStations(viewportBounds ?? undefined);
   const { visibleShapes } = useShapes(viewportBounds ?? undefined);
 
-  // Fetch all live trains from GTFS-RT (only when trainMode is 'all')
-  const { liveTrains } = useLiveTrains(15000, trainMode === 'all');
+  // Fetch all live trains from GTFS-RT (only when trainMode is 'all'), moving along their routes between updates
+  const { liveTrains: reportedTrains } = useLiveTrains(15000, trainMode === 'all');
+  const liveTrains = useGlidingTrains(reportedTrains);
+
+  // Path of the train open in the detail modal
+  const selectedPath = useTrainPath(showTrainDetail ? selectedTrain : null);
+  const selectedSegment = selectedPath?.segment;
+
+  // Fit the camera to the rider's segment above the half-height detail modal
+  useEffect(() => {
+    if (!selectedSegment || selectedSegment.length < 2) return;
+    mapRef.current?.fitToCoordinates(selectedSegment, {
+      edgePadding: { top: insets.top + 80, right: 48, bottom: Dimensions.get('window').height * 0.5 + 32, left: 48 },
+      animated: true,
+    });
+  }, [selectedSegment, insets.top]);
 
   // Handle train selection from list - animate map if has position, navigate to detail
   const handleTrainSelect = useCallback(
@@ -221,6 +247,7 @@ function MapScreenInner() {
       if (!train.tripId) return false;
       const saved = await TrainStorageService.saveTrain(train);
       if (saved) {
+        TrainNotificationService.requestPermission();
         const updatedTrains = await TrainStorageService.getSavedTrains();
         setSavedTrains(updatedTrains);
       }
@@ -332,7 +359,9 @@ function MapScreenInner() {
     if (!gtfsLoaded) return;
 
     (async () => {
-      const trains = await TrainStorageService.getSavedTrains();
+      // Shown with their last stored realtime status until the feed answers
+      const trains = await TrainStorageService.getSavedTrains({ realtime: false });
+      setSavedTrains(trains);
       const trainsWithRealtime = await Promise.all(trains.map(train => TrainAPIService.refreshRealtimeData(train)));
       setSavedTrains(trainsWithRealtime);
     })();
@@ -426,6 +455,38 @@ function MapScreenInner() {
   // Routes are always visible (no zoom-based fading)
   const shouldRenderRoutes = routeMode !== 'hidden';
 
+  // Link each visible shape to the route its trips run on, for colors and the legend
+  const routeShapes = useMemo(
+    () =>
+      visibleShapes.map(shape => {
+        const routeId = gtfsParser.getRouteIdForShape(shape.id);
+        const route = routeId !== undefined ? gtfsParser.getRoute(routeId) : undefined;
+        return { ...shape, routeId, route, colorScheme: getRouteColor(routeId ?? shape.id, route) };
+      }),
+    [visibleShapes]
+  );
+
+  const legendRoutes = useMemo(() => {
+    const routes = new Map<string, LegendRoute>();
+    routeShapes.forEach(({ routeId, route, colorScheme }) => {
+      if (routeId === undefined || routes.has(routeId)) return;
+      routes.set(routeId, {
+        id: routeId,
+        name: route?.route_long_name || route?.route_short_name || 'Unknown Route',
+        color: colorScheme.stroke,
+      });
+    });
+    return Array.from(routes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [routeShapes]);
+
+  const toggleRoute = useCallback((routeId: string) => {
+    setHiddenRouteIds(current => {
+      const next = new Set(current);
+      if (!next.delete(routeId)) next.add(routeId);
+      return next;
+    });
+  }, []);
+
   // Cluster stations based on zoom level and station mode
   const stationClusters = useMemo(() => {
     if (stationMode === 'hidden') return [];
@@ -467,19 +528,40 @@ function MapScreenInner() {
         onRegionChangeComplete={handleRegionChangeComplete}
       >
         {shouldRenderRoutes &&
-          visibleShapes.map(shape => {
-            const colorScheme = getRouteColor(shape.id);
-            return (
+          routeShapes
+            .filter(shape => shape.routeId === undefined || !hiddenRouteIds.has(shape.routeId))
+            .filter(shape => shape.id !== selectedPath?.shapeId)
+            .map(shape => (
               <AnimatedRoute
                 key={shape.id}
                 id={shape.id}
                 coordinates={shape.coordinates}
-                strokeColor={colorScheme.stroke}
+                strokeColor={shape.colorScheme.stroke}
                 strokeWidth={Math.max(2, baseStrokeWidth)}
-                zoomOpacity={colorScheme.opacity}
+                zoomOpacity={shape.colorScheme.opacity * (selectedPath ? FADED_ROUTE_OPACITY : 1)}
               />
-            );
-          })}
+            ))}
+
+        {/* Selected train's path: traveled portion dimmed, remaining portion bold */}
+        {selectedPath && selectedPath.traveled.length > 1 && (
+          <AnimatedRoute
+            key={`${selectedPath.shapeId}-traveled`}
+            id={`${selectedPath.shapeId}-traveled`}
+            coordinates={selectedPath.traveled}
+            strokeColor={selectedPath.color}
+            strokeWidth={Math.max(3, baseStrokeWidth)}
+            zoomOpacity={TRAVELED_PATH_OPACITY}
+          />
+        )}
+        {selectedPath && selectedPath.remaining.length > 1 && (
+          <AnimatedRoute
+            key={`${selectedPath.shapeId}-remaining`}
+            id={`${selectedPath.shapeId}-remaining`}
+            coordinates={selectedPath.remaining}
+            strokeColor={selectedPath.color}
+            strokeWidth={Math.max(5, baseStrokeWidth * 2)}
+          />
+        )}
 
         {stationClusters.map(cluster => {
           // Show full name when zoomed in enough
@@ -488,7 +570,7 @@ function MapScreenInner() {
             ? `${cluster.stations.length}+`
             : showFullName
               ? cluster.stations[0].name
-              : getStationAbbreviation(cluster.stations[0].id, cluster.stations[0].name);
+              : getStationAbbreviation(gtfsParser.getStopCode(cluster.stations[0].id), cluster.stations[0].name);
           return (
             <AnimatedStationMarker
               key={cluster.id}
@@ -569,7 +651,10 @@ function MapScreenInner() {
                 tripId: train.tripId,
                 trainNumber: train.trainNumber,
                 routeName: train.routeName,
+                color: train.color,
                 position: train.position,
+                estimated: train.estimated,
+                lastReportedAt: train.lastReportedAt,
                 isSaved: !!savedTrain,
                 savedTrain,
               };
@@ -582,6 +667,7 @@ function MapScreenInner() {
                 key={cluster.id}
                 trainNumber={cluster.trainNumber || ''}
                 routeName={cluster.routeName || null}
+                color={cluster.color}
                 coordinate={{
                   latitude: cluster.lat,
                   longitude: cluster.lon,
@@ -589,6 +675,10 @@ function MapScreenInner() {
                 isSaved={cluster.isSaved}
                 isCluster={cluster.isCluster}
                 clusterCount={cluster.trains.length}
+                estimated={cluster.estimated}
+                lastReported={
+                  cluster.lastReportedAt !== undefined ? formatLastReported(cluster.lastReportedAt) : undefined
+                }
                 onPress={() => {
                   if (!cluster.isCluster && cluster.trains[0]) {
                     const trainData = cluster.trains[0] as any;
@@ -606,6 +696,15 @@ function MapScreenInner() {
           })()}
       </MapView>
 
+      {shouldRenderRoutes && (
+        <RouteLegend
+          top={insets.top + 16}
+          routes={legendRoutes}
+          hiddenRouteIds={hiddenRouteIds}
+          onToggleRoute={toggleRoute}
+        />
+      )}
+
       <MapSettingsPill
         top={insets.top + 16}
         routeMode={routeMode}
@@ -693,9 +792,11 @@ function MapScreenInner() {
 export default function MapScreen() {
   return (
     <TrainProvider>
-      <ModalProvider>
-        <MapScreenInner />
-      </ModalProvider>
+      <TimeZoneProvider>
+        <ModalProvider>
+          <MapScreenInner />
+        </ModalProvider>
+      </TimeZoneProvider>
     </TrainProvider>
   );
 }
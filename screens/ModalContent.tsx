@@ -1,16 +1,25 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import React, { useContext, useEffect, useRef, useState } from 'react';
 import { Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { TrainList } from '../components/TrainList';
-import { TwoStationSearch } from '../components/TwoStationSearch';
+import { TwoStationSearch, type SelectedLeg } from '../components/TwoStationSearch';
+import DiagnosticsModal from '../components/ui/diagnostics-modal';
 import { SlideUpModalContext } from '../components/ui/slide-up-modal';
 import { useTrainContext } from '../context/TrainContext';
 import { useFrequentlyUsed } from '../hooks/useFrequentlyUsed';
-import { ensureFreshGTFS, hasCachedGTFS, isCacheStale, loadCachedGTFS } from '../services/gtfs-sync';
+import { TrainAPIService } from '../services/api';
+import {
+  ensureFreshGTFS,
+  getCachedFeedInfos,
+  hasCachedGTFS,
+  isCacheStale,
+  loadCachedGTFS,
+} from '../services/gtfs-sync';
+import { TrainNotificationService } from '../services/notifications';
 import { TrainStorageService } from '../services/storage';
 import type { SavedTrainRef, Train } from '../types/train';
 import { COLORS, styles } from './styles';
+import { formatDateForDisplay, parseGTFSDate } from '../utils/date-helpers';
 import { parseTimeToDate } from '../utils/time-formatting';
 import { logger } from '../utils/logger';
 
@@ -24,6 +33,11 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
   const [refreshProgress, setRefreshProgress] = useState(0);
   const [refreshStep, setRefreshStep] = useState('');
   const [refreshPhases, setRefreshPhases] = useState<string[]>([]);
+  const [scheduleValidThrough, setScheduleValidThrough] = useState<string | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  // Set while a refresh can be cancelled, i.e. a cached schedule is loaded to fall back on
+  const [canCancelRefresh, setCanCancelRefresh] = useState(false);
+  const refreshControllerRef = useRef<AbortController | null>(null);
   const { refresh: refreshFrequentlyUsed } = useFrequentlyUsed();
 
   // Refs to avoid stale closures in useEffect
@@ -44,12 +58,25 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
     if (isLoading) return;
 
     const loadSavedTrains = async () => {
-      const trains = await TrainStorageService.getSavedTrains();
+      // Once the schedule is loaded, arrival dates are known and past trips can be archived
+      await TrainStorageService.archivePastTrains();
+      // Shown with their last stored realtime status until the feed answers
+      const trains = await TrainStorageService.getSavedTrains({ realtime: false });
       setSavedTrains(trains);
+      setSavedTrains(await Promise.all(trains.map(train => TrainAPIService.refreshRealtimeData(train))));
     };
     loadSavedTrains();
   }, [setSavedTrains, isLoading]);
 
+  // Show how long the cached schedules are valid (the first to run out) once GTFS data is loaded or refreshed
+  useEffect(() => {
+    if (isLoading) return;
+    getCachedFeedInfos().then(infos => {
+      const endDates = infos.flatMap(({ feedInfo }) => (feedInfo?.feed_end_date ? [feedInfo.feed_end_date] : []));
+      setScheduleValidThrough(endDates.length > 0 ? endDates.sort()[0] : null);
+    });
+  }, [isLoading]);
+
   // Disable modal resizing when loading or refreshing GTFS data
   useEffect(() => {
     setGestureEnabled?.(!isLoading);
@@ -81,16 +108,23 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
             setRefreshStep('Checking GTFS cache');
 
             setRefreshPhases([]);
-            await ensureFreshGTFS(update => {
-              setRefreshProgress(update.progress);
-              setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
-              setRefreshPhases(prev => {
-                if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
-                  return [...prev, update.step];
-                }
-                return prev;
-              });
-            });
+            refreshControllerRef.current = new AbortController();
+            setCanCancelRefresh(true);
+            await ensureFreshGTFS(
+              update => {
+                setRefreshProgress(update.progress);
+                setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
+                setRefreshPhases(prev => {
+                  if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
+                    return [...prev, update.step];
+                  }
+                  return prev;
+                });
+              },
+              { signal: refreshControllerRef.current.signal }
+            );
+            refreshControllerRef.current = null;
+            setCanCancelRefresh(false);
             await refreshFrequentlyUsedRef.current();
             setRefreshProgress(1);
             setRefreshStep('Refresh complete');
@@ -127,6 +161,8 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
       } catch (error) {
         logger.error('GTFS initialization failed:', error);
         setRefreshStep('Failed to load data');
+        refreshControllerRef.current = null;
+        setCanCancelRefresh(false);
         setIsLoadingCache(false);
         setIsRefreshing(false);
       }
@@ -146,6 +182,7 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
     };
     const saved = await TrainStorageService.saveTrainRef(ref);
     if (saved) {
+      TrainNotificationService.requestPermission();
       const updatedTrains = await TrainStorageService.getSavedTrains();
       setSavedTrains(updatedTrains);
     }
@@ -161,17 +198,26 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
     snapToPoint?.('min'); // Collapse to 35%
     try {
       setRefreshPhases([]);
-      const result = await ensureFreshGTFS(update => {
-        setRefreshProgress(update.progress);
-        setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
-        setRefreshPhases(prev => {
-          // Only add if not already present as last
-          if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
-            return [...prev, update.step];
-          }
-          return prev;
-        });
-      });
+      refreshControllerRef.current = new AbortController();
+      setCanCancelRefresh(true);
+      const result = await ensureFreshGTFS(
+        update => {
+          setRefreshProgress(update.progress);
+          setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
+          setRefreshPhases(prev => {
+            // Only add if not already present as last
+            if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
+              return [...prev, update.step];
+            }
+            return prev;
+          });
+        },
+        { signal: refreshControllerRef.current.signal }
+      );
+      if (result.cancelled) {
+        setIsRefreshing(false);
+        return;
+      }
       if (result.usedCache) {
         setIsRefreshing(false);
         Alert.alert(
@@ -195,6 +241,8 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
       setRefreshPhases(prev => (prev[prev.length - 1] === 'Refresh failed' ? prev : [...prev, 'Refresh failed']));
       Alert.alert('Refresh Failed', 'An error occurred while refreshing GTFS data.');
     } finally {
+      refreshControllerRef.current = null;
+      setCanCancelRefresh(false);
       setIsRefreshing(false);
     }
   };
@@ -207,18 +255,22 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
     snapToPoint?.('min');
     try {
       setRefreshPhases([]);
-      // Force refresh by clearing last fetch
-      await AsyncStorage.removeItem('GTFS_LAST_FETCH');
-      await ensureFreshGTFS(update => {
-        setRefreshProgress(update.progress);
-        setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
-        setRefreshPhases(prev => {
-          if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
-            return [...prev, update.step];
-          }
-          return prev;
-        });
-      });
+      refreshControllerRef.current = new AbortController();
+      setCanCancelRefresh(true);
+      const result = await ensureFreshGTFS(
+        update => {
+          setRefreshProgress(update.progress);
+          setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
+          setRefreshPhases(prev => {
+            if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
+              return [...prev, update.step];
+            }
+            return prev;
+          });
+        },
+        { force: true, signal: refreshControllerRef.current.signal }
+      );
+      if (result.cancelled) return;
       await refreshFrequentlyUsed();
       setRefreshProgress(1);
       setRefreshStep('Refresh complete');
@@ -230,10 +282,56 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
       setRefreshPhases(prev => (prev[prev.length - 1] === 'Refresh failed' ? prev : [...prev, 'Refresh failed']));
       Alert.alert('Refresh Failed', 'An error occurred while refreshing GTFS data.');
     } finally {
+      refreshControllerRef.current = null;
+      setCanCancelRefresh(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  // Load schedules of newly enabled operators and drop disabled ones, downloading only what is not cached
+  const handleFeedsChanged = async () => {
+    setIsRefreshing(true);
+    setRefreshProgress(0.05);
+    setRefreshStep('Updating operators');
+    setIsSearchFocused(false);
+    snapToPoint?.('min');
+    try {
+      setRefreshPhases([]);
+      refreshControllerRef.current = new AbortController();
+      setCanCancelRefresh(true);
+      const result = await ensureFreshGTFS(
+        update => {
+          setRefreshProgress(update.progress);
+          setRefreshStep(update.step + (update.detail ? ` • ${update.detail}` : ''));
+          setRefreshPhases(prev => {
+            if (prev.length === 0 || prev[prev.length - 1] !== update.step) {
+              return [...prev, update.step];
+            }
+            return prev;
+          });
+        },
+        { signal: refreshControllerRef.current.signal }
+      );
+      if (result.cancelled) return;
+      await refreshFrequentlyUsed();
+      setRefreshProgress(1);
+      setRefreshStep('Refresh complete');
+    } catch (error) {
+      logger.error('Operator update failed:', error);
+      setRefreshStep('Refresh failed');
+      Alert.alert('Refresh Failed', 'An error occurred while loading operator schedules.');
+    } finally {
+      refreshControllerRef.current = null;
+      setCanCancelRefresh(false);
       setIsRefreshing(false);
     }
   };
 
+  // Stop the running refresh and keep using the cached schedule
+  const handleCancelRefresh = () => {
+    refreshControllerRef.current?.abort();
+  };
+
   // Sort saved trains by departure time (earliest first)
   const flights = [...savedTrains].sort((a, b) => {
     // First compare by travel date if available
@@ -249,6 +347,9 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
       }
     }
     // If same day, compare by departure time
+    if (a.departAt !== undefined && b.departAt !== undefined) {
+      return a.departAt - b.departAt;
+    }
     const now = new Date();
     const departA = parseTimeToDate(a.departTime, now);
     const departB = parseTimeToDate(b.departTime, now);
@@ -272,14 +373,35 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
     snapToPoint?.('min');
   };
 
-  const handleSelectTrip = async (tripId: string, fromCode: string, toCode: string, date: Date) => {
-    await saveTrainWithSegment(tripId, fromCode, toCode, date);
+  // Each train of a journey with connections is saved as its own segment
+  const handleSelectItinerary = async (legs: SelectedLeg[]) => {
+    if (legs.length === 1) {
+      await saveTrainWithSegment(legs[0].tripId, legs[0].fromCode, legs[0].toCode, legs[0].date);
+    } else {
+      const saved = await TrainStorageService.saveItinerary(
+        legs.map(leg => ({
+          tripId: leg.tripId,
+          fromCode: leg.fromCode,
+          toCode: leg.toCode,
+          travelDate: leg.date.getTime(),
+        }))
+      );
+      if (saved) {
+        TrainNotificationService.requestPermission();
+        const updatedTrains = await TrainStorageService.getSavedTrains();
+        setSavedTrains(updatedTrains);
+      }
+    }
     setIsSearchFocused(false);
     snapToPoint?.('min');
   };
 
   const handleDeleteTrain = async (train: Train) => {
-    await TrainStorageService.deleteTrainByTripId(train.tripId || '', train.fromCode, train.toCode);
+    if (train.itineraryId) {
+      await TrainStorageService.deleteItinerary(train.itineraryId);
+    } else {
+      await TrainStorageService.deleteTrainByTripId(train.tripId || '', train.fromCode, train.toCode, train.travelDate);
+    }
     const updatedTrains = await TrainStorageService.getSavedTrains();
     setSavedTrains(updatedTrains);
   };
@@ -349,11 +471,39 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
                   This happens once per week to keep schedules current
                 </Text>
               )}
+              {isRefreshing && canCancelRefresh && (
+                <TouchableOpacity
+                  onPress={handleCancelRefresh}
+                  style={{ marginTop: 12, paddingVertical: 6, paddingHorizontal: 16 }}
+                  activeOpacity={0.7}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel refresh and keep current schedule"
+                >
+                  <Text style={{ color: COLORS.primary, fontSize: 14, fontWeight: '600' }}>Cancel</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         )}
 
         {isSearchFocused && <Text style={styles.subtitle}>Enter departure and arrival stations</Text>}
+        {!isSearchFocused && !isLoading && (
+          <TouchableOpacity
+            onPress={() => setShowDiagnostics(true)}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Show data sources"
+          >
+            <Text style={styles.subtitle}>
+              {scheduleValidThrough
+                ? `Schedule valid through ${formatDateForDisplay(parseGTFSDate(scheduleValidThrough))} · `
+                : ''}
+              <Text style={{ color: COLORS.primary }}>Data sources</Text>
+            </Text>
+          </TouchableOpacity>
+        )}
 
         {/* Search Button (when not searching) */}
         {!isLoading && !isSearchFocused && (
@@ -385,7 +535,7 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
         keyboardShouldPersistTaps="handled"
       >
         {isSearchFocused && !isCollapsed && (
-          <TwoStationSearch onSelectTrip={handleSelectTrip} onClose={handleCloseSearch} />
+          <TwoStationSearch onSelectItinerary={handleSelectItinerary} onClose={handleCloseSearch} />
         )}
         {!isSearchFocused && !isLoading && (
           <TrainList
@@ -398,33 +548,11 @@ export function ModalContent({ onTrainSelect }: { onTrainSelect?: (train: Train)
           />
         )}
       </ScrollView>
+      <DiagnosticsModal
+        visible={showDiagnostics}
+        onClose={() => setShowDiagnostics(false)}
+        onFeedsChanged={handleFeedsChanged}
+      />
     </View>
   );
 }
-
-// parseTimeToDate is now imported from utils/time-formatting
-
-function getCountdownForTrain(train: Train): {
-  value: number;
-  unit: 'DAYS' | 'HOURS' | 'MINUTES' | 'SECONDS';
-  past: boolean;
-} {
-  if (train.daysAway && train.daysAway > 0) {
-    return { value: Math.round(train.daysAway), unit: 'DAYS', past: false };
-  }
-  const now = new Date();
-  const baseDate = new Date(now);
-  const departDate = parseTimeToDate(train.departTime, baseDate);
-  let deltaSec = (departDate.getTime() - now.getTime()) / 1000;
-  const past = deltaSec < 0;
-  const absSec = Math.abs(deltaSec);
-
-  let hours = Math.round(absSec / 3600);
-  if (hours >= 1) return { value: hours, unit: 'HOURS', past };
-  let minutes = Math.round(absSec / 60);
-  if (minutes >= 60) return { value: 1, unit: 'HOURS', past };
-  if (minutes >= 1) return { value: minutes, unit: 'MINUTES', past };
-  let seconds = Math.round(absSec);
-  if (seconds >= 60) return { value: 1, unit: 'MINUTES', past };
-  return { value: seconds, unit: 'SECONDS', past };
-}
@@ -0,0 +1,88 @@
+/**
+ * Background refresh
+ * An OS background task that keeps data current while the app is closed: checks saved trains that are due
+ * or under way against the realtime feed, so their notifications still fire and the app opens showing their
+ * last status, and runs the weekly GTFS sync on Wi-Fi, so the app opens on a fresh schedule
+ * The task is defined when this module is first imported, which must happen at app startup
+ */
+
+import * as BackgroundTask from 'expo-background-task';
+import * as Network from 'expo-network';
+import * as TaskManager from 'expo-task-manager';
+import { AppState } from 'react-native';
+import { gtfsParser } from '../utils/gtfs-parser';
+import { logger } from '../utils/logger';
+import { TrainAPIService } from './api';
+import { ensureFreshGTFS, isCacheStale, loadCachedGTFS } from './gtfs-sync';
+import { TrainNotificationService } from './notifications';
+import { TrainStorageService } from './storage';
+
+export const BACKGROUND_REFRESH_TASK = 'background-refresh';
+
+// The OS runs the task at most this often (15 minutes is the lowest it allows), and usually less
+const MINIMUM_INTERVAL_MINUTES = 15;
+
+/**
+ * Whether a schedule download won't use mobile data
+ */
+async function isOnWifi(): Promise<boolean> {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return state.type === Network.NetworkStateType.WIFI && state.isInternetReachable !== false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Refresh saved trains and, on Wi-Fi, the schedule
+ */
+export async function runBackgroundRefresh(): Promise<void> {
+  // A background launch starts without the schedule loaded
+  if (!gtfsParser.isLoaded) await loadCachedGTFS();
+
+  // While the app is open, the sync runs in the foreground where its progress is shown
+  if (AppState.currentState !== 'active' && (await isOnWifi()) && (await isCacheStale())) {
+    logger.info('[Background] Syncing GTFS schedules');
+    await ensureFreshGTFS();
+  }
+
+  await TrainStorageService.archivePastTrains();
+  await TrainNotificationService.checkSavedTrains(await TrainStorageService.getSavedTrainRefs());
+
+  // Store the status of trains travelling today (or still under way from yesterday) for the next launch
+  const saved = await TrainStorageService.getSavedTrains({ realtime: false });
+  const travelling = saved.filter(train => train.daysAway <= 0);
+  if (travelling.length > 0) {
+    await TrainStorageService.saveRealtimeStatuses(
+      await Promise.all(travelling.map(train => TrainAPIService.refreshRealtimeData(train)))
+    );
+  }
+}
+
+TaskManager.defineTask(BACKGROUND_REFRESH_TASK, async () => {
+  try {
+    await runBackgroundRefresh();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    logger.error('[Background] Refresh failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Ask the OS to run the background refresh periodically (called on app startup)
+ * Does nothing when the rider has turned off background refresh for the app
+ */
+export async function registerBackgroundRefresh(): Promise<void> {
+  try {
+    if ((await BackgroundTask.getStatusAsync()) !== BackgroundTask.BackgroundTaskStatus.Available) {
+      logger.info('[Background] Background refresh is restricted');
+      return;
+    }
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_REFRESH_TASK)) return;
+    await BackgroundTask.registerTaskAsync(BACKGROUND_REFRESH_TASK, { minimumInterval: MINIMUM_INTERVAL_MINUTES });
+  } catch (error) {
+    logger.error('[Background] Failed to register background refresh:', error);
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * On-device GTFS cache
+ * Parsed GTFS data is stored as JSON files in the app's document directory, one folder per feed:
+ * - meta.json holds the schema version, fetch time and chunk counts. It is written last,
+ *   so a cache without it is incomplete and ignored
+ * - Small tables (routes, stops, trips, calendars, agencies, transfers) are one file each
+ * - stop_times and shapes are split into chunk files by trip/shape so no single file is huge
+ * A new data set is written to a staging folder and swapped in once complete, so a failed write
+ * keeps the previous cache
+ * Caches from older app versions (JSON strings in AsyncStorage, or files for Amtrak only) are
+ * migrated to the Amtrak feed's folder on first read.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { DEFAULT_FEED_ID } from '../constants/feeds';
+import type {
+  Agency,
+  Calendar,
+  CalendarDate,
+  FeedInfo,
+  Route,
+  Shape,
+  Stop,
+  StopTime,
+  Transfer,
+  Trip,
+} from '../types/train';
+import { logger } from '../utils/logger';
+
+// Bump when the on-disk layout changes; caches with another version are discarded
+export const GTFS_CACHE_SCHEMA_VERSION = 4; // 2: trips carry shape_id, 3: stops carry platform_code, 4: transfers
+
+const GTFS_CACHE_DIR = 'gtfs-cache';
+const STAGING_DIR_SUFFIX = '.staging'; // Folder a feed's new cache is written to before it replaces the old one
+const CHUNK_SIZE = 200; // trips or shapes per chunk file
+
+const GTFS_FILES = {
+  meta: 'meta.json',
+  routes: 'routes.json',
+  stops: 'stops.json',
+  trips: 'trips.json',
+  calendar: 'calendar.json',
+  calendarDates: 'calendar_dates.json',
+  agencies: 'agency.json',
+  transfers: 'transfers.json',
+  stopTimesChunk: (index: number) => `stop_times_${index}.json`,
+  shapesChunk: (index: number) => `shapes_${index}.json`,
+};
+
+// AsyncStorage keys used before the file cache existed
+const LEGACY_STORAGE_KEYS = {
+  LAST_FETCH: 'GTFS_LAST_FETCH',
+  ROUTES: 'GTFS_ROUTES_JSON',
+  STOPS: 'GTFS_STOPS_JSON',
+  STOP_TIMES: 'GTFS_STOP_TIMES_JSON',
+  SHAPES: 'GTFS_SHAPES_JSON',
+  TRIPS: 'GTFS_TRIPS_JSON',
+  CALENDAR: 'GTFS_CALENDAR_JSON',
+  CALENDAR_DATES: 'GTFS_CALENDAR_DATES_JSON',
+  AGENCIES: 'GTFS_AGENCY_JSON',
+};
+
+export interface GTFSData {
+  routes: Route[];
+  stops: Stop[];
+  stopTimes: Record<string, StopTime[]>; // keyed by trip_id
+  shapes: Record<string, Shape[]>; // keyed by shape_id
+  trips: Trip[];
+  calendar: Calendar[];
+  calendarDates: CalendarDate[];
+  agencies: Agency[];
+  transfers: Transfer[];
+}
+
+export interface GTFSCacheMeta {
+  schemaVersion: number;
+  fetchedAt: number; // When the feed was last downloaded or confirmed unchanged (ms since epoch)
+  etag?: string; // HTTP validators of the downloaded GTFS.zip, for conditional requests
+  lastModified?: string;
+  feedInfo?: FeedInfo; // From feed_info.txt, when the feed has one
+  rowCounts?: Record<string, number>; // Valid rows per GTFS file, to sanity check the next feed against
+  stopTimeChunks: number;
+  shapeChunks: number;
+}
+
+// Where a cached data set came from
+export type GTFSCacheSource = Pick<GTFSCacheMeta, 'fetchedAt' | 'etag' | 'lastModified' | 'feedInfo' | 'rowCounts'>;
+
+let legacyMigration: Promise<void> | null = null;
+
+function getCacheDir(feedId: string): Directory {
+  return new Directory(Paths.document, GTFS_CACHE_DIR, feedId);
+}
+
+function getStagingDir(feedId: string): Directory {
+  return new Directory(Paths.document, GTFS_CACHE_DIR, `${feedId}${STAGING_DIR_SUFFIX}`);
+}
+
+async function readJSON<T>(feedId: string, filename: string): Promise<T | null> {
+  try {
+    const file = new File(getCacheDir(feedId), filename);
+    if (!file.exists) return null;
+    return JSON.parse(await file.text()) as T;
+  } catch (error) {
+    logger.warn(`[GTFS Cache] Could not read ${feedId}/${filename}:`, error);
+    return null;
+  }
+}
+
+function writeJSON(dir: Directory, filename: string, data: unknown): void {
+  const file = new File(dir, filename);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(data));
+}
+
+/**
+ * Split a keyed record into chunks of at most `size` keys
+ */
+function chunkRecord<T>(record: Record<string, T>, size: number): Record<string, T>[] {
+  const chunks: Record<string, T>[] = [];
+  let current: Record<string, T> = {};
+  let count = 0;
+  for (const [key, value] of Object.entries(record)) {
+    current[key] = value;
+    if (++count === size) {
+      chunks.push(current);
+      current = {};
+      count = 0;
+    }
+  }
+  if (count > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Read and merge chunk files, or null if any chunk is missing
+ */
+async function readChunks<T>(
+  feedId: string,
+  getFilename: (index: number) => string,
+  count: number
+): Promise<Record<string, T> | null> {
+  const merged: Record<string, T> = {};
+  for (let i = 0; i < count; i++) {
+    const chunk = await readJSON<Record<string, T>>(feedId, getFilename(i));
+    if (!chunk) return null;
+    Object.assign(merged, chunk);
+  }
+  return merged;
+}
+
+/**
+ * Move cache files written before caches were kept per feed into the Amtrak feed's folder
+ */
+function migrateSingleFeedCache(): void {
+  const root = new Directory(Paths.document, GTFS_CACHE_DIR);
+  if (!root.exists) return;
+  const files = root.list().filter((entry): entry is File => entry instanceof File);
+  if (files.length === 0) return;
+
+  const target = getCacheDir(DEFAULT_FEED_ID);
+  target.create({ intermediates: true, idempotent: true });
+  // meta.json moves last, so an interrupted move leaves the cache incomplete rather than corrupt
+  files.sort((a, b) => Number(a.name === GTFS_FILES.meta) - Number(b.name === GTFS_FILES.meta));
+  for (const file of files) file.move(target);
+  logger.info(`[GTFS Cache] Moved cache into ${DEFAULT_FEED_ID}/`);
+}
+
+/**
+ * Move caches left by older app versions (in AsyncStorage, or files for a single feed) into
+ * the per-feed file cache
+ * Runs at most once per app session
+ */
+function migrateLegacyCache(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      try {
+        migrateSingleFeedCache();
+      } catch (error) {
+        logger.error('[GTFS Cache] Cache folder migration failed:', error);
+      }
+      try {
+        const legacyKeys = Object.values(LEGACY_STORAGE_KEYS);
+        const entries = Object.fromEntries(await AsyncStorage.multiGet(legacyKeys));
+        if (!legacyKeys.some(key => entries[key])) return;
+
+        const parse = <T>(key: string): T | null => {
+          try {
+            return entries[key] ? (JSON.parse(entries[key]) as T) : null;
+          } catch {
+            return null;
+          }
+        };
+        const routes = parse<Route[]>(LEGACY_STORAGE_KEYS.ROUTES);
+        const stops = parse<Stop[]>(LEGACY_STORAGE_KEYS.STOPS);
+        const stopTimes = parse<Record<string, StopTime[]>>(LEGACY_STORAGE_KEYS.STOP_TIMES);
+
+        if (routes && stops && stopTimes) {
+          // Old caches lack files and fields the app now relies on (calendars, agencies, trip service ids),
+          // so the data only bridges until the next sync, which sees it as never fetched and downloads at once
+          await writeGTFSCache(
+            DEFAULT_FEED_ID,
+            {
+              routes,
+              stops,
+              stopTimes,
+              shapes: parse<Record<string, Shape[]>>(LEGACY_STORAGE_KEYS.SHAPES) || {},
+              trips: parse<Trip[]>(LEGACY_STORAGE_KEYS.TRIPS) || [],
+              calendar: parse<Calendar[]>(LEGACY_STORAGE_KEYS.CALENDAR) || [],
+              calendarDates: parse<CalendarDate[]>(LEGACY_STORAGE_KEYS.CALENDAR_DATES) || [],
+              agencies: parse<Agency[]>(LEGACY_STORAGE_KEYS.AGENCIES) || [],
+              transfers: [],
+            },
+            { fetchedAt: 0 }
+          );
+          logger.info('[GTFS Cache] Migrated cache from AsyncStorage');
+        }
+
+        await AsyncStorage.multiRemove(legacyKeys);
+      } catch (error) {
+        logger.error('[GTFS Cache] Legacy cache migration failed:', error);
+      }
+    })();
+  }
+  return legacyMigration;
+}
+
+/**
+ * Finish swapping in a complete staged cache, if the app stopped after the old cache was deleted
+ */
+function recoverStagedCache(feedId: string): void {
+  try {
+    const staging = getStagingDir(feedId);
+    if (getCacheDir(feedId).exists || !new File(staging, GTFS_FILES.meta).exists) return;
+    staging.rename(feedId);
+    logger.info(`[GTFS Cache] Recovered staged ${feedId} cache`);
+  } catch (error) {
+    logger.error(`[GTFS Cache] Failed to recover staged ${feedId} cache:`, error);
+  }
+}
+
+/**
+ * Get the metadata of a feed's complete cache with the current schema, or null if there is none
+ */
+export async function readGTFSCacheMeta(feedId: string): Promise<GTFSCacheMeta | null> {
+  await migrateLegacyCache();
+  recoverStagedCache(feedId);
+  const meta = await readJSON<GTFSCacheMeta>(feedId, GTFS_FILES.meta);
+  if (!meta) return null;
+  if (meta.schemaVersion !== GTFS_CACHE_SCHEMA_VERSION) {
+    logger.info(`[GTFS Cache] Discarding ${feedId} cache with schema version ${meta.schemaVersion}`);
+    clearGTFSCache(feedId);
+    return null;
+  }
+  return meta;
+}
+
+/**
+ * Read a feed's full cached GTFS data set, or null if the cache is missing or incomplete
+ * Ids are as published in the feed, without a namespace
+ */
+export async function readGTFSCache(feedId: string): Promise<GTFSData | null> {
+  const meta = await readGTFSCacheMeta(feedId);
+  if (!meta) return null;
+
+  const routes = await readJSON<Route[]>(feedId, GTFS_FILES.routes);
+  const stops = await readJSON<Stop[]>(feedId, GTFS_FILES.stops);
+  const stopTimes = await readChunks<StopTime[]>(feedId, GTFS_FILES.stopTimesChunk, meta.stopTimeChunks);
+  if (!routes || !stops || !stopTimes) return null;
+
+  return {
+    routes,
+    stops,
+    stopTimes,
+    shapes: (await readChunks<Shape[]>(feedId, GTFS_FILES.shapesChunk, meta.shapeChunks)) || {},
+    trips: (await readJSON<Trip[]>(feedId, GTFS_FILES.trips)) || [],
+    calendar: (await readJSON<Calendar[]>(feedId, GTFS_FILES.calendar)) || [],
+    calendarDates: (await readJSON<CalendarDate[]>(feedId, GTFS_FILES.calendarDates)) || [],
+    agencies: (await readJSON<Agency[]>(feedId, GTFS_FILES.agencies)) || [],
+    transfers: (await readJSON<Transfer[]>(feedId, GTFS_FILES.transfers)) || [],
+  };
+}
+
+/**
+ * Replace a feed's cache with a new data set
+ * @param source - When and from which feed version the data was downloaded
+ */
+export async function writeGTFSCache(
+  feedId: string,
+  data: GTFSData,
+  source: GTFSCacheSource = { fetchedAt: Date.now() }
+): Promise<void> {
+  const staging = getStagingDir(feedId);
+  if (staging.exists) staging.delete();
+  staging.create({ intermediates: true, idempotent: true });
+
+  writeJSON(staging, GTFS_FILES.routes, data.routes);
+  writeJSON(staging, GTFS_FILES.stops, data.stops);
+  writeJSON(staging, GTFS_FILES.trips, data.trips);
+  writeJSON(staging, GTFS_FILES.calendar, data.calendar);
+  writeJSON(staging, GTFS_FILES.calendarDates, data.calendarDates);
+  writeJSON(staging, GTFS_FILES.agencies, data.agencies);
+  writeJSON(staging, GTFS_FILES.transfers, data.transfers);
+
+  const stopTimeChunks = chunkRecord(data.stopTimes, CHUNK_SIZE);
+  stopTimeChunks.forEach((chunk, index) => writeJSON(staging, GTFS_FILES.stopTimesChunk(index), chunk));
+  const shapeChunks = chunkRecord(data.shapes, CHUNK_SIZE);
+  shapeChunks.forEach((chunk, index) => writeJSON(staging, GTFS_FILES.shapesChunk(index), chunk));
+
+  // Written last: its presence marks the cache as complete
+  const meta: GTFSCacheMeta = {
+    ...source,
+    schemaVersion: GTFS_CACHE_SCHEMA_VERSION,
+    stopTimeChunks: stopTimeChunks.length,
+    shapeChunks: shapeChunks.length,
+  };
+  writeJSON(staging, GTFS_FILES.meta, meta);
+
+  // The old cache is only removed once the new one is complete
+  const cacheDir = getCacheDir(feedId);
+  if (cacheDir.exists) cacheDir.delete();
+  staging.rename(feedId);
+}
+
+/**
+ * Record that a cached feed was checked and found unchanged
+ */
+export async function touchGTFSCache(feedId: string, fetchedAt: number = Date.now()): Promise<void> {
+  const meta = await readGTFSCacheMeta(feedId);
+  if (meta) writeJSON(getCacheDir(feedId), GTFS_FILES.meta, { ...meta, fetchedAt });
+}
+
+/**
+ * Delete every cached GTFS file of a feed, including a partly written new cache
+ */
+export function clearGTFSCache(feedId: string): void {
+  try {
+    for (const dir of [getCacheDir(feedId), getStagingDir(feedId)]) {
+      if (dir.exists) dir.delete();
+    }
+  } catch (error) {
+    logger.error(`[GTFS Cache] Failed to clear ${feedId} cache:`, error);
+  }
+}
@@ -1,134 +1,244 @@
 /**
  * GTFS weekly sync service
- * - Checks freshness (7 days)
- * - Fetches GTFS.zip from Amtrak
- * - Unzips in memory (fflate) and parses CSVs
- * - Caches parsed JSON in AsyncStorage
- * - Applies cached data to the GTFS parser
+ * For each operator or custom source enabled in preferences (see constants/feeds, utils/custom-feeds):
+ * - Checks freshness (7 days, or sooner when the feed's end date is near)
+ * - Fetches its GTFS zip, conditionally (ETag / Last-Modified) when a cache exists, or reads it from the device
+ * - Unzips (fflate) and parses CSVs row by row (see csv-parser) in small chunks, yielding to the UI between
+ *   them, including calendar.txt / calendar_dates.txt / agency.txt / feed_info.txt
+ * - Reports download and parse progress, and can be cancelled to keep using the cached data
+ * - Caches parsed data in versioned files on device (see gtfs-cache)
+ * Then applies every loaded feed to the GTFS parser together
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { File, Paths } from 'expo-file-system';
-import { strFromU8, unzipSync } from 'fflate';
-import type { Route, Shape, Stop, StopTime, Trip } from '../types/train';
+import { DecodeUTF8, Unzip, UnzipInflate } from 'fflate';
+import { DEFAULT_FEED_ID, resolveFeedSources } from '../constants/feeds';
 import { gtfsParser } from '../utils/gtfs-parser';
+import {
+  readGTFSCache,
+  readGTFSCacheMeta,
+  touchGTFSCache,
+  writeGTFSCache,
+  type GTFSCacheMeta,
+  type GTFSData,
+} from './gtfs-cache';
+import type {
+  Agency,
+  Calendar,
+  CalendarDate,
+  FeedInfo,
+  FeedSource,
+  Route,
+  Shape,
+  Stop,
+  StopTime,
+  Transfer,
+  Trip,
+} from '../types/train';
+import { RouteSchema, ShapePointSchema, StopSchema, StopTimeSchema, TripSchema } from '../types/gtfs-schemas';
+import { CSVStreamParser, type CSVRow } from '../utils/csv-parser';
+import { isLocalSource } from '../utils/custom-feeds';
+import { parseGTFSDate } from '../utils/date-helpers';
+import {
+  checkSanity,
+  STATIC_SANITY_THRESHOLDS,
+  ValidationCollector,
+  type ValidationReport,
+} from '../utils/gtfs-validation';
+import { PositionEstimator } from './position-estimator';
 import { shapeLoader } from './shape-loader';
+import { TrainStorageService } from './storage';
 import { logger } from '../utils/logger';
 
-const GTFS_URL = 'https://content.amtrak.com/content/gtfs/GTFS.zip';
-const GTFS_CACHE_DIR = 'gtfs-cache';
-const GTFS_FILES = {
-  routes: 'routes.json',
-  stops: 'stops.json',
-  stopTimes: 'stop_times.json',
-  shapes: 'shapes.json',
-  trips: 'trips.json',
-};
-
-const STORAGE_KEYS = {
-  LAST_FETCH: 'GTFS_LAST_FETCH',
-  ROUTES: 'GTFS_ROUTES_JSON',
-  STOPS: 'GTFS_STOPS_JSON',
-  STOP_TIMES: 'GTFS_STOP_TIMES_JSON',
-  SHAPES: 'GTFS_SHAPES_JSON',
-  TRIPS: 'GTFS_TRIPS_JSON',
-};
+const GTFS_MAX_AGE_DAYS = 7;
+// Once the feed ends within this many days, check for a new one daily instead of weekly
+const FEED_EXPIRY_WARNING_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 function isOlderThanDays(dateMs: number, days: number): boolean {
   const now = Date.now();
-  const ms = days * 24 * 60 * 60 * 1000;
+  const ms = days * DAY_MS;
   return now - dateMs > ms;
 }
 
-function safeJSONParse<T>(text: string | null): T | null {
-  if (!text) return null;
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    return null;
+/**
+ * Whether the cached feed should be checked for a newer version
+ */
+export function needsRefresh(meta: GTFSCacheMeta): boolean {
+  if (isOlderThanDays(meta.fetchedAt, GTFS_MAX_AGE_DAYS)) return true;
+  const feedEndDate = meta.feedInfo?.feed_end_date;
+  if (!feedEndDate) return false;
+  // feed_end_date is inclusive, so the feed runs out at the end of that day
+  const expiresAt = parseGTFSDate(feedEndDate).getTime() + DAY_MS;
+  return expiresAt - Date.now() < FEED_EXPIRY_WARNING_DAYS * DAY_MS && isOlderThanDays(meta.fetchedAt, 1);
+}
+
+type LoadedFeed = { source: FeedSource; data: GTFSData };
+
+function applyGTFSData(feeds: LoadedFeed[]): void {
+  gtfsParser.loadFeeds(feeds);
+
+  // The name most of a number's trips use wins, so trips on the other routes may be mislabeled
+  const collisions = gtfsParser.getTrainNumberCollisions();
+  if (collisions.length > 0) {
+    const examples = collisions
+      .slice(0, 3)
+      .map(({ trainNumber, routeNames }) => `${trainNumber} (${routeNames.join(' / ')})`)
+      .join(', ');
+    logger.warn(`[GTFS] ${collisions.length} train numbers run on differently named routes, e.g. ${examples}`);
   }
+
+  // Initialize shape loader for map rendering
+  shapeLoader.initialize(gtfsParser.getRawShapesData());
+  PositionEstimator.clearCache();
 }
 
-// No-op: Directory.exists is not available in this environment; rely on AsyncStorage for cache
-async function ensureCacheDir() {
-  // No directory check needed; cache is in AsyncStorage
+/**
+ * Operators and custom sources enabled in preferences, falling back to the default feed
+ */
+async function getEnabledFeeds(): Promise<FeedSource[]> {
+  const { enabledFeedIds, customFeeds } = await TrainStorageService.getPreferences();
+  const feeds = resolveFeedSources(enabledFeedIds, customFeeds);
+  return feeds.length > 0 ? feeds : resolveFeedSources([DEFAULT_FEED_ID]);
 }
 
-async function readJSONFromFile<T>(filename: string): Promise<T | null> {
-  // Use AsyncStorage for cache
-  try {
-    let key;
-    if (filename === 'routes.json') key = STORAGE_KEYS.ROUTES;
-    else if (filename === 'stops.json') key = STORAGE_KEYS.STOPS;
-    else if (filename === 'stop_times.json') key = STORAGE_KEYS.STOP_TIMES;
-    else if (filename === 'shapes.json') key = STORAGE_KEYS.SHAPES;
-    else if (filename === 'trips.json') key = STORAGE_KEYS.TRIPS;
-    else return null;
-    const content = await AsyncStorage.getItem(key);
-    if (!content) return null;
-    return JSON.parse(content) as T;
-  } catch {
-    return null;
-  }
+const MAX_LOGGED_CSV_WARNINGS = 5; // Per file
+const UNZIP_CHUNK_BYTES = 64 * 1024; // Compressed bytes processed between UI yields
+const REQUIRED_GTFS_FILES = ['routes.txt', 'stops.txt', 'stop_times.txt'];
+// Files collected as rows and built once complete; stop_times.txt and shapes.txt are grouped while parsed
+const GTFS_TABLE_FILES = [
+  'routes.txt',
+  'stops.txt',
+  'trips.txt',
+  'calendar.txt',
+  'calendar_dates.txt',
+  'agency.txt',
+  'feed_info.txt',
+  'transfers.txt',
+];
+
+// Let rendering and gestures run between chunks of ingestion work
+function yieldToUI(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
 }
 
-async function writeJSONToFile(filename: string, data: unknown) {
-  const file = new File(Paths.document, GTFS_CACHE_DIR, filename);
-  await file.create({ overwrite: true });
-  await file.write(JSON.stringify(data));
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new Error('GTFS refresh cancelled');
 }
 
-// Basic CSV parser that respects quoted fields
-function parseCSV(text: string): Array<Record<string, string>> {
-  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
-  if (lines.length === 0) return [];
-  const header = splitCSVLine(lines[0]);
-  const rows: Array<Record<string, string>> = [];
-  for (let i = 1; i < lines.length; i++) {
-    const cols = splitCSVLine(lines[i]);
-    const row: Record<string, string> = {};
-    for (let j = 0; j < header.length; j++) {
-      row[header[j]] = cols[j] ?? '';
-    }
-    rows.push(row);
+/**
+ * Create a streaming parser for a GTFS CSV file that logs malformed rows
+ */
+function createCSVReader(filename: string, onRow: (row: CSVRow, line: number) => void) {
+  let warnings = 0;
+  const parser = new CSVStreamParser(onRow, {
+    onWarning: ({ line, message }) => {
+      if (++warnings <= MAX_LOGGED_CSV_WARNINGS) logger.warn(`[GTFS Refresh] ${filename} line ${line}: ${message}`);
+    },
+  });
+  return {
+    write: (text: string) => parser.write(text),
+    end: () => {
+      parser.end();
+      if (warnings > MAX_LOGGED_CSV_WARNINGS) {
+        logger.warn(`[GTFS Refresh] ${filename}: ${warnings - MAX_LOGGED_CSV_WARNINGS} more malformed rows`);
+      }
+    },
+  };
+}
+
+const VALIDATION_REPORT_KEY = 'GTFS_VALIDATION_REPORT';
+const getValidationReportKey = (feedId: string) => `${VALIDATION_REPORT_KEY}:${feedId}`;
+
+async function saveValidationReport(feedId: string, report: ValidationReport): Promise<void> {
+  try {
+    await AsyncStorage.setItem(getValidationReportKey(feedId), JSON.stringify(report));
+  } catch (error) {
+    logger.error('[GTFS Refresh] Failed to save validation report:', error);
   }
-  return rows;
 }
 
-function splitCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let cur = '';
-  let inQuotes = false;
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-    if (ch === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // escaped quote
-        cur += '"';
-        i++;
+type ZipDownload =
+  | { notModified: true }
+  | { notModified: false; bytes: Uint8Array; etag?: string; lastModified?: string };
+
+/**
+ * Download a GTFS zip, or report that it is unchanged when validators from a previous download match
+ * Uses XMLHttpRequest for byte-level progress and aborting
+ */
+function fetchZipBytes(
+  url: string,
+  validators?: Pick<GTFSCacheMeta, 'etag' | 'lastModified'>,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total: number) => void;
+    headers?: Record<string, string>;
+  } = {}
+): Promise<ZipDownload> {
+  const { signal, onProgress, headers = {} } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('GTFS refresh cancelled'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    xhr.open('GET', url);
+    xhr.responseType = 'arraybuffer';
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+    if (validators?.etag) xhr.setRequestHeader('If-None-Match', validators.etag);
+    if (validators?.lastModified) xhr.setRequestHeader('If-Modified-Since', validators.lastModified);
+
+    xhr.onprogress = event => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      settle();
+      if (xhr.status === 304) {
+        resolve({ notModified: true });
+      } else if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`GTFS fetch failed: ${xhr.status}`));
       } else {
-        inQuotes = !inQuotes;
+        resolve({
+          notModified: false,
+          bytes: new Uint8Array(xhr.response as ArrayBuffer),
+          etag: xhr.getResponseHeader('ETag') || undefined,
+          lastModified: xhr.getResponseHeader('Last-Modified') || undefined,
+        });
       }
-    } else if (ch === ',' && !inQuotes) {
-      result.push(cur);
-      cur = '';
-    } else {
-      cur += ch;
-    }
-  }
-  result.push(cur);
-  // Trim outer quotes
-  return result.map(v => (v.startsWith('"') && v.endsWith('"') ? v.slice(1, -1) : v));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new Error('GTFS fetch failed: network error'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new Error('GTFS refresh cancelled'));
+    };
+
+    signal?.addEventListener('abort', abort);
+    xhr.send();
+  });
 }
 
-async function fetchZipBytes(): Promise<Uint8Array> {
-  const res = await fetch(GTFS_URL);
-  if (!res.ok) throw new Error(`GTFS fetch failed: ${res.status}`);
-  const buf = await res.arrayBuffer();
-  return new Uint8Array(buf);
+/**
+ * Read a GTFS zip from the device, or report that it is unchanged since the cached copy
+ * Locations other than file:// URIs are resolved against the app's Documents folder
+ */
+async function readLocalZip(location: string, validators?: Pick<GTFSCacheMeta, 'lastModified'>): Promise<ZipDownload> {
+  const file = location.startsWith('file://') ? new File(location) : new File(Paths.document, location);
+  if (!file.exists) throw new Error(`GTFS file not found: ${location}`);
+  // The file's modification time stands in for Last-Modified
+  const lastModified = file.modificationTime !== null ? String(file.modificationTime) : undefined;
+  if (lastModified && validators?.lastModified === lastModified) return { notModified: true };
+  return { notModified: false, bytes: await file.bytes(), lastModified };
 }
 
-function buildRoutes(rows: Array<Record<string, string>>): Route[] {
+function buildRoutes(rows: CSVRow[], validation: ValidationCollector): Route[] {
   return rows
     .map(r => ({
       route_id: r['route_id'],
@@ -140,10 +250,10 @@ function buildRoutes(rows: Array<Record<string, string>>): Route[] {
       route_color: r['route_color'] || undefined,
       route_text_color: r['route_text_color'] || undefined,
     }))
-    .filter(r => !!r.route_id);
+    .filter(r => validation.check('routes.txt', RouteSchema, r, { id: r.route_id }));
 }
 
-function buildStops(rows: Array<Record<string, string>>): Stop[] {
+function buildStops(rows: CSVRow[], validation: ValidationCollector): Stop[] {
   return rows
     .map(r => ({
       stop_id: r['stop_id'],
@@ -152,184 +262,454 @@ function buildStops(rows: Array<Record<string, string>>): Stop[] {
       stop_timezone: r['stop_timezone'] || undefined,
       stop_lat: parseFloat(r['stop_lat']),
       stop_lon: parseFloat(r['stop_lon']),
+      platform_code: r['platform_code'] || undefined,
     }))
-    .filter(s => !!s.stop_id && !!s.stop_name);
+    .filter(s => validation.check('stops.txt', StopSchema, s, { id: s.stop_id }));
 }
 
-function buildStopTimes(rows: Array<Record<string, string>>): Record<string, StopTime[]> {
-  const grouped: Record<string, StopTime[]> = {};
-  for (const r of rows) {
-    const trip_id = r['trip_id'];
-    if (!trip_id) continue;
-    const st: StopTime = {
-      trip_id,
-      arrival_time: r['arrival_time'],
-      departure_time: r['departure_time'],
-      stop_id: r['stop_id'],
-      stop_sequence: parseInt(r['stop_sequence'] || '0', 10),
-      pickup_type: r['pickup_type'] ? parseInt(r['pickup_type'], 10) : undefined,
-      drop_off_type: r['drop_off_type'] ? parseInt(r['drop_off_type'], 10) : undefined,
-      timepoint: r['timepoint'] ? parseInt(r['timepoint'], 10) : undefined,
-    };
-    if (!grouped[trip_id]) grouped[trip_id] = [];
-    grouped[trip_id].push(st);
-  }
-  // sort sequences per trip
-  Object.values(grouped).forEach(arr => arr.sort((a, b) => a.stop_sequence - b.stop_sequence));
-  return grouped;
+// stop_times.txt and shapes.txt are the largest files, so rows are grouped as they are parsed
+function addStopTime(
+  grouped: Record<string, StopTime[]>,
+  r: CSVRow,
+  line: number,
+  validation: ValidationCollector
+): void {
+  const trip_id = r['trip_id'];
+  const st: StopTime = {
+    trip_id,
+    arrival_time: r['arrival_time'],
+    departure_time: r['departure_time'],
+    stop_id: r['stop_id'],
+    stop_sequence: parseInt(r['stop_sequence'] || '0', 10),
+    pickup_type: r['pickup_type'] ? parseInt(r['pickup_type'], 10) : undefined,
+    drop_off_type: r['drop_off_type'] ? parseInt(r['drop_off_type'], 10) : undefined,
+    timepoint: r['timepoint'] ? parseInt(r['timepoint'], 10) : undefined,
+  };
+  if (!validation.check('stop_times.txt', StopTimeSchema, st, { line, id: trip_id })) return;
+  if (!grouped[trip_id]) grouped[trip_id] = [];
+  grouped[trip_id].push(st);
 }
 
-function buildShapes(rows: Array<Record<string, string>>): Record<string, Shape[]> {
-  const grouped: Record<string, Shape[]> = {};
-  for (const r of rows) {
-    const shape_id = r['shape_id'];
-    if (!shape_id) continue;
-    const shape: Shape = {
-      shape_id,
-      shape_pt_lat: parseFloat(r['shape_pt_lat']),
-      shape_pt_lon: parseFloat(r['shape_pt_lon']),
-      shape_pt_sequence: parseInt(r['shape_pt_sequence'] || '0', 10),
-    };
-    if (!grouped[shape_id]) grouped[shape_id] = [];
-    grouped[shape_id].push(shape);
-  }
-  // sort by sequence
-  Object.values(grouped).forEach(arr => arr.sort((a, b) => a.shape_pt_sequence - b.shape_pt_sequence));
-  return grouped;
+function addShapePoint(
+  grouped: Record<string, Shape[]>,
+  r: CSVRow,
+  line: number,
+  validation: ValidationCollector
+): void {
+  const shape_id = r['shape_id'];
+  const shape: Shape = {
+    shape_id,
+    shape_pt_lat: parseFloat(r['shape_pt_lat']),
+    shape_pt_lon: parseFloat(r['shape_pt_lon']),
+    shape_pt_sequence: parseInt(r['shape_pt_sequence'] || '0', 10),
+  };
+  if (!validation.check('shapes.txt', ShapePointSchema, shape, { line, id: shape_id })) return;
+  if (!grouped[shape_id]) grouped[shape_id] = [];
+  grouped[shape_id].push(shape);
 }
 
-function buildTrips(rows: Array<Record<string, string>>): Trip[] {
+function buildTrips(rows: CSVRow[], validation: ValidationCollector): Trip[] {
   return rows
     .map(r => ({
       route_id: r['route_id'],
       trip_id: r['trip_id'],
+      service_id: r['service_id'] || undefined,
       trip_short_name: r['trip_short_name'] || undefined,
       trip_headsign: r['trip_headsign'] || undefined,
+      shape_id: r['shape_id'] || undefined,
     }))
-    .filter(t => !!t.trip_id);
+    .filter(t => validation.check('trips.txt', TripSchema, t, { id: t.trip_id }));
 }
 
-type ProgressUpdate = { step: string; progress: number; detail?: string };
+function buildCalendar(rows: CSVRow[]): Calendar[] {
+  return rows
+    .map(r => ({
+      service_id: r['service_id'],
+      monday: r['monday'] === '1',
+      tuesday: r['tuesday'] === '1',
+      wednesday: r['wednesday'] === '1',
+      thursday: r['thursday'] === '1',
+      friday: r['friday'] === '1',
+      saturday: r['saturday'] === '1',
+      sunday: r['sunday'] === '1',
+      start_date: r['start_date'],
+      end_date: r['end_date'],
+    }))
+    .filter(c => !!c.service_id && !!c.start_date && !!c.end_date);
+}
 
-export async function ensureFreshGTFS(onProgress?: (update: ProgressUpdate) => void): Promise<{ usedCache: boolean }> {
-  try {
-    const report = (step: string, progress: number, detail?: string) => {
-      onProgress?.({ step, progress: Math.min(1, Math.max(0, progress)), detail });
-      // Progressive console logging
-      if (detail) {
-        logger.info(`[GTFS Refresh] ${step} (${Math.round(progress * 100)}%): ${detail}`);
-      } else {
-        logger.info(`[GTFS Refresh] ${step} (${Math.round(progress * 100)}%)`);
-      }
+function buildCalendarDates(rows: CSVRow[]): CalendarDate[] {
+  const dates: CalendarDate[] = [];
+  for (const r of rows) {
+    const exceptionType = r['exception_type'];
+    if (!r['service_id'] || !r['date']) continue;
+    if (exceptionType !== '1' && exceptionType !== '2') continue;
+    dates.push({
+      service_id: r['service_id'],
+      date: r['date'],
+      exception_type: exceptionType === '1' ? 1 : 2,
+    });
+  }
+  return dates;
+}
+
+function buildAgencies(rows: CSVRow[]): Agency[] {
+  return rows
+    .map(r => ({
+      agency_id: r['agency_id'] || undefined,
+      agency_name: r['agency_name'],
+      agency_url: r['agency_url'] || undefined,
+      agency_timezone: r['agency_timezone'],
+    }))
+    .filter(a => !!a.agency_timezone);
+}
+
+/**
+ * Stop-to-stop transfer rules; rules for particular routes or trips are left out
+ */
+function buildTransfers(rows: CSVRow[]): Transfer[] {
+  const transfers: Transfer[] = [];
+  for (const r of rows) {
+    if (!r['from_stop_id'] || !r['to_stop_id']) continue;
+    if (r['from_route_id'] || r['to_route_id'] || r['from_trip_id'] || r['to_trip_id']) continue;
+    const transferType = parseInt(r['transfer_type'] || '0', 10);
+    if (transferType !== 0 && transferType !== 1 && transferType !== 2 && transferType !== 3) continue;
+    const minTransferTime = parseInt(r['min_transfer_time'], 10);
+    transfers.push({
+      from_stop_id: r['from_stop_id'],
+      to_stop_id: r['to_stop_id'],
+      transfer_type: transferType,
+      min_transfer_time: Number.isNaN(minTransferTime) ? undefined : minTransferTime,
+    });
+  }
+  return transfers;
+}
+
+function buildFeedInfo(rows: CSVRow[]): FeedInfo | undefined {
+  const r = rows[0];
+  if (!r || !r['feed_publisher_name']) return undefined;
+  return {
+    feed_publisher_name: r['feed_publisher_name'],
+    feed_publisher_url: r['feed_publisher_url'] || undefined,
+    feed_lang: r['feed_lang'] || undefined,
+    feed_version: r['feed_version'] || undefined,
+    feed_start_date: r['feed_start_date'] || undefined,
+    feed_end_date: r['feed_end_date'] || undefined,
+  };
+}
+
+/**
+ * Unzip and parse GTFS.zip a chunk at a time, yielding to the UI between chunks
+ * Each CSV is decoded and parsed while it is inflated, so no file is held as one large string
+ * @param onProgress - Called with the fraction of the archive processed
+ */
+async function parseGTFSZip(
+  bytes: Uint8Array,
+  signal: AbortSignal | undefined,
+  onProgress: (fraction: number) => void
+): Promise<{ data: GTFSData; feedInfo?: FeedInfo; validation: ValidationCollector }> {
+  const validation = new ValidationCollector();
+  const foundFiles = new Set<string>();
+  const tables: Record<string, CSVRow[]> = {};
+  const stopTimes: Record<string, StopTime[]> = {};
+  const shapes: Record<string, Shape[]> = {};
+  let unzipError: Error | null = null;
+
+  const getRowHandler = (filename: string): ((row: CSVRow, line: number) => void) | null => {
+    if (filename === 'stop_times.txt') return (row, line) => addStopTime(stopTimes, row, line, validation);
+    if (filename === 'shapes.txt') return (row, line) => addShapePoint(shapes, row, line, validation);
+    if (!GTFS_TABLE_FILES.includes(filename)) return null;
+    const rows: CSVRow[] = (tables[filename] = []);
+    return row => rows.push(row);
+  };
+
+  const unzipper = new Unzip(file => {
+    const filename = file.name.split('/').pop() || file.name;
+    const onRow = getRowHandler(filename);
+    if (!onRow) return; // Files that are not started are skipped
+    foundFiles.add(filename);
+
+    const reader = createCSVReader(filename, onRow);
+    const decoder = new DecodeUTF8((text, final) => {
+      reader.write(text);
+      if (final) reader.end();
+    });
+    file.ondata = (err, chunk, final) => {
+      if (err) unzipError = err;
+      else decoder.push(chunk, final);
     };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  for (let offset = 0; offset < bytes.length; offset += UNZIP_CHUNK_BYTES) {
+    throwIfCancelled(signal);
+    const end = Math.min(offset + UNZIP_CHUNK_BYTES, bytes.length);
+    unzipper.push(bytes.subarray(offset, end), end === bytes.length);
+    if (unzipError) throw unzipError;
+    onProgress(end / bytes.length);
+    await yieldToUI();
+  }
 
-    report('Checking GTFS cache', 0.05);
+  if (!REQUIRED_GTFS_FILES.every(name => foundFiles.has(name))) {
+    logger.error('[GTFS Refresh] Missing expected GTFS files (routes/stops/stop_times)');
+    throw new Error('Missing expected GTFS files (routes/stops/stop_times)');
+  }
 
-    await ensureCacheDir();
+  // sort sequences per trip and shape
+  Object.values(stopTimes).forEach(arr => arr.sort((a, b) => a.stop_sequence - b.stop_sequence));
+  Object.values(shapes).forEach(arr => arr.sort((a, b) => a.shape_pt_sequence - b.shape_pt_sequence));
+
+  return {
+    data: {
+      routes: buildRoutes(tables['routes.txt'], validation),
+      stops: buildStops(tables['stops.txt'], validation),
+      stopTimes,
+      shapes,
+      trips: buildTrips(tables['trips.txt'] || [], validation),
+      calendar: buildCalendar(tables['calendar.txt'] || []),
+      calendarDates: buildCalendarDates(tables['calendar_dates.txt'] || []),
+      agencies: buildAgencies(tables['agency.txt'] || []),
+      transfers: buildTransfers(tables['transfers.txt'] || []),
+    },
+    feedInfo: buildFeedInfo(tables['feed_info.txt'] || []),
+    validation,
+  };
+}
 
-    const lastFetchStr = await AsyncStorage.getItem(STORAGE_KEYS.LAST_FETCH);
-    const lastFetchMs = lastFetchStr ? parseInt(lastFetchStr, 10) : 0;
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
 
-    // If cache is fresh, apply and return
-    if (lastFetchMs && !isOlderThanDays(lastFetchMs, 7)) {
-      const routes = await readJSONFromFile<Route[]>(GTFS_FILES.routes);
-      const stops = await readJSONFromFile<Stop[]>(GTFS_FILES.stops);
-      const stopTimes = await readJSONFromFile<Record<string, StopTime[]>>(GTFS_FILES.stopTimes);
-      const shapes = await readJSONFromFile<Record<string, Shape[]>>(GTFS_FILES.shapes);
-      const trips = await readJSONFromFile<Trip[]>(GTFS_FILES.trips);
-      if (routes && stops && stopTimes) {
-        gtfsParser.overrideData(routes, stops, stopTimes, shapes || {}, trips || []);
+type ProgressUpdate = {
+  step: string;
+  progress: number;
+  detail?: string;
+  bytesLoaded?: number; // Set while downloading, when the size is known
+  bytesTotal?: number;
+};
 
-        // Initialize shape loader for map rendering
-        shapeLoader.initialize(shapes || {});
+/**
+ * Get one feed's data: its cache if it is fresh, otherwise the latest download
+ * Download and validation failures fall back to the cache; cancelling throws
+ * @returns null when the feed has neither a usable download nor a cache
+ */
+async function syncFeed(
+  source: FeedSource,
+  onProgress: (update: ProgressUpdate) => void,
+  options: { force?: boolean; signal?: AbortSignal }
+): Promise<{ data: GTFSData; usedCache: boolean } | null> {
+  const { signal } = options;
+  const report = (step: string, progress: number, detail?: string) => {
+    onProgress({ step, progress: Math.min(1, Math.max(0, progress)), detail });
+    // Progressive console logging
+    if (detail) {
+      logger.info(`[GTFS Refresh] ${source.name}: ${step} (${Math.round(progress * 100)}%): ${detail}`);
+    } else {
+      logger.info(`[GTFS Refresh] ${source.name}: ${step} (${Math.round(progress * 100)}%)`);
+    }
+  };
+
+  try {
+    report('Checking GTFS cache', 0.05);
+
+    // If cache is fresh, use it
+    const meta = await readGTFSCacheMeta(source.id);
+    if (meta && !options.force && !needsRefresh(meta)) {
+      const cached = await readGTFSCache(source.id);
+      if (cached) {
+        report('Using cached GTFS', 1, `Cache age < ${GTFS_MAX_AGE_DAYS} days`);
+        return { data: cached, usedCache: true };
+      }
+    }
 
-        report('Using cached GTFS', 1, 'Cache age < 7 days');
-        return { usedCache: true };
+    report('Downloading schedule', 0.1, 'Fetching latest schedule');
+    // Download progress is frequent, so it is passed on without logging
+    const onDownloadProgress = (loaded: number, total: number) => {
+      onProgress({
+        step: 'Downloading schedule',
+        progress: 0.1 + 0.4 * (loaded / total),
+        detail: `${formatMegabytes(loaded)} of ${formatMegabytes(total)} MB`,
+        bytesLoaded: loaded,
+        bytesTotal: total,
+      });
+    };
+    const fetchZip = (validators?: Pick<GTFSCacheMeta, 'etag' | 'lastModified'>) =>
+      isLocalSource(source.staticUrl)
+        ? readLocalZip(source.staticUrl, validators)
+        : fetchZipBytes(source.staticUrl, validators, {
+            signal,
+            onProgress: onDownloadProgress,
+            headers: source.headers,
+          });
+    // Ask the server for a new feed only if it changed since the cached download
+    let download = await fetchZip(meta && !options.force ? meta : undefined);
+    if (download.notModified) {
+      const cached = await readGTFSCache(source.id);
+      if (cached) {
+        await touchGTFSCache(source.id);
+        report('Using cached GTFS', 1, 'No newer schedule published');
+        return { data: cached, usedCache: true };
+      }
+      download = await fetchZip();
+    }
+    if (download.notModified) throw new Error('GTFS fetch returned 304 for an unconditional request');
+    report('Download complete', 0.5, `${formatMegabytes(download.bytes.length)} MB`);
+
+    const { data, feedInfo, validation } = await parseGTFSZip(download.bytes, signal, fraction => {
+      onProgress({ step: 'Parsing schedule', progress: 0.5 + 0.4 * fraction });
+    });
+    throwIfCancelled(signal);
+
+    // Keep the last good data set if the new feed lost too many rows to validation
+    const failureReason = checkSanity(validation.getSummaries(), meta?.rowCounts, STATIC_SANITY_THRESHOLDS);
+    await saveValidationReport(source.id, {
+      source: 'static',
+      createdAt: Date.now(),
+      files: validation.getSummaries(),
+      passed: !failureReason,
+      failureReason: failureReason ?? undefined,
+    });
+    if (failureReason) {
+      logger.error(`[GTFS Refresh] New ${source.name} GTFS failed validation: ${failureReason}`);
+      const cached = await readGTFSCache(source.id);
+      if (cached) {
+        // Check again on the usual schedule rather than downloading the same feed on every launch
+        await touchGTFSCache(source.id);
+        report('Schedule update rejected', 1, failureReason);
+        return { data: cached, usedCache: true };
       }
+      logger.warn(`[GTFS Refresh] No cached ${source.name} GTFS to fall back on, using the new feed`);
     }
 
-    report('GTFS.zip', 0.1, 'Fetching latest schedule');
-    // Fetch and rebuild cache
-    const zipBytes = await fetchZipBytes();
-    report('Download complete', 0.2);
-    const files = unzipSync(zipBytes);
-    report('Unzipping archive', 0.3);
-
-    const routesTxt = files['routes.txt'] ? strFromU8(files['routes.txt']) : '';
-    const stopsTxt = files['stops.txt'] ? strFromU8(files['stops.txt']) : '';
-    const stopTimesTxt = files['stop_times.txt'] ? strFromU8(files['stop_times.txt']) : '';
-    const shapesTxt = files['shapes.txt'] ? strFromU8(files['shapes.txt']) : '';
-    const tripsTxt = files['trips.txt'] ? strFromU8(files['trips.txt']) : '';
-
-    if (!routesTxt || !stopsTxt || !stopTimesTxt) {
-      logger.error('[GTFS Refresh] Missing expected GTFS files (routes/stops/stop_times)');
-      throw new Error('Missing expected GTFS files (routes/stops/stop_times)');
+    report('Persisting cache', 0.9, 'Writing schedule files to device storage');
+    await writeGTFSCache(source.id, data, {
+      fetchedAt: Date.now(),
+      etag: download.etag,
+      lastModified: download.lastModified,
+      feedInfo,
+      rowCounts: validation.getAcceptedCounts(),
+    });
+
+    report(
+      'Refresh complete',
+      1,
+      feedInfo?.feed_version ? `Downloaded GTFS ${feedInfo.feed_version}` : 'Downloaded latest GTFS'
+    );
+    return { data, usedCache: false };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    logger.error(`[GTFS Refresh] ${source.name} GTFS sync failed:`, err);
+    report('GTFS refresh failed', 1, 'Check network connection');
+    const cached = await readGTFSCache(source.id);
+    return cached ? { data: cached, usedCache: true } : null;
+  }
+}
+
+/**
+ * Apply each enabled feed's cached GTFS data if it is fresh, otherwise download and cache its latest feed
+ * Feeds are synced one after another; progress covers all of them
+ * @param options.force - Download even if the caches are fresh
+ * @param options.signal - Aborts the refresh; the data already loaded stays in use
+ */
+export async function ensureFreshGTFS(
+  onProgress?: (update: ProgressUpdate) => void,
+  options: { force?: boolean; signal?: AbortSignal } = {}
+): Promise<{ usedCache: boolean; cancelled?: boolean }> {
+  const { signal } = options;
+  try {
+    const feeds = await getEnabledFeeds();
+    const loaded: Array<LoadedFeed & { usedCache: boolean }> = [];
+
+    for (const [index, source] of feeds.entries()) {
+      const result = await syncFeed(
+        source,
+        update =>
+          onProgress?.({
+            ...update,
+            // Name the operator only when there is more than one to tell apart
+            step: feeds.length > 1 ? `${source.name}: ${update.step}` : update.step,
+            progress: (index + update.progress) / feeds.length,
+          }),
+        options
+      );
+      if (result) loaded.push({ source, ...result });
     }
+    throwIfCancelled(signal);
 
-    report('Parsing routes', 0.35);
-    const routes = buildRoutes(parseCSV(routesTxt));
-    report('Parsing stops', 0.45);
-    const stops = buildStops(parseCSV(stopsTxt));
-    report('Parsing trips', 0.55);
-    const trips = tripsTxt ? buildTrips(parseCSV(tripsTxt)) : [];
-    report('Parsing stop times', 0.7);
-    const stopTimes = buildStopTimes(parseCSV(stopTimesTxt));
-    report('Parsing shapes', 0.8);
-    const shapes = shapesTxt ? buildShapes(parseCSV(shapesTxt)) : {};
-
-    report('Persisting cache', 0.9, 'Writing JSON to device storage');
-
-    // Write to AsyncStorage instead of file system
-    await AsyncStorage.setItem(STORAGE_KEYS.ROUTES, JSON.stringify(routes));
-    await AsyncStorage.setItem(STORAGE_KEYS.STOPS, JSON.stringify(stops));
-    await AsyncStorage.setItem(STORAGE_KEYS.STOP_TIMES, JSON.stringify(stopTimes));
-    await AsyncStorage.setItem(STORAGE_KEYS.SHAPES, JSON.stringify(shapes));
-    await AsyncStorage.setItem(STORAGE_KEYS.TRIPS, JSON.stringify(trips));
-    await AsyncStorage.setItem(STORAGE_KEYS.LAST_FETCH, String(Date.now()));
-
-    gtfsParser.overrideData(routes, stops, stopTimes, shapes, trips);
-
-    // Initialize shape loader for map rendering
-    shapeLoader.initialize(shapes);
-
-    report('Refresh complete', 1, 'Applied latest GTFS');
-    return { usedCache: false };
+    if (loaded.length > 0) applyGTFSData(loaded);
+    return { usedCache: loaded.every(feed => feed.usedCache) };
   } catch (err) {
+    if (signal?.aborted) {
+      logger.info('[GTFS Refresh] Refresh cancelled, keeping cached GTFS');
+      onProgress?.({ step: 'Refresh cancelled', progress: 1 });
+      return { usedCache: true, cancelled: true };
+    }
     logger.error('[GTFS Refresh] GTFS sync failed:', err);
     onProgress?.({ step: 'GTFS refresh failed', progress: 1, detail: 'Check network connection' });
     return { usedCache: true };
   }
 }
 
+/**
+ * Whether any enabled feed has a cached schedule
+ */
 export async function hasCachedGTFS(): Promise<boolean> {
-  const routes = await AsyncStorage.getItem(STORAGE_KEYS.ROUTES);
-  const stops = await AsyncStorage.getItem(STORAGE_KEYS.STOPS);
-  const stopTimes = await AsyncStorage.getItem(STORAGE_KEYS.STOP_TIMES);
-  return !!(routes && stops && stopTimes);
+  for (const source of await getEnabledFeeds()) {
+    if (await readGTFSCacheMeta(source.id)) return true;
+  }
+  return false;
 }
 
+/**
+ * Whether any enabled feed is missing from the cache or due for a refresh
+ */
 export async function isCacheStale(): Promise<boolean> {
-  const lastFetchStr = await AsyncStorage.getItem(STORAGE_KEYS.LAST_FETCH);
-  const lastFetchMs = lastFetchStr ? parseInt(lastFetchStr, 10) : 0;
-  return !lastFetchMs || isOlderThanDays(lastFetchMs, 7);
+  for (const source of await getEnabledFeeds()) {
+    const meta = await readGTFSCacheMeta(source.id);
+    if (!meta || needsRefresh(meta)) return true;
+  }
+  return false;
+}
+
+/**
+ * Version and validity dates of each enabled feed's cache, from its feed_info.txt
+ */
+export async function getCachedFeedInfos(): Promise<Array<{ source: FeedSource; feedInfo: FeedInfo | null }>> {
+  const infos: Array<{ source: FeedSource; feedInfo: FeedInfo | null }> = [];
+  for (const source of await getEnabledFeeds()) {
+    infos.push({ source, feedInfo: (await readGTFSCacheMeta(source.id))?.feedInfo ?? null });
+  }
+  return infos;
 }
 
 /**
- * Load cached GTFS data into the parser (called on app startup)
+ * Validation report of a feed's most recent download, whether or not it was applied
+ */
+export async function getGTFSValidationReport(feedId: string): Promise<ValidationReport | null> {
+  try {
+    const json = await AsyncStorage.getItem(getValidationReportKey(feedId));
+    return json ? (JSON.parse(json) as ValidationReport) : null;
+  } catch (error) {
+    logger.error('[GTFS] Failed to read validation report:', error);
+    return null;
+  }
+}
+
+/**
+ * Load the cached GTFS data of every enabled feed into the parser (called on app startup)
  * This doesn't check staleness - just loads whatever is cached
  */
 export async function loadCachedGTFS(): Promise<boolean> {
   try {
-    const routes = await readJSONFromFile<Route[]>(GTFS_FILES.routes);
-    const stops = await readJSONFromFile<Stop[]>(GTFS_FILES.stops);
-    const stopTimes = await readJSONFromFile<Record<string, StopTime[]>>(GTFS_FILES.stopTimes);
-    const shapes = await readJSONFromFile<Record<string, Shape[]>>(GTFS_FILES.shapes);
-    const trips = await readJSONFromFile<Trip[]>(GTFS_FILES.trips);
-
-    if (routes && stops && stopTimes) {
-      gtfsParser.overrideData(routes, stops, stopTimes, shapes || {}, trips || []);
-      shapeLoader.initialize(shapes || {});
-      logger.info('[GTFS] Loaded cached data on startup');
+    const loaded: LoadedFeed[] = [];
+    for (const source of await getEnabledFeeds()) {
+      const data = await readGTFSCache(source.id);
+      if (data) loaded.push({ source, data });
+    }
+    if (loaded.length > 0) {
+      applyGTFSData(loaded);
+      logger.info(`[GTFS] Loaded cached data for ${loaded.map(feed => feed.source.name).join(', ')} on startup`);
       return true;
     }
     logger.info('[GTFS] No cached data found');
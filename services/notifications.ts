@@ -0,0 +1,264 @@
+/**
+ * Saved train notifications
+ * Evaluates every saved train against the schedule and the latest realtime snapshot (see
+ * utils/notification-rules), shows the alerts that are due and keeps each departure reminder
+ * scheduled with the OS, so it fires even when the app is closed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../constants/notifications';
+import type { SavedTrainRef, TrainNotificationPreferences } from '../types/train';
+import { formatGTFSDate } from '../utils/date-helpers';
+import { gtfsParser } from '../utils/gtfs-parser';
+import { logger } from '../utils/logger';
+import {
+  evaluateNotifications,
+  INITIAL_NOTIFICATION_STATE,
+  isWithinWatchWindow,
+  type NotificationState,
+  type TrainNotification,
+  type TripStatus,
+  type WatchedTrip,
+} from '../utils/notification-rules';
+import { RealtimeService, type RealtimeSnapshot } from './realtime';
+
+const STATE_STORAGE_KEY = 'trainNotificationState';
+const ANDROID_CHANNEL_ID = 'saved-trains';
+
+interface StoredTrainState {
+  state: NotificationState;
+  reminderAt: number | null; // When the scheduled departure reminder fires
+}
+
+interface WatchedRun {
+  key: string; // One saved train on one service date
+  serviceDate: string; // YYYYMMDD
+  trip: WatchedTrip;
+}
+
+/**
+ * Identify a saved train's run, so what was announced for one day's train is not carried to the next
+ */
+function getRunKey(ref: SavedTrainRef, serviceDate: string): string {
+  return [ref.tripId, ref.fromCode ?? '', ref.toCode ?? '', serviceDate].join('|');
+}
+
+function getReminderId(key: string): string {
+  return `departure:${key}`;
+}
+
+/**
+ * The rider's segment of a saved train, with its scheduled times on the travel date
+ * Returns null when the trip is no longer in the schedule or does not run that day
+ */
+function getWatchedRun(ref: SavedTrainRef, now: number): WatchedRun | null {
+  const stopTimes = gtfsParser.getStopTimesForTrip(ref.tripId);
+  const fromIndex = ref.fromCode ? stopTimes.findIndex(s => s.stop_id === ref.fromCode) : 0;
+  const toIndex = ref.toCode ? stopTimes.findIndex(s => s.stop_id === ref.toCode) : stopTimes.length - 1;
+  if (fromIndex === -1 || toIndex <= fromIndex) return null;
+
+  const boarding = stopTimes[fromIndex];
+  const serviceDate = gtfsParser.getServiceDate(boarding.departure_time, new Date(ref.travelDate ?? now));
+  if (!gtfsParser.isTripActiveOn(ref.tripId, serviceDate)) return null;
+
+  const trainNumber = gtfsParser.getTrainNumber(ref.tripId);
+  const routeName = gtfsParser.getTrainRouteName(ref.tripId);
+  return {
+    key: getRunKey(ref, formatGTFSDate(serviceDate)),
+    serviceDate: formatGTFSDate(serviceDate),
+    trip: {
+      label: routeName ? `${routeName} ${trainNumber}` : `Train ${trainNumber}`,
+      stops: stopTimes.slice(fromIndex, toIndex + 1).map(stopTime => ({
+        stopId: stopTime.stop_id,
+        name: stopTime.stop_name,
+        arriveAt: gtfsParser.resolveStopTime(
+          ref.tripId,
+          stopTime.stop_id,
+          stopTime.arrival_time || stopTime.departure_time,
+          serviceDate
+        ).at,
+        departAt: gtfsParser.resolveStopTime(
+          ref.tripId,
+          stopTime.stop_id,
+          stopTime.departure_time || stopTime.arrival_time,
+          serviceDate
+        ).at,
+        platform: gtfsParser.getStop(stopTime.stop_id)?.platform_code,
+      })),
+    },
+  };
+}
+
+/**
+ * What the realtime feed says about the rider's segment, or null when it has nothing for the trip
+ */
+async function getTripStatus(tripId: string, run: WatchedRun, snapshot: RealtimeSnapshot): Promise<TripStatus | null> {
+  const { trip, serviceDate } = run;
+  const updates = await RealtimeService.getUpdatesForTrip(tripId, snapshot, serviceDate);
+  if (updates.length === 0) return null;
+
+  const predictions = await RealtimeService.getPredictedStopTimes(tripId, snapshot, serviceDate);
+  return {
+    cancelled: await RealtimeService.isTripCancelled(tripId, snapshot, serviceDate),
+    stops: trip.stops.map(stop => {
+      const prediction = predictions.find(p => p.stop_id === stop.stopId);
+      const assignedStopId = updates.find(u => u.stop_id === stop.stopId)?.assigned_stop_id;
+      return {
+        arrivalDelay: prediction?.arrival_delay ?? null,
+        departureDelay: prediction?.departure_delay ?? null,
+        skipped: prediction?.skipped ?? false,
+        platform: assignedStopId ? gtfsParser.getStop(assignedStopId)?.platform_code : undefined,
+      };
+    }),
+  };
+}
+
+async function loadStates(): Promise<Record<string, StoredTrainState>> {
+  try {
+    const data = await AsyncStorage.getItem(STATE_STORAGE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    logger.error('Error loading notification state:', error);
+    return {};
+  }
+}
+
+async function showNow(tripId: string, notification: TrainNotification): Promise<void> {
+  await Notifications.scheduleNotificationAsync({
+    content: { title: notification.title, body: notification.body, data: { tripId, kind: notification.kind } },
+    trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL_ID } : null,
+  });
+}
+
+export class TrainNotificationService {
+  /**
+   * Show alerts while the app is open and set up the Android channel
+   * Call once at startup
+   */
+  static async configure(): Promise<void> {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      try {
+        await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+          name: 'Saved trains',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      } catch (error) {
+        logger.error('Error creating notification channel:', error);
+      }
+    }
+  }
+
+  /**
+   * Ask for permission to notify, if the rider has not decided yet
+   */
+  static async requestPermission(): Promise<boolean> {
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted || !current.canAskAgain) return current.granted;
+      return (await Notifications.requestPermissionsAsync()).granted;
+    } catch (error) {
+      logger.error('Error requesting notification permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * A saved train's notification preferences, with defaults for anything not set
+   */
+  static getPreferences(ref: SavedTrainRef): TrainNotificationPreferences {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...ref.notifications };
+  }
+
+  /**
+   * Evaluate every saved train, show what is due and reschedule departure reminders
+   * Trains that are no longer saved have their reminders cancelled. The realtime feed is only read
+   * when a saved train is due within a few hours or under way
+   * @param snapshot - Realtime snapshot to read from (default: the current one)
+   */
+  static async checkSavedTrains(
+    refs: SavedTrainRef[],
+    now: number = Date.now(),
+    snapshot?: RealtimeSnapshot
+  ): Promise<void> {
+    // Without a schedule every run looks gone, which would drop what was already announced
+    if (!gtfsParser.isLoaded) return;
+    try {
+      if (!(await Notifications.getPermissionsAsync()).granted) return;
+
+      const previous = await loadStates();
+      const next: Record<string, StoredTrainState> = {};
+      let feed = snapshot;
+      const checked = new Set<string>();
+
+      for (const ref of refs) {
+        const run = getWatchedRun(ref, now);
+        // A train saved on its own and as a leg of a journey is announced once
+        if (!run || checked.has(run.key)) continue;
+        checked.add(run.key);
+
+        const stored = previous[run.key];
+        let status: TripStatus | null = null;
+        if (isWithinWatchWindow(run.trip, now)) {
+          feed ??= await RealtimeService.getSnapshot();
+          status = await getTripStatus(ref.tripId, run, feed);
+        }
+        const result = evaluateNotifications(
+          run.trip,
+          this.getPreferences(ref),
+          status,
+          stored?.state ?? INITIAL_NOTIFICATION_STATE,
+          now
+        );
+
+        for (const notification of result.notifications) {
+          await showNow(ref.tripId, notification);
+        }
+
+        const reminder = result.departureReminder;
+        const reminderAt = reminder?.at ?? null;
+        if (reminderAt !== (stored?.reminderAt ?? null)) {
+          await Notifications.cancelScheduledNotificationAsync(getReminderId(run.key));
+          if (reminder) {
+            await Notifications.scheduleNotificationAsync({
+              identifier: getReminderId(run.key),
+              content: {
+                title: reminder.title,
+                body: reminder.body,
+                data: { tripId: ref.tripId, kind: reminder.kind },
+              },
+              trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: reminder.at,
+                channelId: ANDROID_CHANNEL_ID,
+              },
+            });
+          }
+        }
+
+        if (!result.finished) next[run.key] = { state: result.state, reminderAt };
+      }
+
+      // Reminders of trains that were removed, or whose run is over
+      for (const [key, stored] of Object.entries(previous)) {
+        if (!next[key] && stored.reminderAt !== null) {
+          await Notifications.cancelScheduledNotificationAsync(getReminderId(key));
+        }
+      }
+
+      await AsyncStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      logger.error('Error checking saved train notifications:', error);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Position Estimator Service
+ * Estimates where trains are when their live position is stale or missing (feed down, no vehicle entity),
+ * from the schedule, the last known delays and the route shape
+ */
+
+import type { StopTime } from '../types/train';
+import { addDays, formatGTFSDate } from '../utils/date-helpers';
+import { estimateDistanceAlong, type TimedStop } from '../utils/dead-reckoning';
+import { propagateDelays, type PredictedStopTime } from '../utils/delay-propagation';
+import { gtfsParser } from '../utils/gtfs-parser';
+import { getPointAlongPath, measurePath, projectOntoPath, type MeasuredPath } from '../utils/map-matching';
+import { resolveServiceTime } from '../utils/service-time';
+import type { PathPoint } from '../utils/shape-path';
+import { RealtimeService, type RealtimeSnapshot } from './realtime';
+import { shapeLoader } from './shape-loader';
+
+// Long-distance trains can still be running two service days after they set off
+const SERVICE_DAYS_BACK = 2;
+
+export interface EstimatedPosition {
+  tripId: string; // Scheduled trip_id
+  serviceDate: string; // YYYYMMDD
+  latitude: number;
+  longitude: number;
+  bearing: number;
+}
+
+interface TripRun {
+  tripId: string;
+  serviceDate: string;
+  stopTimes: readonly StopTime[];
+  predictions: PredictedStopTime[];
+}
+
+// Measured shapes, keyed by shape_id
+const measuredShapes = new Map<string, MeasuredPath>();
+// Each stop's distance along its trip's path (null when it is off the path), keyed by trip_id
+const stopDistances = new Map<string, Array<number | null>>();
+
+/**
+ * The line a trip runs along: its shape, or straight lines between its stops when it has none
+ */
+function getTripPath(tripId: string, stopTimes: readonly StopTime[]): MeasuredPath | null {
+  const shapeId = gtfsParser.getTrainShapeId(tripId);
+  if (shapeId !== undefined) {
+    const cached = measuredShapes.get(shapeId);
+    if (cached) return cached;
+    const shape = shapeLoader.getShape(shapeId);
+    if (shape && shape.coordinates.length > 1) {
+      const path = measurePath(shape.coordinates);
+      measuredShapes.set(shapeId, path);
+      return path;
+    }
+  }
+
+  const points = stopTimes
+    .map(stopTime => gtfsParser.getStop(stopTime.stop_id))
+    .filter(stop => stop !== undefined)
+    .map(stop => ({ latitude: stop.stop_lat, longitude: stop.stop_lon }));
+  return points.length > 1 ? measurePath(points) : null;
+}
+
+/**
+ * Expected time at a stop on a service date, shifted by its predicted delay (seconds)
+ */
+function getExpectedAt(run: TripRun, gtfsTime: string, delay: number | null): number {
+  const at = resolveServiceTime(gtfsTime, run.serviceDate, gtfsParser.getAgencyTimezone(run.tripId));
+  return at + (delay ?? 0) * 1000;
+}
+
+/**
+ * Place a trip run along its path at a given time
+ */
+function estimateRun(run: TripRun, now: number): EstimatedPosition | null {
+  // Cheap check first: most runs aren't under way
+  const first = run.stopTimes[0];
+  const last = run.stopTimes[run.stopTimes.length - 1];
+  const lastPrediction = run.predictions[run.predictions.length - 1];
+  if (now < getExpectedAt(run, first.departure_time || first.arrival_time, run.predictions[0]?.departure_delay)) {
+    return null;
+  }
+  if (now > getExpectedAt(run, last.arrival_time || last.departure_time, lastPrediction?.arrival_delay)) return null;
+
+  const path = getTripPath(run.tripId, run.stopTimes);
+  if (!path) return null;
+
+  let distances = stopDistances.get(run.tripId);
+  if (!distances) {
+    distances = run.stopTimes.map(stopTime => {
+      const stop = gtfsParser.getStop(stopTime.stop_id);
+      const match = stop ? projectOntoPath(path, { latitude: stop.stop_lat, longitude: stop.stop_lon }) : null;
+      return match?.distanceAlong ?? null;
+    });
+    stopDistances.set(run.tripId, distances);
+  }
+
+  const stops: TimedStop[] = [];
+  run.stopTimes.forEach((stopTime, index) => {
+    const prediction = run.predictions[index];
+    const distanceAlong = distances[index];
+    if (prediction?.skipped || distanceAlong === null) return;
+    stops.push({
+      // Loops can make a later stop snap behind an earlier one
+      distanceAlong: Math.max(distanceAlong, stops[stops.length - 1]?.distanceAlong ?? 0),
+      arriveAt: getExpectedAt(run, stopTime.arrival_time || stopTime.departure_time, prediction?.arrival_delay),
+      departAt: getExpectedAt(run, stopTime.departure_time || stopTime.arrival_time, prediction?.departure_delay),
+    });
+  });
+
+  const distance = estimateDistanceAlong(stops, now);
+  if (distance === null) return null;
+  const { point, bearing } = getPointAlongPath(path, distance);
+  return { tripId: run.tripId, serviceDate: run.serviceDate, ...point, bearing };
+}
+
+/**
+ * Runs of a scheduled trip on the service dates that could still be under way, leaving out cancelled runs
+ * Called for every trip of every feed with live data, so the calendar is checked before anything is allocated
+ */
+function getTripRuns(tripId: string, now: number, snapshot: RealtimeSnapshot): TripRun[] {
+  const serviceDates: string[] = [];
+  for (let daysBack = 0; daysBack <= SERVICE_DAYS_BACK; daysBack++) {
+    const date = addDays(new Date(now), -daysBack);
+    if (gtfsParser.isTripActiveOn(tripId, date)) serviceDates.push(formatGTFSDate(date));
+  }
+  if (serviceDates.length === 0) return [];
+
+  const stopTimes = gtfsParser.getScheduledStopTimes(tripId);
+  if (stopTimes.length < 2) return [];
+  const runs: TripRun[] = [];
+  for (const serviceDate of serviceDates) {
+    const updates = RealtimeService.getUpdatesInSnapshot(snapshot, tripId, serviceDate);
+    // Cancellations come without stop updates, so the run would otherwise be placed on its schedule
+    if (RealtimeService.isCancelledUpdate(updates)) continue;
+    runs.push({ tripId, serviceDate, stopTimes, predictions: propagateDelays(stopTimes, updates) });
+  }
+  return runs;
+}
+
+function getDistanceSquared(a: PathPoint, b: PathPoint): number {
+  return (a.latitude - b.latitude) ** 2 + (a.longitude - b.longitude) ** 2;
+}
+
+export class PositionEstimator {
+  /**
+   * Estimate a train's position from its schedule and last known delays
+   * Realtime trip ids are resolved to the scheduled trip with the same train number
+   * @param near - Last reported position, to tell apart runs of the same trip on different service dates
+   */
+  static async estimateTrain(
+    tripId: string,
+    now: number,
+    snapshot: RealtimeSnapshot,
+    near?: PathPoint
+  ): Promise<EstimatedPosition | null> {
+    const scheduledTripId = gtfsParser.getScheduledTrip(tripId)?.trip_id;
+    if (!scheduledTripId) return null;
+
+    const estimates = getTripRuns(scheduledTripId, now, snapshot)
+      .map(run => estimateRun(run, now))
+      .filter(estimate => estimate !== null);
+    if (!near) return estimates[0] ?? null;
+    return estimates.sort((a, b) => getDistanceSquared(a, near) - getDistanceSquared(b, near))[0] ?? null;
+  }
+
+  /**
+   * Estimate every train of an operator with live data that should be running now
+   * Needs a service calendar, since without one every trip would look like it runs every day
+   */
+  static async getRunningTrains(now: number, snapshot: RealtimeSnapshot): Promise<EstimatedPosition[]> {
+    if (!gtfsParser.hasServiceCalendar()) return [];
+    const realtimeFeedIds = new Set(
+      gtfsParser
+        .getFeeds()
+        .filter(feed => feed.realtimeUrls && feed.realtimeUrls.length > 0)
+        .map(feed => feed.id)
+    );
+
+    const estimates: EstimatedPosition[] = [];
+    for (const trip of gtfsParser.getAllTrips()) {
+      const feed = gtfsParser.getFeed(trip.trip_id);
+      if (!feed || !realtimeFeedIds.has(feed.id)) continue;
+      for (const run of getTripRuns(trip.trip_id, now, snapshot)) {
+        const estimate = estimateRun(run, now);
+        if (estimate) estimates.push(estimate);
+      }
+    }
+    return estimates;
+  }
+
+  /**
+   * Forget measured shapes and stop positions, e.g. after a new schedule is loaded
+   */
+  static clearCache(): void {
+    measuredShapes.clear();
+    stopDistances.clear();
+  }
+}
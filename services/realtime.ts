@@ -1,11 +1,18 @@
 /**
  * Real-time train tracking service
- * Fetches live positions and delays from Transitdocs GTFS-RT feed
+ * Fetches live positions, delays and service alerts from the GTFS-RT feeds of every loaded operator
+ * Ids from each feed are namespaced like the schedule's (see utils/feed-ids)
  */
 
 import { Alert } from 'react-native';
 import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import { DEFAULT_FEED_ID, getFeedSource } from '../constants/feeds';
+import { RealtimePositionSchema, RealtimeUpdateSchema } from '../types/gtfs-schemas';
+import type { FeedSource } from '../types/train';
+import { propagateDelays, type PredictedStopTime } from '../utils/delay-propagation';
+import { getFeedIdOf, scopeId } from '../utils/feed-ids';
 import { gtfsParser } from '../utils/gtfs-parser';
+import { ValidationCollector, type ValidationReport } from '../utils/gtfs-validation';
 import { extractTrainNumber } from '../utils/train-helpers';
 import { logger } from '../utils/logger';
 
@@ -24,31 +31,82 @@ export interface RealtimePosition {
   timestamp: number;
   vehicle_id?: string;
   train_number?: string; // Extracted train number for matching
+  start_date?: string; // Service date of the run (YYYYMMDD), when the feed gives it
 }
 
+export type StopScheduleRelationship = 'SCHEDULED' | 'SKIPPED' | 'NO_DATA' | 'UNSCHEDULED';
+
+export type TripScheduleRelationship =
+  | 'SCHEDULED'
+  | 'ADDED'
+  | 'UNSCHEDULED'
+  | 'CANCELED'
+  | 'REPLACEMENT'
+  | 'DUPLICATED'
+  | 'DELETED';
+
 export interface RealtimeUpdate {
   trip_id: string;
-  stop_id?: string;
+  stop_id?: string; // Missing for trip-level entries (e.g. a cancelled trip with no stop updates)
+  stop_sequence?: number;
   arrival_delay?: number; // seconds
   departure_delay?: number; // seconds
-  schedule_relationship?: 'SCHEDULED' | 'SKIPPED' | 'NO_DATA';
+  assigned_stop_id?: string; // Stop (platform) the train now serves instead of the scheduled one
+  schedule_relationship?: StopScheduleRelationship;
+  trip_schedule_relationship: TripScheduleRelationship;
+  start_date?: string; // Service date of the run (YYYYMMDD), when the feed gives it
 }
 
-export interface RealtimeAlert {
-  trip_id?: string;
+export interface RealtimeAlertEntity {
+  agency_id?: string;
   route_id?: string;
+  trip_id?: string;
+  stop_id?: string;
+}
+
+export interface RealtimeAlertPeriod {
+  start?: number; // ms since epoch, open-ended if missing
+  end?: number; // ms since epoch, open-ended if missing
+}
+
+export interface RealtimeAlert {
+  id: string;
   header: string;
   description: string;
   severity?: 'INFO' | 'WARNING' | 'SEVERE';
+  url?: string;
+  active_periods: RealtimeAlertPeriod[]; // Empty means always active
+  informed_entities: RealtimeAlertEntity[];
 }
 
-// Transitdocs GTFS-RT endpoint (consolidates vehicle positions and trip updates)
-const TRANSITDOCS_GTFS_RT_URL = 'https://asm-backend.transitdocs.com/gtfs/amtrak';
+/**
+ * The decoded GTFS-RT feeds of all loaded operators, fetched together. Positions, trip updates
+ * and alerts always come from the same payloads, so every consumer sees a consistent view.
+ * Train numbers are namespaced by feed like ids, since operators reuse them ("metra:1234"). Runs with a
+ * start date are also keyed by run ("amtrak:3@20260116"), since a train runs on several days at once.
+ */
+export interface RealtimeSnapshot {
+  readonly positions: ReadonlyMap<string, RealtimePosition>; // Keyed by trip_id and namespaced train number, and by run
+  readonly updates: ReadonlyMap<string, readonly RealtimeUpdate[]>; // Keyed by trip_id and namespaced train number, and by run
+  readonly alerts: readonly RealtimeAlert[];
+  readonly feedTimestamp: number | null; // Oldest feed header timestamp (ms)
+  readonly fetchedAt: number; // When the payload was received (ms)
+  readonly validation: ValidationReport | null; // Entities dropped by schema validation
+}
 
 // Cache for real-time data (15 seconds TTL for more frequent updates)
 const CACHE_TTL = 15000;
-let positionsCache: { data: Map<string, RealtimePosition>; timestamp: number } | null = null;
-let updatesCache: { data: Map<string, RealtimeUpdate[]>; timestamp: number } | null = null;
+let snapshotCache: RealtimeSnapshot | null = null;
+let inFlightSnapshot: Promise<RealtimeSnapshot> | null = null;
+
+const EMPTY_SNAPSHOT: RealtimeSnapshot = Object.freeze({
+  positions: new Map<string, RealtimePosition>(),
+  updates: new Map<string, readonly RealtimeUpdate[]>(),
+  alerts: Object.freeze([]) as readonly RealtimeAlert[],
+  feedTimestamp: null,
+  fetchedAt: 0,
+  validation: null,
+});
 
 /**
  * Show error alert to user (rate-limited)
@@ -64,7 +122,7 @@ function showRealtimeErrorAlert(status: number): void {
     let message = 'Unable to fetch live train positions. ';
     if (status === 503) {
       message +=
-        'The Transitdocs service is temporarily unavailable. Train positions will update when service is restored.';
+        'The live data service is temporarily unavailable. Train positions will update when service is restored.';
     } else if (status === 429) {
       message += 'Too many requests. Please wait a moment.';
     } else {
@@ -85,8 +143,8 @@ function resetErrorCounter(): void {
 /**
  * Fetch GTFS-RT protobuf data
  */
-async function fetchProtobuf(url: string): Promise<Uint8Array> {
-  const response = await fetch(url);
+async function fetchProtobuf(url: string, headers?: Record<string, string>): Promise<Uint8Array> {
+  const response = await fetch(url, { headers });
   if (!response.ok) {
     showRealtimeErrorAlert(response.status);
     throw new Error(`GTFS-RT fetch failed: ${response.status}`);
@@ -96,23 +154,85 @@ async function fetchProtobuf(url: string): Promise<Uint8Array> {
   return new Uint8Array(arrayBuffer);
 }
 
-// extractTrainNumber is now imported from utils/train-helpers
+/**
+ * Operators whose live data is fetched: loaded feeds that publish GTFS-RT,
+ * or the default feed before any schedule is loaded
+ */
+function getRealtimeFeeds(): FeedSource[] {
+  const loaded = gtfsParser.getFeeds();
+  const feeds = loaded.length > 0 ? loaded : [getFeedSource(DEFAULT_FEED_ID)!];
+  return feeds.filter(feed => feed.realtimeUrls && feed.realtimeUrls.length > 0);
+}
 
 /**
- * Parse GTFS-RT protobuf for vehicle positions
+ * Namespace a train number within its trip's feed, since operators reuse train numbers
+ * Ids without a namespace are treated as the default feed's
  */
-function parseVehiclePositions(buffer: Uint8Array): Map<string, RealtimePosition> {
+function getTrainKey(tripIdOrTrainNumber: string): string {
+  return scopeId(getFeedIdOf(tripIdOrTrainNumber) ?? DEFAULT_FEED_ID, extractTrainNumber(tripIdOrTrainNumber));
+}
+
+/**
+ * Key a trip id or train number by the service date of one of its runs
+ */
+function getRunKey(key: string, serviceDate: string): string {
+  return `${key}@${serviceDate}`;
+}
+
+/**
+ * Index an entry by trip id and namespaced train number, and by run when the feed gives its start date
+ */
+function setEntry<T>(
+  entries: Map<string, T>,
+  tripId: string,
+  trainKey: string,
+  startDate: string | undefined,
+  entry: T
+): void {
+  const keys = trainKey !== tripId ? [tripId, trainKey] : [tripId];
+  for (const key of keys) {
+    entries.set(key, entry);
+    if (startDate) entries.set(getRunKey(key, startDate), entry);
+  }
+}
+
+/**
+ * Look up the entry of a trip id or train number, by trip id first, then by train number
+ * With a service date, entries of runs on other dates are skipped; entries without a start date match any date
+ */
+function findEntry<T>(
+  entries: ReadonlyMap<string, T>,
+  tripIdOrTrainNumber: string,
+  serviceDate: string | undefined,
+  getStartDate: (entry: T) => string | undefined
+): T | undefined {
+  for (const key of [tripIdOrTrainNumber, getTrainKey(tripIdOrTrainNumber)]) {
+    const entry = serviceDate ? (entries.get(getRunKey(key, serviceDate)) ?? entries.get(key)) : entries.get(key);
+    if (entry !== undefined && (!serviceDate || (getStartDate(entry) ?? serviceDate) === serviceDate)) return entry;
+  }
+  return undefined;
+}
+
+type FeedMessage = GtfsRealtimeBindings.transit_realtime.FeedMessage;
+type FeedEntity = GtfsRealtimeBindings.transit_realtime.IFeedEntity;
+
+/**
+ * Extract vehicle positions from a feed's decoded entities
+ */
+function parseVehiclePositions(
+  feedId: string,
+  entities: readonly FeedEntity[],
+  validation: ValidationCollector
+): Map<string, RealtimePosition> {
   const positions = new Map<string, RealtimePosition>();
 
   try {
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(buffer);
-
-    for (const entity of feed.entity) {
+    for (const entity of entities) {
       if (entity.vehicle && entity.vehicle.position && entity.vehicle.trip) {
-        const tripId = entity.vehicle.trip.tripId || '';
+        const tripId = scopeId(feedId, entity.vehicle.trip.tripId || '');
         const trainNumber = extractTrainNumber(tripId);
-
-        positions.set(tripId, {
+        const startDate = entity.vehicle.trip.startDate || undefined;
+        const position: RealtimePosition = {
           trip_id: tripId,
           train_number: trainNumber,
           latitude: entity.vehicle.position.latitude,
@@ -123,12 +243,17 @@ function parseVehiclePositions(buffer: Uint8Array): Map<string, RealtimePosition
             ? Number(entity.vehicle.timestamp) * 1000 // Convert to milliseconds
             : Date.now(),
           vehicle_id: entity.vehicle.vehicle?.id ?? undefined,
-        });
-
-        // Also index by train number for easier lookup
-        if (trainNumber !== tripId) {
-          positions.set(trainNumber, positions.get(tripId)!);
+          start_date: startDate,
+        };
+        if (
+          !validation.check(scopeId(feedId, 'vehicle_positions'), RealtimePositionSchema, position, {
+            id: entity.id,
+          })
+        ) {
+          continue;
         }
+
+        setEntry(positions, tripId, scopeId(feedId, trainNumber), startDate, position);
       }
     }
   } catch (error) {
@@ -138,38 +263,77 @@ function parseVehiclePositions(buffer: Uint8Array): Map<string, RealtimePosition
   return positions;
 }
 
+// GTFS-RT StopTimeUpdate.ScheduleRelationship values
+const STOP_SCHEDULE_RELATIONSHIPS: Record<number, StopScheduleRelationship> = {
+  0: 'SCHEDULED',
+  1: 'SKIPPED',
+  2: 'NO_DATA',
+  3: 'UNSCHEDULED',
+};
+
+// GTFS-RT TripDescriptor.ScheduleRelationship values (4 is unused by the spec)
+const TRIP_SCHEDULE_RELATIONSHIPS: Record<number, TripScheduleRelationship> = {
+  0: 'SCHEDULED',
+  1: 'ADDED',
+  2: 'UNSCHEDULED',
+  3: 'CANCELED',
+  5: 'REPLACEMENT',
+  6: 'DUPLICATED',
+  7: 'DELETED',
+};
+
 /**
- * Parse GTFS-RT protobuf for trip updates
+ * Extract trip updates from a feed's decoded entities
+ * Trips without stop updates still get one trip-level entry so cancellations are not lost
  */
-function parseTripUpdates(buffer: Uint8Array): Map<string, RealtimeUpdate[]> {
+function parseTripUpdates(
+  feedId: string,
+  entities: readonly FeedEntity[],
+  validation: ValidationCollector
+): Map<string, RealtimeUpdate[]> {
   const updates = new Map<string, RealtimeUpdate[]>();
+  const file = scopeId(feedId, 'trip_updates');
 
   try {
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(buffer);
-
-    for (const entity of feed.entity) {
+    for (const entity of entities) {
       if (entity.tripUpdate && entity.tripUpdate.trip) {
-        const tripId = entity.tripUpdate.trip.tripId || '';
+        const tripId = scopeId(feedId, entity.tripUpdate.trip.tripId || '');
         const trainNumber = extractTrainNumber(tripId);
+        const tripRelationship =
+          TRIP_SCHEDULE_RELATIONSHIPS[entity.tripUpdate.trip.scheduleRelationship ?? 0] ?? 'SCHEDULED';
+        const startDate = entity.tripUpdate.trip.startDate || undefined;
         const stopUpdates: RealtimeUpdate[] = [];
 
         for (const stopTime of entity.tripUpdate.stopTimeUpdate || []) {
-          stopUpdates.push({
+          const update: RealtimeUpdate = {
             trip_id: tripId,
-            stop_id: stopTime.stopId ?? undefined,
+            stop_id: stopTime.stopId ? scopeId(feedId, stopTime.stopId) : undefined,
+            stop_sequence: stopTime.stopSequence ?? undefined,
             arrival_delay: stopTime.arrival?.delay ?? undefined,
             departure_delay: stopTime.departure?.delay ?? undefined,
-            schedule_relationship: stopTime.scheduleRelationship === 1 ? 'SCHEDULED' : 'NO_DATA',
-          });
+            assigned_stop_id: stopTime.stopTimeProperties?.assignedStopId
+              ? scopeId(feedId, stopTime.stopTimeProperties.assignedStopId)
+              : undefined,
+            schedule_relationship: STOP_SCHEDULE_RELATIONSHIPS[stopTime.scheduleRelationship ?? 0] ?? 'SCHEDULED',
+            trip_schedule_relationship: tripRelationship,
+            start_date: startDate,
+          };
+          if (validation.check(file, RealtimeUpdateSchema, update, { id: entity.id })) {
+            stopUpdates.push(update);
+          }
         }
 
-        if (stopUpdates.length > 0) {
-          updates.set(tripId, stopUpdates);
-          // Also index by train number
-          if (trainNumber !== tripId) {
-            updates.set(trainNumber, stopUpdates);
-          }
+        if (stopUpdates.length === 0) {
+          const update: RealtimeUpdate = {
+            trip_id: tripId,
+            trip_schedule_relationship: tripRelationship,
+            start_date: startDate,
+          };
+          if (!validation.check(file, RealtimeUpdateSchema, update, { id: entity.id })) continue;
+          stopUpdates.push(update);
         }
+
+        setEntry(updates, tripId, scopeId(feedId, trainNumber), startDate, stopUpdates);
       }
     }
   } catch (error) {
@@ -179,73 +343,222 @@ function parseTripUpdates(buffer: Uint8Array): Map<string, RealtimeUpdate[]> {
   return updates;
 }
 
+type TranslatedString = GtfsRealtimeBindings.transit_realtime.ITranslatedString | null | undefined;
+
+/**
+ * Pick the English (or untagged) translation, falling back to the first one
+ */
+function pickTranslation(text: TranslatedString): string {
+  const translations = text?.translation || [];
+  const preferred = translations.find(t => !t.language || t.language.toLowerCase().startsWith('en'));
+  return (preferred || translations[0])?.text ?? '';
+}
+
+/**
+ * Map GTFS-RT SeverityLevel (2 = INFO, 3 = WARNING, 4 = SEVERE) to our severity
+ */
+function mapSeverity(level: number | null | undefined): RealtimeAlert['severity'] {
+  if (level === 2) return 'INFO';
+  if (level === 3) return 'WARNING';
+  if (level === 4) return 'SEVERE';
+  return undefined;
+}
+
+/**
+ * Extract service alerts from a feed's decoded entities
+ */
+function parseAlerts(feedId: string, entities: readonly FeedEntity[]): RealtimeAlert[] {
+  const alerts: RealtimeAlert[] = [];
+  const scope = (id: string | null | undefined) => (id ? scopeId(feedId, id) : undefined);
+
+  try {
+    for (const entity of entities) {
+      if (!entity.alert) continue;
+      const alert = entity.alert;
+
+      alerts.push({
+        id: scopeId(feedId, entity.id),
+        header: pickTranslation(alert.headerText),
+        description: pickTranslation(alert.descriptionText),
+        severity: mapSeverity(alert.severityLevel),
+        url: pickTranslation(alert.url) || undefined,
+        active_periods: (alert.activePeriod || []).map(period => ({
+          start: period.start ? Number(period.start) * 1000 : undefined, // Convert to milliseconds
+          end: period.end ? Number(period.end) * 1000 : undefined,
+        })),
+        informed_entities: (alert.informedEntity || []).map(selector => ({
+          agency_id: scope(selector.agencyId),
+          route_id: scope(selector.routeId),
+          trip_id: scope(selector.trip?.tripId),
+          stop_id: scope(selector.stopId),
+        })),
+      });
+    }
+  } catch (error) {
+    logger.error('Error parsing service alerts:', error);
+  }
+
+  return alerts;
+}
+
+/**
+ * Check whether an alert is active at the given time
+ */
+function isAlertActive(alert: RealtimeAlert, now: number): boolean {
+  if (alert.active_periods.length === 0) return true;
+  return alert.active_periods.some(
+    p => (p.start === undefined || p.start <= now) && (p.end === undefined || now < p.end)
+  );
+}
+
+/**
+ * Convert a delay in seconds to whole minutes
+ */
+function toDelayMinutes(delaySeconds: number | null): number | null {
+  return delaySeconds === null ? null : Math.round(delaySeconds / 60);
+}
+
+/**
+ * Fetch every GTFS-RT endpoint of a feed
+ * Endpoints that fail are skipped unless all of them do
+ */
+async function fetchFeedMessages(feed: FeedSource): Promise<FeedMessage[]> {
+  const results = await Promise.allSettled((feed.realtimeUrls || []).map(url => fetchProtobuf(url, feed.headers)));
+  const messages: FeedMessage[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      messages.push(GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(result.value));
+    } else {
+      logger.warn(`[Realtime] ${feed.name} endpoint failed:`, result.reason);
+    }
+  }
+  if (messages.length === 0) throw new Error(`No ${feed.name} GTFS-RT endpoint responded`);
+  return messages;
+}
+
+/**
+ * Fetch and decode the GTFS-RT feeds of all realtime operators once and build an immutable snapshot
+ * Operators whose feeds fail are left out, unless every operator fails
+ */
+async function fetchSnapshot(): Promise<RealtimeSnapshot> {
+  const feeds = getRealtimeFeeds();
+  const results = await Promise.allSettled(feeds.map(fetchFeedMessages));
+
+  const validation = new ValidationCollector();
+  const positions = new Map<string, RealtimePosition>();
+  const updates = new Map<string, readonly RealtimeUpdate[]>();
+  const alerts: RealtimeAlert[] = [];
+  const timestamps: number[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') return;
+    const feedId = feeds[index].id;
+    const entities = result.value.flatMap(message => message.entity);
+    for (const [key, stopUpdates] of parseTripUpdates(feedId, entities, validation)) {
+      updates.set(key, Object.freeze(stopUpdates));
+    }
+    for (const [key, position] of parseVehiclePositions(feedId, entities, validation)) positions.set(key, position);
+    alerts.push(...parseAlerts(feedId, entities));
+    for (const message of result.value) {
+      if (message.header?.timestamp) timestamps.push(Number(message.header.timestamp) * 1000); // Convert to milliseconds
+    }
+  });
+  if (feeds.length > 0 && results.every(result => result.status === 'rejected')) {
+    throw new Error('GTFS-RT fetch failed for every operator');
+  }
+
+  const rejected = validation.getSummaries().reduce((sum, file) => sum + file.rejected, 0);
+  if (rejected > 0) logger.warn(`[Realtime] Dropped ${rejected} invalid feed entities`);
+
+  return Object.freeze({
+    positions,
+    updates,
+    alerts: Object.freeze(alerts),
+    feedTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : null,
+    fetchedAt: Date.now(),
+    validation: Object.freeze({
+      source: 'realtime',
+      createdAt: Date.now(),
+      files: validation.getSummaries(),
+      passed: true,
+    }),
+  });
+}
+
 export class RealtimeService {
   /**
-   * Get real-time position for a specific trip or train number
-   * Supports both trip_id format (e.g., "2026-01-16_AMTK_543") and train number (e.g., "543")
+   * Get the current feed snapshot, fetching at most once per TTL
+   * Concurrent callers share a single in-flight request
    */
-  static async getPositionForTrip(tripIdOrTrainNumber: string): Promise<RealtimePosition | null> {
-    try {
-      const positions = await this.getAllPositions();
-
-      // Try direct lookup first
-      let position = positions.get(tripIdOrTrainNumber);
+  static async getSnapshot(): Promise<RealtimeSnapshot> {
+    if (snapshotCache && Date.now() - snapshotCache.fetchedAt < CACHE_TTL) {
+      return snapshotCache;
+    }
 
-      // If not found, try extracting/matching train number
-      if (!position) {
-        const trainNumber = extractTrainNumber(tripIdOrTrainNumber);
-        position = positions.get(trainNumber);
-      }
+    if (!inFlightSnapshot) {
+      inFlightSnapshot = fetchSnapshot()
+        .then(snapshot => {
+          snapshotCache = snapshot;
+          return snapshotCache;
+        })
+        .finally(() => {
+          inFlightSnapshot = null;
+        });
+    }
 
-      return position || null;
+    try {
+      return await inFlightSnapshot;
     } catch (error) {
-      logger.error('Error fetching real-time position:', error);
-      return null;
+      logger.error('Error fetching real-time feed:', error);
+      // Return cached data if available, even if stale
+      return snapshotCache || EMPTY_SNAPSHOT;
     }
   }
 
   /**
-   * Get all current train positions from Transitdocs feed
+   * Get real-time position for a specific trip or train number
+   * Supports both trip_id format (e.g., "amtrak:2026-01-16_AMTK_543") and train number (e.g., "amtrak:543";
+   * a bare "543" is looked up in the default feed)
+   * Pass a snapshot to read from it instead of the current cache, and a service date (YYYYMMDD) to only
+   * match that day's run
    */
-  static async getAllPositions(): Promise<Map<string, RealtimePosition>> {
+  static async getPositionForTrip(
+    tripIdOrTrainNumber: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<RealtimePosition | null> {
     try {
-      // Check cache
-      const now = Date.now();
-      if (positionsCache && now - positionsCache.timestamp < CACHE_TTL) {
-        return positionsCache.data;
-      }
+      const { positions } = snapshot || (await this.getSnapshot());
 
-      // Fetch fresh data from Transitdocs
-      const buffer = await fetchProtobuf(TRANSITDOCS_GTFS_RT_URL);
-      const positions = parseVehiclePositions(buffer);
+      // Try direct lookup first, then fall back to the extracted train number
+      const position = findEntry(positions, tripIdOrTrainNumber, serviceDate, p => p.start_date);
 
-      // Update cache
-      positionsCache = { data: positions, timestamp: now };
-      return positions;
+      return position || null;
     } catch (error) {
-      logger.error('Error fetching vehicle positions:', error);
-      // Return cached data if available, even if stale
-      return positionsCache?.data || new Map();
+      logger.error('Error fetching real-time position:', error);
+      return null;
     }
   }
 
+  /**
+   * Get all current train positions from the GTFS-RT feeds
+   */
+  static async getAllPositions(): Promise<ReadonlyMap<string, RealtimePosition>> {
+    return (await this.getSnapshot()).positions;
+  }
+
   /**
    * Get trip updates (delays) for a specific trip or train number
+   * Pass a snapshot to read from it instead of the current cache, and a service date (YYYYMMDD) to only
+   * match that day's run
    */
-  static async getUpdatesForTrip(tripIdOrTrainNumber: string): Promise<RealtimeUpdate[]> {
+  static async getUpdatesForTrip(
+    tripIdOrTrainNumber: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<readonly RealtimeUpdate[]> {
     try {
-      const updates = await this.getAllUpdates();
-
-      // Try direct lookup first
-      let tripUpdates = updates.get(tripIdOrTrainNumber);
-
-      // If not found, try extracting/matching train number
-      if (!tripUpdates) {
-        const trainNumber = extractTrainNumber(tripIdOrTrainNumber);
-        tripUpdates = updates.get(trainNumber);
-      }
-
-      return tripUpdates || [];
+      return this.getUpdatesInSnapshot(snapshot || (await this.getSnapshot()), tripIdOrTrainNumber, serviceDate);
     } catch (error) {
       logger.error('Error fetching trip updates:', error);
       return [];
@@ -253,49 +566,154 @@ export class RealtimeService {
   }
 
   /**
-   * Get all trip updates from Transitdocs feed
+   * Get trip updates for a trip or train number from a snapshot already fetched, without waiting
+   * For code that looks up many trips at once; matches as getUpdatesForTrip does
    */
-  static async getAllUpdates(): Promise<Map<string, RealtimeUpdate[]>> {
-    try {
-      // Check cache
-      const now = Date.now();
-      if (updatesCache && now - updatesCache.timestamp < CACHE_TTL) {
-        return updatesCache.data;
-      }
+  static getUpdatesInSnapshot(
+    snapshot: RealtimeSnapshot,
+    tripIdOrTrainNumber: string,
+    serviceDate?: string
+  ): readonly RealtimeUpdate[] {
+    // Try direct lookup first, then fall back to the extracted train number
+    return findEntry(snapshot.updates, tripIdOrTrainNumber, serviceDate, u => u[0]?.start_date) || [];
+  }
+
+  /**
+   * Get all trip updates from the GTFS-RT feeds
+   */
+  static async getAllUpdates(): Promise<ReadonlyMap<string, readonly RealtimeUpdate[]>> {
+    return (await this.getSnapshot()).updates;
+  }
 
-      // Fetch fresh data from Transitdocs
-      const buffer = await fetchProtobuf(TRANSITDOCS_GTFS_RT_URL);
-      const updates = parseTripUpdates(buffer);
+  /**
+   * Get the trip-level schedule relationship (e.g. CANCELED, ADDED) for a trip or train number
+   * Returns null when the feed has no update for the trip
+   * Pass a snapshot and service date as for getUpdatesForTrip
+   */
+  static async getTripScheduleRelationship(
+    tripIdOrTrainNumber: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<TripScheduleRelationship | null> {
+    const updates = await this.getUpdatesForTrip(tripIdOrTrainNumber, snapshot, serviceDate);
+    return updates[0]?.trip_schedule_relationship ?? null;
+  }
 
-      // Update cache
-      updatesCache = { data: updates, timestamp: now };
-      return updates;
-    } catch (error) {
-      logger.error('Error fetching trip updates:', error);
-      // Return cached data if available, even if stale
-      return updatesCache?.data || new Map();
-    }
+  /**
+   * Check whether a trip has been cancelled (or removed) in the realtime feed
+   */
+  static async isTripCancelled(
+    tripIdOrTrainNumber: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<boolean> {
+    return this.isCancelledUpdate(await this.getUpdatesForTrip(tripIdOrTrainNumber, snapshot, serviceDate));
   }
 
   /**
-   * Get delay in minutes for a trip at a specific stop
+   * Check whether a trip's updates, as returned by getUpdatesInSnapshot, cancel (or remove) it
    */
-  static async getDelayForStop(tripIdOrTrainNumber: string, stopId: string): Promise<number | null> {
-    try {
-      const updates = await this.getUpdatesForTrip(tripIdOrTrainNumber);
-      const stopUpdate = updates.find(u => u.stop_id === stopId);
+  static isCancelledUpdate(updates: readonly RealtimeUpdate[]): boolean {
+    const relationship = updates[0]?.trip_schedule_relationship;
+    return relationship === 'CANCELED' || relationship === 'DELETED';
+  }
+
+  /**
+   * Predict arrival and departure delays for every stop of a trip
+   * Delays from the feed are carried forward to downstream stops that have no update
+   * Returns an empty list when the trip is not in the static schedule
+   */
+  static async getPredictedStopTimes(
+    tripId: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<PredictedStopTime[]> {
+    const stopTimes = gtfsParser.getStopTimesForTrip(tripId);
+    if (stopTimes.length === 0) return [];
+
+    const updates = await this.getUpdatesForTrip(tripId, snapshot, serviceDate);
+    return propagateDelays(stopTimes, updates);
+  }
 
-      if (stopUpdate && stopUpdate.departure_delay !== undefined) {
-        return Math.round(stopUpdate.departure_delay / 60); // Convert seconds to minutes
+  /**
+   * Get departure delay in minutes for a trip at a specific stop
+   * Uses propagated predictions when the trip is in the static schedule, otherwise an exact stop match
+   * Pass a snapshot and service date as for getUpdatesForTrip
+   */
+  static async getDelayForStop(
+    tripIdOrTrainNumber: string,
+    stopId: string,
+    snapshot?: RealtimeSnapshot,
+    serviceDate?: string
+  ): Promise<number | null> {
+    try {
+      const predicted = await this.getPredictedStopTimes(tripIdOrTrainNumber, snapshot, serviceDate);
+      const prediction = predicted.find(p => p.stop_id === stopId);
+      if (prediction) {
+        return toDelayMinutes(prediction.departure_delay);
       }
 
-      return null;
+      const updates = await this.getUpdatesForTrip(tripIdOrTrainNumber, snapshot, serviceDate);
+      const stopUpdate = updates.find(u => u.stop_id === stopId);
+      return toDelayMinutes(stopUpdate?.departure_delay ?? null);
     } catch (error) {
       logger.error('Error getting delay:', error);
       return null;
     }
   }
 
+  /**
+   * Get all service alerts from the GTFS-RT feeds
+   */
+  static async getAllAlerts(): Promise<readonly RealtimeAlert[]> {
+    return (await this.getSnapshot()).alerts;
+  }
+
+  /**
+   * Get currently active alerts affecting a trip, either directly or through its route
+   * Supports both trip_id and train number, matching the way positions and updates are looked up
+   */
+  static async getAlertsForTrip(tripIdOrTrainNumber: string): Promise<RealtimeAlert[]> {
+    const alerts = await this.getAllAlerts();
+    const now = Date.now();
+    const trainKey = getTrainKey(tripIdOrTrainNumber);
+    const routeId = gtfsParser.getRouteIdForTrip(tripIdOrTrainNumber);
+
+    return alerts.filter(
+      alert =>
+        isAlertActive(alert, now) &&
+        alert.informed_entities.some(e => {
+          if (e.trip_id) {
+            return e.trip_id === tripIdOrTrainNumber || getTrainKey(e.trip_id) === trainKey;
+          }
+          return !!routeId && e.route_id === routeId && !e.stop_id;
+        })
+    );
+  }
+
+  /**
+   * Get currently active alerts affecting a whole route
+   * Alerts scoped to one of its trips or stops are left out, as in getAlertsForTrip
+   */
+  static async getAlertsForRoute(routeId: string): Promise<RealtimeAlert[]> {
+    const alerts = await this.getAllAlerts();
+    const now = Date.now();
+    return alerts.filter(
+      alert =>
+        isAlertActive(alert, now) &&
+        alert.informed_entities.some(e => e.route_id === routeId && !e.trip_id && !e.stop_id)
+    );
+  }
+
+  /**
+   * Get currently active alerts affecting a stop/station
+   */
+  static async getAlertsForStop(stopId: string): Promise<RealtimeAlert[]> {
+    const alerts = await this.getAllAlerts();
+    const now = Date.now();
+    return alerts.filter(alert => isAlertActive(alert, now) && alert.informed_entities.some(e => e.stop_id === stopId));
+  }
+
   /**
    * Format delay for display
    */
@@ -313,8 +731,7 @@ export class RealtimeService {
    * Clear caches (useful for manual refresh)
    */
   static clearCache(): void {
-    positionsCache = null;
-    updatesCache = null;
+    snapshotCache = null;
   }
 
   /**
@@ -324,14 +741,14 @@ export class RealtimeService {
   static async getAllActiveTrains(): Promise<Array<{ trainNumber: string; position: RealtimePosition }>> {
     const positions = await this.getAllPositions();
     const trains: Array<{ trainNumber: string; position: RealtimePosition }> = [];
-    const seen = new Set<string>();
+    // Each position is indexed under several keys (trip id, train number, run); runs of the same
+    // number on different service dates, or for several operators, are separate positions
+    const seen = new Set<RealtimePosition>();
 
     for (const [key, position] of positions.entries()) {
-      const trainNumber = position.train_number || extractTrainNumber(key);
-      if (!seen.has(trainNumber)) {
-        trains.push({ trainNumber, position });
-        seen.add(trainNumber);
-      }
+      if (seen.has(position)) continue;
+      seen.add(position);
+      trains.push({ trainNumber: position.train_number || extractTrainNumber(key), position });
     }
 
     return trains;
@@ -117,6 +117,14 @@ export class ShapeLoader {
     );
   }
 
+  /**
+   * Get one shape's coordinates, e.g. a selected train's path
+   */
+  getShape(shapeId: string): VisibleShape | undefined {
+    const coordinates = this.shapeCoordinates.get(shapeId);
+    return coordinates ? { id: shapeId, coordinates } : undefined;
+  }
+
   /**
    * Get all shapes without viewport filtering
    */
@@ -4,18 +4,86 @@
  * Full train data is reconstructed from GTFS on load
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { SavedTrainRef, Train } from '../types/train';
+import { DEFAULT_FEED_ID } from '../constants/feeds';
+import type {
+  FeedSource,
+  Itinerary,
+  SavedTrainRef,
+  Train,
+  TrainNotificationPreferences,
+  UserPreferences,
+} from '../types/train';
 import { TrainAPIService } from './api';
+import { clearGTFSCache } from './gtfs-cache';
 
 const STORAGE_KEYS = {
   SAVED_TRAINS: 'savedTrainRefs',
+  ARCHIVED_TRAINS: 'archivedTrainRefs',
   USER_PREFERENCES: 'userPreferences',
 } as const;
 
-import { formatTime } from '../utils/time-formatting';
-import { formatDateForDisplay, calculateDaysAway } from '../utils/date-helpers';
+// A realtime status stored in the background is shown on launch only while it is this recent
+const LAST_REALTIME_MAX_AGE_MS = 60 * 60 * 1000;
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  showTimesInDeviceTimeZone: false,
+  enabledFeedIds: [DEFAULT_FEED_ID],
+  customFeeds: [],
+};
+
+import { formatDateForDisplay, calculateDaysAway, getStartOfDay, parseGTFSDate } from '../utils/date-helpers';
+import { getFeedIdOf, scopeId } from '../utils/feed-ids';
+import { gtfsParser } from '../utils/gtfs-parser';
 import { logger } from '../utils/logger';
 
+/**
+ * Whether two references are the same train, segment and travel date
+ */
+function isSameTrip(a: SavedTrainRef, b: Omit<SavedTrainRef, 'savedAt'>): boolean {
+  return a.tripId === b.tripId && a.fromCode === b.fromCode && a.toCode === b.toCode && a.travelDate === b.travelDate;
+}
+
+/**
+ * The day a saved train reaches the rider's stop, given the day they board
+ * Returns null for trains saved without a travel date, or no longer in the schedule
+ */
+function getArrivalDate(ref: SavedTrainRef): Date | null {
+  if (!ref.travelDate) return null;
+  const stopTimes = gtfsParser.getStopTimesForTrip(ref.tripId);
+  const boardingStop = stopTimes.find(s => s.stop_id === ref.fromCode) || stopTimes[0];
+  const alightingStop = stopTimes.find(s => s.stop_id === ref.toCode) || stopTimes[stopTimes.length - 1];
+  if (!boardingStop || !alightingStop) return null;
+
+  const serviceDate = gtfsParser.getServiceDate(boardingStop.departure_time, new Date(ref.travelDate));
+  return gtfsParser.getTravelDate(alightingStop.arrival_time || alightingStop.departure_time, serviceDate);
+}
+
+/**
+ * Saved trains whose arrival date is before the day of `now`
+ * A journey with connections is past as a whole, once its last leg's arrival date has passed
+ */
+function getPastTrainRefs(refs: SavedTrainRef[], now: number): SavedTrainRef[] {
+  const today = getStartOfDay(new Date(now)).getTime();
+  const hasArrived = (ref: SavedTrainRef) => (getArrivalDate(ref)?.getTime() ?? today) < today;
+
+  const upcomingItineraries = new Set(refs.filter(r => r.itineraryId && !hasArrived(r)).map(r => r.itineraryId));
+  return refs.filter(r => (r.itineraryId ? !upcomingItineraries.has(r.itineraryId) : hasArrived(r)));
+}
+
+/**
+ * Namespace the ids of a reference saved before several feeds could be loaded (all Amtrak)
+ */
+function migrateTrainRef(ref: SavedTrainRef): SavedTrainRef {
+  if (getFeedIdOf(ref.tripId) !== undefined) return ref;
+  const scope = (id: string | undefined) => (id ? scopeId(DEFAULT_FEED_ID, id) : id);
+  return {
+    ...ref,
+    tripId: scopeId(DEFAULT_FEED_ID, ref.tripId),
+    fromCode: scope(ref.fromCode),
+    toCode: scope(ref.toCode),
+  };
+}
+
 export class TrainStorageService {
   /**
    * Get all saved train references
@@ -23,44 +91,107 @@ export class TrainStorageService {
   static async getSavedTrainRefs(): Promise<SavedTrainRef[]> {
     try {
       const data = await AsyncStorage.getItem(STORAGE_KEYS.SAVED_TRAINS);
-      return data ? JSON.parse(data) : [];
+      return data ? (JSON.parse(data) as SavedTrainRef[]).map(migrateTrainRef) : [];
     } catch (error) {
       logger.error('Error loading saved train refs:', error);
       return [];
     }
   }
 
+  /**
+   * Get the references of saved trains that were archived after their trip
+   */
+  static async getArchivedTrainRefs(): Promise<SavedTrainRef[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.ARCHIVED_TRAINS);
+      return data ? (JSON.parse(data) as SavedTrainRef[]).map(migrateTrainRef) : [];
+    } catch (error) {
+      logger.error('Error loading archived train refs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move saved trains whose arrival date has passed to the archive
+   * Run at startup and in the background task; a train already archived by an overlapping run is not added twice
+   * @returns How many trains were archived
+   */
+  static async archivePastTrains(now: number = Date.now()): Promise<number> {
+    try {
+      const refs = await this.getSavedTrainRefs();
+      const past = getPastTrainRefs(refs, now);
+      if (past.length === 0) {
+        return 0;
+      }
+
+      const archived = await this.getArchivedTrainRefs();
+      const added = past.filter(
+        ref => !archived.some(a => isSameTrip(a, ref) && a.itineraryId === ref.itineraryId && a.savedAt === ref.savedAt)
+      );
+      await AsyncStorage.setItem(STORAGE_KEYS.ARCHIVED_TRAINS, JSON.stringify([...archived, ...added]));
+      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_TRAINS, JSON.stringify(refs.filter(r => !past.includes(r))));
+      return past.length;
+    } catch (error) {
+      logger.error('Error archiving past trains:', error);
+      return 0;
+    }
+  }
+
   /**
    * Get all saved trains (reconstructed from GTFS data)
    * This fetches full train data from GTFS based on stored references
+   * Trains whose trip is over are left out, until archivePastTrains moves them to the archive
+   * @param options.realtime - Fetch each train's realtime data (default true); without it, trains carry the last
+   *   status stored with saveRealtimeStatuses while it is recent, so the list can be shown before the feed answers
    */
-  static async getSavedTrains(): Promise<Train[]> {
+  static async getSavedTrains(options: { realtime?: boolean } = {}): Promise<Train[]> {
+    const realtime = options.realtime ?? true;
     try {
+      const now = Date.now();
       const refs = await this.getSavedTrainRefs();
+      const past = getPastTrainRefs(refs, now);
       const trains: Train[] = [];
 
-      for (const ref of refs) {
-        const train = await TrainAPIService.getTrainDetails(ref.tripId);
+      for (const ref of refs.filter(r => !past.includes(r))) {
+        const stopTimes = await TrainAPIService.getStopTimesForTrip(ref.tripId);
+
+        // The travel date is the day the user boards, so resolve times against that stop's service day
+        const boardingStop = stopTimes.find(s => s.stop_id === ref.fromCode) || stopTimes[0];
+        const travelDate = ref.travelDate ? new Date(ref.travelDate) : new Date();
+        const serviceDate = boardingStop
+          ? gtfsParser.getServiceDate(boardingStop.departure_time, travelDate)
+          : travelDate;
+
+        const train = await TrainAPIService.getTrainDetails(ref.tripId, serviceDate, { realtime });
         if (train) {
           // If user saved a segmented trip, update from/to based on their segment
           if (ref.fromCode || ref.toCode) {
-            const stopTimes = await TrainAPIService.getStopTimesForTrip(ref.tripId);
-
             if (ref.fromCode) {
               const fromStop = stopTimes.find(s => s.stop_id === ref.fromCode);
               if (fromStop) {
+                const depart = gtfsParser.resolveStopTime(
+                  ref.tripId,
+                  fromStop.stop_id,
+                  fromStop.departure_time,
+                  serviceDate
+                );
                 train.from = fromStop.stop_name;
                 train.fromCode = fromStop.stop_id;
-                train.departTime = formatTime(fromStop.departure_time);
+                train.departTime = depart.time;
+                train.departDayOffset = depart.dayOffset;
+                train.departAt = depart.at;
               }
             }
 
             if (ref.toCode) {
               const toStop = stopTimes.find(s => s.stop_id === ref.toCode);
               if (toStop) {
+                const arrive = gtfsParser.resolveStopTime(ref.tripId, toStop.stop_id, toStop.arrival_time, serviceDate);
                 train.to = toStop.stop_name;
                 train.toCode = toStop.stop_id;
-                train.arriveTime = formatTime(toStop.arrival_time);
+                train.arriveTime = arrive.time;
+                train.arriveDayOffset = arrive.dayOffset;
+                train.arriveAt = arrive.at;
               }
             }
 
@@ -70,20 +201,31 @@ export class TrainStorageService {
               const toIdx = stopTimes.findIndex(s => s.stop_id === ref.toCode);
               if (fromIdx !== -1 && toIdx !== -1) {
                 const segmentStops = stopTimes.slice(fromIdx + 1, toIdx);
-                train.intermediateStops = segmentStops.map(s => ({
-                  time: formatTime(s.departure_time),
-                  name: s.stop_name,
-                  code: s.stop_id,
-                }));
+                train.intermediateStops = segmentStops.map(s => {
+                  const resolved = gtfsParser.resolveStopTime(ref.tripId, s.stop_id, s.departure_time, serviceDate);
+                  return {
+                    time: resolved.time,
+                    dayOffset: resolved.dayOffset,
+                    at: resolved.at,
+                    name: s.stop_name,
+                    code: s.stop_id,
+                  };
+                });
               }
             }
           }
 
           // Update date and daysAway based on travel date
           if (ref.travelDate) {
+            train.travelDate = ref.travelDate;
             train.date = formatDateForDisplay(ref.travelDate);
             train.daysAway = calculateDaysAway(ref.travelDate);
           }
+          if (ref.itineraryId) train.itineraryId = ref.itineraryId;
+          // Shown until the next realtime refresh replaces it
+          if (!realtime && ref.lastRealtime && now - ref.lastRealtime.checkedAt < LAST_REALTIME_MAX_AGE_MS) {
+            train.realtime = ref.lastRealtime;
+          }
 
           trains.push(train);
         }
@@ -103,14 +245,8 @@ export class TrainStorageService {
     try {
       const refs = await this.getSavedTrainRefs();
 
-      // Check if train already exists (same tripId, segment, and travel date)
-      const exists = refs.some(
-        r =>
-          r.tripId === ref.tripId &&
-          r.fromCode === ref.fromCode &&
-          r.toCode === ref.toCode &&
-          r.travelDate === ref.travelDate
-      );
+      // Check if train already exists (same tripId, segment, travel date and itinerary)
+      const exists = refs.some(r => isSameTrip(r, ref) && r.itineraryId === ref.itineraryId);
       if (exists) {
         return false;
       }
@@ -126,6 +262,7 @@ export class TrainStorageService {
 
   /**
    * Save a train (creates a reference from the full train object)
+   * The travel date is the day the train leaves the rider's stop on the service date its times were resolved for
    */
   static async saveTrain(train: Train): Promise<boolean> {
     if (!train.tripId) {
@@ -133,10 +270,17 @@ export class TrainStorageService {
       return false;
     }
 
+    const boardingStop = gtfsParser.getStopTimesForTrip(train.tripId).find(s => s.stop_id === train.fromCode);
+    const travelDate =
+      train.serviceDate && boardingStop
+        ? gtfsParser.getTravelDate(boardingStop.departure_time, parseGTFSDate(train.serviceDate))
+        : getStartOfDay(new Date(train.departAt ?? Date.now()));
+
     const ref: SavedTrainRef = {
       tripId: train.tripId,
       fromCode: train.fromCode || undefined,
       toCode: train.toCode || undefined,
+      travelDate: travelDate.getTime(),
       savedAt: Date.now(),
     };
 
@@ -144,13 +288,76 @@ export class TrainStorageService {
   }
 
   /**
-   * Delete a train by tripId (and optional segment)
+   * Save a journey with connections, its legs in travel order
+   * Returns false when the same journey is already saved
    */
-  static async deleteTrainByTripId(tripId: string, fromCode?: string, toCode?: string): Promise<boolean> {
+  static async saveItinerary(legs: Array<Omit<SavedTrainRef, 'savedAt' | 'itineraryId'>>): Promise<boolean> {
+    try {
+      const itineraries = await this.getItineraries();
+      const exists = itineraries.some(
+        itinerary => itinerary.legs.length === legs.length && itinerary.legs.every((leg, i) => isSameTrip(leg, legs[i]))
+      );
+      if (exists) {
+        return false;
+      }
+
+      const savedAt = Date.now();
+      const itineraryId = savedAt.toString(36);
+      const refs = await this.getSavedTrainRefs();
+      const updatedRefs = [...refs, ...legs.map(leg => ({ ...leg, itineraryId, savedAt }))];
+      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_TRAINS, JSON.stringify(updatedRefs));
+      return true;
+    } catch (error) {
+      logger.error('Error saving itinerary:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get all saved journeys with connections
+   */
+  static async getItineraries(): Promise<Itinerary[]> {
+    const itineraries = new Map<string, SavedTrainRef[]>();
+    for (const ref of await this.getSavedTrainRefs()) {
+      if (!ref.itineraryId) continue;
+      const legs = itineraries.get(ref.itineraryId);
+      if (legs) legs.push(ref);
+      else itineraries.set(ref.itineraryId, [ref]);
+    }
+    return Array.from(itineraries, ([id, legs]) => ({ id, legs }));
+  }
+
+  /**
+   * Delete a saved journey with connections, with all its legs
+   */
+  static async deleteItinerary(itineraryId: string): Promise<boolean> {
+    try {
+      const refs = await this.getSavedTrainRefs();
+      const updatedRefs = refs.filter(r => r.itineraryId !== itineraryId);
+      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_TRAINS, JSON.stringify(updatedRefs));
+      return true;
+    } catch (error) {
+      logger.error('Error deleting itinerary:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a train by tripId (and optional segment and travel date)
+   * Legs of saved journeys are left alone (see deleteItinerary)
+   */
+  static async deleteTrainByTripId(
+    tripId: string,
+    fromCode?: string,
+    toCode?: string,
+    travelDate?: number
+  ): Promise<boolean> {
     try {
       const refs = await this.getSavedTrainRefs();
       const updatedRefs = refs.filter(r => {
-        if (r.tripId !== tripId) return true;
+        if (r.tripId !== tripId || r.itineraryId) return true;
+        // If a travel date is provided, only delete that day's train
+        if (travelDate !== undefined && r.travelDate !== travelDate) return true;
         // If segment codes provided, only delete matching segment
         if (fromCode !== undefined || toCode !== undefined) {
           return r.fromCode !== fromCode || r.toCode !== toCode;
@@ -165,6 +372,71 @@ export class TrainStorageService {
     }
   }
 
+  /**
+   * Get the saved reference for a train (and optional segment) on a travel date
+   */
+  static async getTrainRef(
+    tripId: string,
+    fromCode?: string,
+    toCode?: string,
+    travelDate?: number
+  ): Promise<SavedTrainRef | undefined> {
+    const refs = await this.getSavedTrainRefs();
+    return refs.find(
+      r => r.tripId === tripId && r.fromCode === fromCode && r.toCode === toCode && r.travelDate === travelDate
+    );
+  }
+
+  /**
+   * Update the notification preferences of a saved train (and optional segment) on a travel date
+   */
+  static async saveTrainNotifications(
+    tripId: string,
+    fromCode: string | undefined,
+    toCode: string | undefined,
+    travelDate: number | undefined,
+    notifications: TrainNotificationPreferences
+  ): Promise<boolean> {
+    try {
+      const refs = await this.getSavedTrainRefs();
+      const updatedRefs = refs.map(r =>
+        r.tripId === tripId && r.fromCode === fromCode && r.toCode === toCode && r.travelDate === travelDate
+          ? { ...r, notifications }
+          : r
+      );
+      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_TRAINS, JSON.stringify(updatedRefs));
+      return true;
+    } catch (error) {
+      logger.error('Error saving train notifications:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the realtime status of saved trains, so the app can show it on launch before fetching its own
+   * Trains are matched to their saved references by trip, segment (when saved with one) and travel date
+   */
+  static async saveRealtimeStatuses(trains: Train[], checkedAt: number = Date.now()): Promise<boolean> {
+    try {
+      const refs = await this.getSavedTrainRefs();
+      const updatedRefs = refs.map(r => {
+        const train = trains.find(
+          t =>
+            t.tripId === r.tripId &&
+            t.travelDate === r.travelDate &&
+            (!r.fromCode || t.fromCode === r.fromCode) &&
+            (!r.toCode || t.toCode === r.toCode)
+        );
+        return train?.realtime ? { ...r, lastRealtime: { ...train.realtime, checkedAt } } : r;
+      });
+      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_TRAINS, JSON.stringify(updatedRefs));
+      return true;
+    } catch (error) {
+      logger.error('Error saving realtime statuses:', error);
+      return false;
+    }
+  }
+
   /**
    * Delete a train by numeric ID (for backwards compatibility)
    */
@@ -172,6 +444,59 @@ export class TrainStorageService {
     return this.deleteTrainByTripId(String(trainId));
   }
 
+  /**
+   * Get user preferences, filling in defaults for anything not yet saved
+   */
+  static async getPreferences(): Promise<UserPreferences> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
+      return { ...DEFAULT_PREFERENCES, ...(data ? JSON.parse(data) : {}) };
+    } catch (error) {
+      logger.error('Error loading preferences:', error);
+      return { ...DEFAULT_PREFERENCES };
+    }
+  }
+
+  /**
+   * Update one or more user preferences
+   */
+  static async savePreferences(updates: Partial<UserPreferences>): Promise<boolean> {
+    try {
+      const current = await this.getPreferences();
+      await AsyncStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify({ ...current, ...updates }));
+      return true;
+    } catch (error) {
+      logger.error('Error saving preferences:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a custom data source and enable it
+   */
+  static async addCustomFeed(feed: FeedSource): Promise<boolean> {
+    const { customFeeds, enabledFeedIds } = await this.getPreferences();
+    return this.savePreferences({
+      customFeeds: [...customFeeds, feed],
+      enabledFeedIds: [...enabledFeedIds, feed.id],
+    });
+  }
+
+  /**
+   * Remove a custom data source along with its cached schedule
+   * Falls back to the default operator if it was the only one enabled
+   */
+  static async removeCustomFeed(feedId: string): Promise<boolean> {
+    const { customFeeds, enabledFeedIds } = await this.getPreferences();
+    const remaining = enabledFeedIds.filter(id => id !== feedId);
+    const saved = await this.savePreferences({
+      customFeeds: customFeeds.filter(feed => feed.id !== feedId),
+      enabledFeedIds: remaining.length > 0 ? remaining : [DEFAULT_FEED_ID],
+    });
+    clearGTFSCache(feedId);
+    return saved;
+  }
+
   /**
    * Clear all saved trains
    */
@@ -5,6 +5,15 @@
 
 import { z } from 'zod';
 
+// Identifiers must be non-empty
+const GtfsIdSchema = z.string().min(1);
+
+// GTFS times are HH:MM:SS and may pass 24:00:00 for trips running past midnight
+const GtfsTimeSchema = z.string().regex(/^\d{1,2}:[0-5]\d:[0-5]\d$/, 'Expected HH:MM:SS');
+
+// Service dates are YYYYMMDD
+const GtfsDateSchema = z.string().regex(/^\d{8}$/, 'Expected YYYYMMDD');
+
 /**
  * Train position schema (GTFS-RT vehicle position)
  */
@@ -19,7 +28,7 @@ export const TrainPositionSchema = z.object({
  * GTFS-RT realtime position schema
  */
 export const RealtimePositionSchema = z.object({
-  trip_id: z.string(),
+  trip_id: GtfsIdSchema,
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
   bearing: z.number().min(0).max(360).optional(),
@@ -27,25 +36,32 @@ export const RealtimePositionSchema = z.object({
   timestamp: z.number(),
   vehicle_id: z.string().optional(),
   train_number: z.string().optional(),
+  start_date: GtfsDateSchema.optional(),
 });
 
 /**
  * GTFS-RT realtime update schema
  */
 export const RealtimeUpdateSchema = z.object({
-  trip_id: z.string(),
+  trip_id: GtfsIdSchema,
   stop_id: z.string().optional(),
+  stop_sequence: z.number().int().min(0).optional(),
   arrival_delay: z.number().optional(),
   departure_delay: z.number().optional(),
-  schedule_relationship: z.enum(['SCHEDULED', 'SKIPPED', 'NO_DATA']).optional(),
+  assigned_stop_id: z.string().optional(),
+  schedule_relationship: z.enum(['SCHEDULED', 'SKIPPED', 'NO_DATA', 'UNSCHEDULED']).optional(),
+  trip_schedule_relationship: z
+    .enum(['SCHEDULED', 'ADDED', 'UNSCHEDULED', 'CANCELED', 'REPLACEMENT', 'DUPLICATED', 'DELETED'])
+    .optional(),
+  start_date: GtfsDateSchema.optional(),
 });
 
 /**
  * GTFS Stop schema
  */
 export const StopSchema = z.object({
-  stop_id: z.string(),
-  stop_name: z.string(),
+  stop_id: GtfsIdSchema,
+  stop_name: z.string().min(1),
   stop_lat: z.number().min(-90).max(90),
   stop_lon: z.number().min(-180).max(180),
   stop_code: z.string().optional(),
@@ -59,10 +75,10 @@ export const StopSchema = z.object({
  * GTFS Route schema
  */
 export const RouteSchema = z.object({
-  route_id: z.string(),
-  route_short_name: z.string(),
-  route_long_name: z.string(),
-  route_type: z.number(),
+  route_id: GtfsIdSchema,
+  route_short_name: z.string().optional(),
+  route_long_name: z.string().min(1),
+  route_type: z.string().regex(/^\d+$/, 'Expected a numeric route type').optional(),
   route_color: z.string().optional(),
   route_text_color: z.string().optional(),
 });
@@ -71,9 +87,9 @@ export const RouteSchema = z.object({
  * GTFS Trip schema
  */
 export const TripSchema = z.object({
-  trip_id: z.string(),
-  route_id: z.string(),
-  service_id: z.string(),
+  trip_id: GtfsIdSchema,
+  route_id: GtfsIdSchema,
+  service_id: GtfsIdSchema,
   trip_headsign: z.string().optional(),
   trip_short_name: z.string().optional(),
   direction_id: z.number().optional(),
@@ -84,11 +100,11 @@ export const TripSchema = z.object({
  * GTFS Stop Time schema
  */
 export const StopTimeSchema = z.object({
-  trip_id: z.string(),
-  stop_id: z.string(),
-  stop_sequence: z.number(),
-  arrival_time: z.string(),
-  departure_time: z.string(),
+  trip_id: GtfsIdSchema,
+  stop_id: GtfsIdSchema,
+  stop_sequence: z.number().int().min(0),
+  arrival_time: GtfsTimeSchema,
+  departure_time: GtfsTimeSchema,
   stop_headsign: z.string().optional(),
   pickup_type: z.number().optional(),
   drop_off_type: z.number().optional(),
@@ -99,10 +115,10 @@ export const StopTimeSchema = z.object({
  * GTFS Shape Point schema
  */
 export const ShapePointSchema = z.object({
-  shape_id: z.string(),
+  shape_id: GtfsIdSchema,
   shape_pt_lat: z.number().min(-90).max(90),
   shape_pt_lon: z.number().min(-180).max(180),
-  shape_pt_sequence: z.number(),
+  shape_pt_sequence: z.number().int().min(0),
   shape_dist_traveled: z.number().optional(),
 });
 
@@ -10,31 +10,103 @@ export interface Train {
   to: string;
   fromCode: string;
   toCode: string;
-  departTime: string;
-  arriveTime: string;
+  departTime: string; // Local time at the departure station
+  arriveTime: string; // Local time at the arrival station
   departDayOffset?: number; // 0 = same day, 1 = next day, etc.
   arriveDayOffset?: number; // 0 = same day, 1 = next day, etc.
+  departAt?: number; // Departure instant (ms since epoch)
+  arriveAt?: number; // Arrival instant (ms since epoch)
+  serviceDate?: string; // GTFS service date (YYYYMMDD) the times are resolved against
+  travelDate?: number; // Day the rider boards (timestamp), for saved trains saved with one
   date: string;
   daysAway: number;
   routeName: string;
   arriveNext?: boolean;
   intermediateStops?: IntermediateStop[];
+  itineraryId?: string; // Set on each leg of a saved journey with connections
   // Real-time data
   tripId?: string;
   realtime?: {
     position?: { lat: number; lon: number };
-    delay?: number; // minutes
+    delay?: number; // minutes, departure delay at fromCode
+    arrivalDelay?: number; // minutes, predicted arrival delay at toCode
+    cancelled?: boolean; // Trip cancelled in the realtime feed
     status?: string;
     lastUpdated?: number;
   };
 }
 
 export interface IntermediateStop {
-  time: string;
+  time: string; // Local time at the station
+  dayOffset?: number;
+  at?: number; // Departure instant (ms since epoch)
   name: string;
   code: string;
 }
 
+/**
+ * One trip calling at a station, as shown on a departure board
+ * Lightweight compared to Train - full details are built when the row is opened
+ */
+export interface Departure {
+  tripId: string;
+  trainNumber: string;
+  routeName: string;
+  stopId: string; // Station this row is for
+  stopSequence: number;
+  from: string; // Trip origin
+  fromCode: string;
+  to: string; // Trip destination
+  toCode: string;
+  arriveTime: string; // Local time at this station
+  arriveDayOffset: number;
+  arriveAt: number; // Arrival instant at this station (ms since epoch)
+  departTime: string; // Local time at this station
+  departDayOffset: number;
+  departAt: number; // Departure instant at this station (ms since epoch)
+  serviceDate: string; // GTFS service date (YYYYMMDD)
+  realtime?: {
+    delay?: number; // minutes, departure delay at this station
+    cancelled?: boolean;
+  };
+}
+
+/**
+ * Time range for departure board queries, as instants (ms since epoch)
+ * Either bound may be omitted
+ */
+export interface DepartureWindow {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * A transit operator's GTFS and GTFS-RT endpoints
+ * Ids from each feed are namespaced with the feed id inside the app (see utils/feed-ids)
+ */
+export interface FeedSource {
+  id: string; // Namespace for the feed's ids, e.g. "amtrak"; never contains ':'
+  name: string; // Operator name shown to riders
+  agencyId?: string; // agency_id in agency.txt; when set, routes of other agencies in the feed are dropped
+  staticUrl: string; // GTFS zip; custom sources may also point to a local file (see utils/custom-feeds)
+  realtimeUrls?: string[]; // GTFS-RT endpoints, decoded together (e.g. trip updates and vehicle positions)
+  headers?: Record<string, string>; // Sent with every schedule and live data request, e.g. an API key
+  color: string; // Brand colors, used to tell operators apart
+  textColor: string;
+  codePrefix?: string; // Prefix riders may type before a train number, e.g. "AMT" in "AMT543"
+  stationAliases?: Record<string, string[]>; // Common station names, keyed by stop_id as published in the feed
+  namedTrains?: NamedTrains[]; // Train names the feed doesn't publish as routes of their own
+  custom?: boolean; // Added by the rider in Data Sources rather than built in
+}
+
+/**
+ * A train name and the numbers that run under it, e.g. the Saluki (390, 391)
+ */
+export interface NamedTrains {
+  name: string;
+  trainNumbers: string[];
+}
+
 export interface Route {
   route_id: string;
   agency_id?: string;
@@ -46,6 +118,22 @@ export interface Route {
   route_text_color?: string;
 }
 
+export interface Agency {
+  agency_id?: string;
+  agency_name: string;
+  agency_url?: string;
+  agency_timezone: string; // IANA timezone stop times are published in
+}
+
+export interface FeedInfo {
+  feed_publisher_name: string;
+  feed_publisher_url?: string;
+  feed_lang?: string;
+  feed_version?: string;
+  feed_start_date?: string; // YYYYMMDD, first service date the feed covers
+  feed_end_date?: string; // YYYYMMDD, last service date the feed covers
+}
+
 export interface Stop {
   stop_id: string;
   stop_name: string;
@@ -53,6 +141,7 @@ export interface Stop {
   stop_timezone?: string;
   stop_lat: number;
   stop_lon: number;
+  platform_code?: string; // Platform or track, for stops that are one platform of a station
 }
 
 export interface StopTime {
@@ -74,8 +163,48 @@ export interface EnrichedStopTime extends StopTime {
 export interface Trip {
   route_id: string;
   trip_id: string;
+  service_id?: string; // References calendar.txt / calendar_dates.txt
   trip_short_name?: string;
   trip_headsign?: string;
+  shape_id?: string; // References shapes.txt
+}
+
+/**
+ * Weekly service pattern from calendar.txt
+ * Dates are GTFS-style YYYYMMDD strings
+ */
+export interface Calendar {
+  service_id: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Service exception from calendar_dates.txt
+ * exception_type 1 = service added on this date, 2 = service removed on this date
+ */
+export interface CalendarDate {
+  service_id: string;
+  date: string;
+  exception_type: 1 | 2;
+}
+
+/**
+ * Transfer rule between two stops from transfers.txt
+ * transfer_type 0 = recommended, 1 = timed (the departing train waits), 2 = needs min_transfer_time, 3 = not possible
+ */
+export interface Transfer {
+  from_stop_id: string;
+  to_stop_id: string;
+  transfer_type: 0 | 1 | 2 | 3;
+  min_transfer_time?: number; // seconds
 }
 
 export interface Shape {
@@ -95,6 +224,11 @@ export interface SearchResult {
   data: Stop | Trip | Route | { trip_id: string; stop_id?: string; stop_name?: string };
 }
 
+export interface SearchResultGroup {
+  type: SearchResultType;
+  results: SearchResult[];
+}
+
 export interface FrequentlyUsedItem {
   id: string;
   name: string;
@@ -113,4 +247,37 @@ export interface SavedTrainRef {
   toCode?: string; // Optional: user's destination station (for segmented trips)
   travelDate?: number; // Optional: travel date as timestamp (for date-specific trips)
   savedAt: number; // Timestamp when saved
+  notifications?: TrainNotificationPreferences; // Optional: defaults to DEFAULT_NOTIFICATION_PREFERENCES
+  itineraryId?: string; // Optional: the saved journey with connections this train is a leg of
+  lastRealtime?: Train['realtime'] & { checkedAt: number }; // Optional: last realtime status fetched in the background
+}
+
+/**
+ * A saved journey with connections
+ * Each leg is saved like a single train (so it gets its own realtime data and notifications), tagged with the id
+ */
+export interface Itinerary {
+  id: string;
+  legs: SavedTrainRef[]; // In travel order
+}
+
+/**
+ * Which alerts a rider gets for one saved train
+ */
+export interface TrainNotificationPreferences {
+  enabled: boolean; // Master switch for this train
+  departureReminderMinutes: number | null; // Remind this long before departure, null for no reminder
+  delayThresholdsMinutes: number[]; // Alert each time the delay at the boarding or alighting stop crosses one
+  cancellation: boolean; // Alert when the trip is cancelled
+  platformChanges: boolean; // Alert when the boarding platform or track changes
+  stopsBeforeArrival: number | null; // Alert this many stops before the destination, null for no alert
+}
+
+/**
+ * User preferences persisted across app launches
+ */
+export interface UserPreferences {
+  showTimesInDeviceTimeZone: boolean; // Show schedule times in the device timezone instead of station local time
+  enabledFeedIds: string[]; // Operators whose schedules are downloaded (see constants/feeds)
+  customFeeds: FeedSource[]; // Sources added by the rider, alongside the built-in ones
 }
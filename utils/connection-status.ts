@@ -0,0 +1,104 @@
+/**
+ * Connection status of saved journeys
+ * Whether a rider still makes a connection, given the realtime delays of the trains on either side of it
+ */
+
+import type { Train } from '../types/train';
+
+export type ConnectionRisk = 'ok' | 'at-risk' | 'missed';
+
+export interface ConnectionStatus {
+  stationCode: string; // Where the rider changes trains
+  risk: ConnectionRisk;
+  cancelled: 'inbound' | 'outbound' | null; // Which train is cancelled, if either is
+  inboundDelay: number; // minutes late into the station, 0 when on time or unknown
+  outboundDelay: number; // minutes late out of the station, 0 when on time or unknown
+  scheduledLayover: number; // minutes
+  expectedLayover: number; // minutes, after delays
+}
+
+/**
+ * Format a number of minutes
+ * @example
+ * formatMinutes(20) // "20m"
+ * formatMinutes(125) // "2h 5m"
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Get the status of the connection from one leg of a journey to the next
+ * A connection is at risk when the expected layover is shorter than the station's minimum connection time,
+ * and missed when the inbound train is expected after the onward train leaves. Trains running early are
+ * treated as on time, as the onward train won't leave early.
+ * @param minConnectionMinutes - Time needed to change trains at the station, null when unknown
+ * @returns Null when either train has no resolved times
+ * @example
+ * getConnectionStatus(inbound, outbound, 30) // inbound 35 min late onto a 55 min layover
+ * // { risk: 'at-risk', inboundDelay: 35, scheduledLayover: 55, expectedLayover: 20, ... }
+ */
+export function getConnectionStatus(
+  inbound: Train,
+  outbound: Train,
+  minConnectionMinutes: number | null
+): ConnectionStatus | null {
+  if (inbound.arriveAt === undefined || outbound.departAt === undefined) return null;
+
+  const inboundDelay = Math.max(0, inbound.realtime?.arrivalDelay ?? 0);
+  const outboundDelay = Math.max(0, outbound.realtime?.delay ?? 0);
+  const scheduledLayover = Math.round((outbound.departAt - inbound.arriveAt) / 60000);
+  const expectedLayover = scheduledLayover + outboundDelay - inboundDelay;
+  const cancelled = inbound.realtime?.cancelled ? 'inbound' : outbound.realtime?.cancelled ? 'outbound' : null;
+
+  let risk: ConnectionRisk = 'ok';
+  if (cancelled || expectedLayover < 0) risk = 'missed';
+  else if (expectedLayover < (minConnectionMinutes ?? 0)) risk = 'at-risk';
+
+  return {
+    stationCode: inbound.toCode,
+    risk,
+    cancelled,
+    inboundDelay,
+    outboundDelay,
+    scheduledLayover,
+    expectedLayover,
+  };
+}
+
+/**
+ * Get the status of every connection of a journey, skipping those without resolved times
+ * @param legs - In travel order
+ * @param getMinConnectionTime - Time needed to change trains at a station in ms, null when unknown
+ */
+export function getConnectionStatuses(
+  legs: Train[],
+  getMinConnectionTime: (stationCode: string) => number | null
+): ConnectionStatus[] {
+  return legs.slice(1).flatMap((outbound, i) => {
+    const minConnection = getMinConnectionTime(legs[i].toCode);
+    const status = getConnectionStatus(legs[i], outbound, minConnection === null ? null : minConnection / 60000);
+    return status ? [status] : [];
+  });
+}
+
+/**
+ * Describe a connection's status in a line
+ * @example
+ * formatConnectionStatus(status) // "Connection at risk: inbound 35m late, 20m layover"
+ */
+export function formatConnectionStatus(status: ConnectionStatus): string {
+  if (status.cancelled) return `Connection lost: ${status.cancelled} train cancelled`;
+
+  const late = status.inboundDelay > 0 ? `inbound ${formatMinutes(status.inboundDelay)} late` : '';
+  const layover = `${formatMinutes(status.expectedLayover)} layover`;
+  switch (status.risk) {
+    case 'missed':
+      return late ? `Connection likely missed: ${late}` : 'Connection likely missed';
+    case 'at-risk':
+      return `Connection at risk: ${late ? `${late}, ` : ''}${layover}`;
+    default:
+      return late ? `Connection OK: ${late}, ${layover}` : layover;
+  }
+}
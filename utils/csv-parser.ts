@@ -0,0 +1,241 @@
+/**
+ * Incremental CSV parser for GTFS files (RFC 4180)
+ * Text can be fed in chunks of any size; each row is handed to a callback as soon as it is
+ * complete, so large files such as stop_times.txt are never held as one array of rows.
+ * Handles a leading UTF-8 BOM, CRLF / LF / CR line endings, quoted fields with embedded
+ * commas, line breaks and escaped quotes. Malformed input is parsed leniently and reported
+ * through warnings.
+ */
+
+export type CSVRow = Record<string, string>;
+
+export interface CSVWarning {
+  line: number; // 1-based line the record starts on
+  message: string;
+}
+
+export interface CSVParseOptions {
+  onWarning?: (warning: CSVWarning) => void;
+}
+
+const BOM = 0xfeff;
+const COMMA = 0x2c;
+const QUOTE = 0x22;
+const CR = 0x0d;
+const LF = 0x0a;
+
+enum State {
+  FieldStart,
+  Unquoted,
+  Quoted,
+  QuoteInQuoted, // Saw a quote inside a quoted field: either an escaped quote or the closing one
+}
+
+export class CSVStreamParser {
+  private header: string[] | null = null;
+  private fields: string[] = [];
+  private field = '';
+  private state = State.FieldStart;
+  private recordHasContent = false;
+  private pendingCR = false; // Last chunk ended on CR; skip a LF that starts the next one
+  private started = false;
+  private line = 1;
+  private recordLine = 1;
+  private rowCount = 0;
+  private onRow: (row: CSVRow, line: number) => void;
+  private options: CSVParseOptions;
+
+  constructor(onRow: (row: CSVRow, line: number) => void, options: CSVParseOptions = {}) {
+    this.onRow = onRow;
+    this.options = options;
+  }
+
+  /**
+   * Column names from the header record, once it has been parsed
+   */
+  get columns(): string[] | null {
+    return this.header;
+  }
+
+  /**
+   * Number of data rows emitted so far
+   */
+  get rowsParsed(): number {
+    return this.rowCount;
+  }
+
+  write(chunk: string): void {
+    const n = chunk.length;
+    let i = 0;
+    if (!this.started && n > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === BOM) i = 1;
+    }
+
+    while (i < n) {
+      let code = chunk.charCodeAt(i);
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (code === LF) {
+          i++;
+          continue;
+        }
+      }
+
+      switch (this.state) {
+        case State.FieldStart:
+          if (code === QUOTE) {
+            this.state = State.Quoted;
+            this.recordHasContent = true;
+            i++;
+          } else if (code === COMMA) {
+            this.pushField();
+            this.recordHasContent = true;
+            i++;
+          } else if (code === CR || code === LF) {
+            this.endLine(code);
+            i++;
+          } else {
+            this.state = State.Unquoted;
+            this.recordHasContent = true;
+          }
+          break;
+
+        case State.Unquoted: {
+          let j = i;
+          while (j < n) {
+            code = chunk.charCodeAt(j);
+            if (code === COMMA || code === CR || code === LF || code === QUOTE) break;
+            j++;
+          }
+          this.field += chunk.slice(i, j);
+          i = j;
+          if (i === n) break;
+          if (code === COMMA) {
+            this.pushField();
+            this.state = State.FieldStart;
+          } else if (code === QUOTE) {
+            this.warn(this.line, 'Unexpected quote in unquoted field');
+            this.field += '"';
+          } else {
+            this.endLine(code);
+          }
+          i++;
+          break;
+        }
+
+        case State.Quoted: {
+          const end = chunk.indexOf('"', i);
+          const j = end === -1 ? n : end;
+          const text = chunk.slice(i, j);
+          for (let k = text.indexOf('\n'); k !== -1; k = text.indexOf('\n', k + 1)) this.line++;
+          this.field += text;
+          i = j;
+          if (end !== -1) {
+            this.state = State.QuoteInQuoted;
+            i++;
+          }
+          break;
+        }
+
+        case State.QuoteInQuoted:
+          if (code === QUOTE) {
+            this.field += '"';
+            this.state = State.Quoted;
+          } else if (code === COMMA) {
+            this.pushField();
+            this.state = State.FieldStart;
+          } else if (code === CR || code === LF) {
+            this.endLine(code);
+          } else {
+            this.warn(this.line, 'Unexpected character after closing quote');
+            this.field += chunk[i];
+            this.state = State.Unquoted;
+          }
+          i++;
+          break;
+      }
+    }
+  }
+
+  /**
+   * Flush the final record; call once after the last chunk
+   */
+  end(): void {
+    if (this.state === State.Quoted) {
+      this.warn(this.recordLine, 'Unterminated quoted field');
+    }
+    if (this.recordHasContent || this.fields.length > 0) {
+      this.endRecord();
+    }
+    this.pendingCR = false;
+  }
+
+  private pushField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+  }
+
+  private endLine(code: number): void {
+    if (code === CR) this.pendingCR = true;
+    if (this.recordHasContent || this.fields.length > 0) {
+      this.endRecord();
+    }
+    this.line++;
+    this.recordLine = this.line;
+  }
+
+  private endRecord(): void {
+    this.pushField();
+    const fields = this.fields;
+    this.fields = [];
+    this.state = State.FieldStart;
+    this.recordHasContent = false;
+
+    if (!this.header) {
+      this.header = fields.map(name => name.trim());
+      return;
+    }
+
+    if (fields.length !== this.header.length) {
+      this.warn(this.recordLine, `Expected ${this.header.length} fields but found ${fields.length}`);
+    }
+    const row: CSVRow = {};
+    for (let j = 0; j < this.header.length; j++) {
+      row[this.header[j]] = fields[j] ?? '';
+    }
+    this.rowCount++;
+    this.onRow(row, this.recordLine);
+  }
+
+  private warn(line: number, message: string): void {
+    this.options.onWarning?.({ line, message });
+  }
+}
+
+/**
+ * Parse a complete CSV text, calling onRow for each data row
+ * @returns Number of data rows
+ */
+export function forEachCSVRow(
+  text: string,
+  onRow: (row: CSVRow, line: number) => void,
+  options: CSVParseOptions = {}
+): number {
+  const parser = new CSVStreamParser(onRow, options);
+  parser.write(text);
+  parser.end();
+  return parser.rowsParsed;
+}
+
+/**
+ * Parse a complete CSV text into row objects keyed by header name
+ * Prefer forEachCSVRow for large files
+ * @example
+ * parseCSV('stop_id,stop_name\nCHI,"Chicago, IL"') // [{ stop_id: 'CHI', stop_name: 'Chicago, IL' }]
+ */
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVRow[] {
+  const rows: CSVRow[] = [];
+  forEachCSVRow(text, row => rows.push(row), options);
+  return rows;
+}
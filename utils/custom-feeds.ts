@@ -0,0 +1,98 @@
+/**
+ * Custom GTFS / GTFS-RT sources added by the rider in Data Sources
+ * Schedules come from a URL or a zip on the device, e.g. one copied into the app's Documents folder;
+ * live data comes from URLs. An optional API key is sent as a request header.
+ */
+
+import { FEEDS } from '../constants/feeds';
+import type { FeedSource } from '../types/train';
+
+// Cycled in the order sources are added, to tell them apart on the map
+const CUSTOM_FEED_COLORS = ['#8E44AD', '#16A085', '#C0392B', '#2E86C1', '#D35400'];
+
+// RFC 9110 token characters
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+export interface CustomFeedInput {
+  name: string;
+  staticLocation: string; // http(s) URL, file:// URI, or name of a zip in the app's Documents folder
+  realtimeUrls: string; // Separated by whitespace or commas
+  apiKeyHeader: string; // e.g. "x-api-key"
+  apiKey: string;
+}
+
+export type CustomFeedResult = { feed: FeedSource; error?: undefined } | { feed?: undefined; error: string };
+
+const isHttpUrl = (value: string) => /^https?:\/\/[^\s/]+\S*$/i.test(value);
+
+/**
+ * Whether a schedule location is a file on the device rather than a URL
+ */
+export function isLocalSource(location: string): boolean {
+  return !/^https?:\/\//i.test(location);
+}
+
+/**
+ * Why a schedule location can't be used, or null if it can
+ */
+function checkScheduleLocation(location: string): string | null {
+  if (!location) return 'Enter a schedule URL or file';
+  if (!isLocalSource(location)) return isHttpUrl(location) ? null : 'The schedule URL is not valid';
+  if (location.startsWith('file://')) return null;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(location)) return 'The schedule must be an http(s) URL or a file';
+  return location.toLowerCase().endsWith('.zip') ? null : 'The schedule file must be a .zip';
+}
+
+/**
+ * Build a feed id from a source name that no other feed uses
+ * @example
+ * createCustomFeedId('SMART Train', []) // "custom-smart-train"
+ * createCustomFeedId('SMART Train', ['custom-smart-train']) // "custom-smart-train-2"
+ */
+export function createCustomFeedId(name: string, existingIds: readonly string[]): string {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'source';
+  const base = `custom-${slug}`;
+  let id = base;
+  for (let n = 2; existingIds.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Validate a source entered by the rider and build its feed
+ * @param existing - Custom sources already added, for a unique id and color
+ * @example
+ * createCustomFeed({ name: 'Mock', staticLocation: 'http://localhost:8080/gtfs.zip', ... }, []).feed?.id // "custom-mock"
+ */
+export function createCustomFeed(input: CustomFeedInput, existing: readonly FeedSource[]): CustomFeedResult {
+  const name = input.name.trim();
+  const staticLocation = input.staticLocation.trim();
+  const realtimeUrls = input.realtimeUrls.split(/[\s,]+/).filter(Boolean);
+  const apiKeyHeader = input.apiKeyHeader.trim();
+  const apiKey = input.apiKey.trim();
+
+  if (!name) return { error: 'Enter a name' };
+  const scheduleError = checkScheduleLocation(staticLocation);
+  if (scheduleError) return { error: scheduleError };
+  if (!realtimeUrls.every(isHttpUrl)) return { error: 'Live data URLs must be http(s) URLs' };
+  if (apiKey && !apiKeyHeader) return { error: 'Enter the header the API key is sent in' };
+  if (apiKeyHeader && !apiKey) return { error: 'Enter the API key' };
+  if (apiKeyHeader && !HEADER_NAME_PATTERN.test(apiKeyHeader)) return { error: 'The header name is not valid' };
+
+  const ids = [...FEEDS, ...existing].map(feed => feed.id);
+  return {
+    feed: {
+      id: createCustomFeedId(name, ids),
+      name,
+      staticUrl: staticLocation,
+      realtimeUrls: realtimeUrls.length > 0 ? realtimeUrls : undefined,
+      headers: apiKey ? { [apiKeyHeader]: apiKey } : undefined,
+      color: CUSTOM_FEED_COLORS[existing.length % CUSTOM_FEED_COLORS.length],
+      textColor: '#FFFFFF',
+      custom: true,
+    },
+  };
+}
@@ -98,3 +98,32 @@ export function addDays(date: Date, days: number): Date {
   result.setDate(result.getDate() + days);
   return result;
 }
+
+/**
+ * Format a date as a GTFS service date string (YYYYMMDD)
+ * Uses the local calendar day, matching how GTFS service days are defined
+ * @param date - Date to format
+ * @returns Service date string
+ * @example
+ * formatGTFSDate(new Date(2024, 0, 4)) // "20240104"
+ */
+export function formatGTFSDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+/**
+ * Parse a GTFS service date string (YYYYMMDD) into a local Date at midnight
+ * @param dateStr - Service date string
+ * @returns Date on that local calendar day
+ * @example
+ * parseGTFSDate('20240104') // Jan 4, 2024 00:00 local time
+ */
+export function parseGTFSDate(dateStr: string): Date {
+  const year = parseInt(dateStr.slice(0, 4), 10);
+  const month = parseInt(dateStr.slice(4, 6), 10);
+  const day = parseInt(dateStr.slice(6, 8), 10);
+  return new Date(year, month - 1, day);
+}
@@ -0,0 +1,42 @@
+/**
+ * Dead reckoning for trains without a fresh GTFS-RT position
+ * Places a train along its route from its stop times, shifted by its last known delays
+ */
+
+// Reported positions older than this are replaced by an estimate when one is available
+export const STALE_POSITION_MS = 5 * 60_000;
+
+export interface TimedStop {
+  distanceAlong: number; // Meters along the route
+  arriveAt: number; // Expected arrival (ms since epoch), delay included
+  departAt: number; // Expected departure (ms since epoch), delay included
+}
+
+/**
+ * Whether a reported position is too old to show as the train's current location
+ */
+export function isPositionStale(timestamp: number, now: number): boolean {
+  return now - timestamp > STALE_POSITION_MS;
+}
+
+/**
+ * Estimate how far along its route a train is, assuming steady speed between stops
+ * Returns null before the first departure or after the last arrival
+ * @example
+ * // Halfway between a stop at 0 m departing 10:00 and one at 10 km arriving 10:10
+ * estimateDistanceAlong(stops, tenOFive) // 5000
+ */
+export function estimateDistanceAlong(stops: readonly TimedStop[], at: number): number | null {
+  if (stops.length === 0 || at < stops[0].departAt || at > stops[stops.length - 1].arriveAt) return null;
+
+  for (let i = 0; i < stops.length; i++) {
+    const stop = stops[i];
+    if (at <= stop.departAt) return stop.distanceAlong; // Dwelling at the stop
+    const next = stops[i + 1];
+    if (next && at < next.arriveAt) {
+      const progress = (at - stop.departAt) / (next.arriveAt - stop.departAt);
+      return stop.distanceAlong + progress * (next.distanceAlong - stop.distanceAlong);
+    }
+  }
+  return stops[stops.length - 1].distanceAlong;
+}
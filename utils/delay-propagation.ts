@@ -0,0 +1,121 @@
+/**
+ * GTFS-RT delay propagation
+ * Turns sparse stop time updates into a prediction for every stop of a trip
+ */
+
+import type { StopTime } from '../types/train';
+
+export interface StopDelayUpdate {
+  stop_id?: string;
+  stop_sequence?: number;
+  arrival_delay?: number; // seconds
+  departure_delay?: number; // seconds
+  schedule_relationship?: string;
+}
+
+export interface PredictedStopTime {
+  stop_id: string;
+  stop_sequence: number;
+  arrival_delay: number | null; // seconds, null when there is no prediction
+  departure_delay: number | null; // seconds, null when there is no prediction
+  propagated: boolean; // True when the delay was carried forward from an upstream stop
+  skipped: boolean; // True when the train will not stop here (SKIPPED)
+}
+
+/**
+ * Predict arrival and departure delays for every stop of a trip
+ *
+ * Follows GTFS-RT propagation semantics:
+ * - A stop with an update uses its own arrival/departure delays
+ * - A missing arrival delay falls back to the delay carried from upstream,
+ *   a missing departure delay falls back to the stop's arrival delay
+ * - Stops without an update inherit the last known departure delay
+ * - SKIPPED stops have no times, and the delay carries on past them unchanged
+ * - Stops before the first update, or after a NO_DATA update without delays, have no prediction
+ *
+ * Updates are matched by stop_id, or by stop_sequence when the update has no stop_id.
+ *
+ * @example
+ * propagateDelays(stopTimes, [{ stop_id: 'NYP', departure_delay: 300 }])
+ * // NYP and every later stop: { arrival_delay: 300, departure_delay: 300 }
+ */
+export function propagateDelays(
+  stopTimes: readonly StopTime[],
+  updates: readonly StopDelayUpdate[]
+): PredictedStopTime[] {
+  const byStopId = new Map<string, StopDelayUpdate>();
+  const bySequence = new Map<number, StopDelayUpdate>();
+  for (const update of updates) {
+    if (update.stop_id) {
+      if (!byStopId.has(update.stop_id)) byStopId.set(update.stop_id, update);
+    } else if (update.stop_sequence !== undefined) {
+      bySequence.set(update.stop_sequence, update);
+    }
+  }
+
+  const sorted = [...stopTimes].sort((a, b) => a.stop_sequence - b.stop_sequence);
+  let carried: number | null = null;
+
+  return sorted.map(stopTime => {
+    const update = byStopId.get(stopTime.stop_id) ?? bySequence.get(stopTime.stop_sequence);
+    const hasDelay = update?.arrival_delay !== undefined || update?.departure_delay !== undefined;
+
+    if (update?.schedule_relationship === 'SKIPPED') {
+      return {
+        stop_id: stopTime.stop_id,
+        stop_sequence: stopTime.stop_sequence,
+        arrival_delay: null,
+        departure_delay: null,
+        propagated: false,
+        skipped: true,
+      };
+    }
+
+    if (update && !hasDelay && update.schedule_relationship === 'NO_DATA') {
+      carried = null;
+    }
+
+    if (!update || !hasDelay) {
+      return {
+        stop_id: stopTime.stop_id,
+        stop_sequence: stopTime.stop_sequence,
+        arrival_delay: carried,
+        departure_delay: carried,
+        propagated: carried !== null,
+        skipped: false,
+      };
+    }
+
+    const arrivalDelay = update.arrival_delay ?? carried ?? update.departure_delay ?? null;
+    const departureDelay = update.departure_delay ?? arrivalDelay;
+    carried = departureDelay;
+
+    return {
+      stop_id: stopTime.stop_id,
+      stop_sequence: stopTime.stop_sequence,
+      arrival_delay: arrivalDelay,
+      departure_delay: departureDelay,
+      propagated: false,
+      skipped: false,
+    };
+  });
+}
+
+export interface PredictedDelayMinutes {
+  arrival: number | null;
+  departure: number | null;
+  skipped: boolean;
+}
+
+/**
+ * Convert a prediction's delays from seconds to whole minutes for display
+ * @example
+ * toPredictedDelayMinutes({ arrival_delay: 290, departure_delay: null, ... }) // { arrival: 5, departure: null, skipped: false }
+ */
+export function toPredictedDelayMinutes(prediction: PredictedStopTime): PredictedDelayMinutes {
+  return {
+    arrival: prediction.arrival_delay === null ? null : Math.round(prediction.arrival_delay / 60),
+    departure: prediction.departure_delay === null ? null : Math.round(prediction.departure_delay / 60),
+    skipped: prediction.skipped,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Namespacing of GTFS ids by feed
+ * Operators reuse the same stop, trip and route ids, so every id loaded from a feed is prefixed
+ * with the feed id ("amtrak:CHI"). Feed ids never contain ':', so the first ':' separates them.
+ */
+
+import type { GTFSData } from '../services/gtfs-cache';
+import type { FeedSource } from '../types/train';
+
+const SEPARATOR = ':';
+
+/**
+ * Prefix a feed's id with the feed id
+ * @example
+ * scopeId('metra', 'CUS') // "metra:CUS"
+ */
+export function scopeId(feedId: string, id: string): string {
+  return `${feedId}${SEPARATOR}${id}`;
+}
+
+/**
+ * Get the feed an id belongs to, or undefined for an id without a namespace
+ * @example
+ * getFeedIdOf('metra:CUS') // "metra"
+ */
+export function getFeedIdOf(id: string): string | undefined {
+  const index = id.indexOf(SEPARATOR);
+  return index > 0 ? id.slice(0, index) : undefined;
+}
+
+/**
+ * Get an id as published in its feed
+ * @example
+ * unscopeId('amtrak:CHI') // "CHI"
+ * unscopeId('CHI') // "CHI"
+ */
+export function unscopeId(id: string): string {
+  const index = id.indexOf(SEPARATOR);
+  return index > 0 ? id.slice(index + 1) : id;
+}
+
+/**
+ * Namespace every id in a feed's data set
+ * When the feed has an agencyId, routes of other agencies are dropped along with their trips.
+ * Routes that omit agency_id are assigned the feed's only agency, so timezones still resolve.
+ */
+export function scopeGTFSData(feed: FeedSource, data: GTFSData): GTFSData {
+  const scope = (id: string) => scopeId(feed.id, id);
+  const defaultAgencyId = data.agencies.length === 1 ? data.agencies[0].agency_id || '' : undefined;
+
+  const routes = data.routes
+    .filter(route => !feed.agencyId || !route.agency_id || route.agency_id === feed.agencyId)
+    .map(route => {
+      const agencyId = route.agency_id ?? defaultAgencyId;
+      return {
+        ...route,
+        route_id: scope(route.route_id),
+        agency_id: agencyId !== undefined ? scope(agencyId) : undefined,
+      };
+    });
+  const routeIds = new Set(routes.map(route => route.route_id));
+
+  const trips = data.trips
+    .map(trip => ({
+      ...trip,
+      trip_id: scope(trip.trip_id),
+      route_id: scope(trip.route_id),
+      service_id: trip.service_id !== undefined ? scope(trip.service_id) : undefined,
+      shape_id: trip.shape_id !== undefined ? scope(trip.shape_id) : undefined,
+    }))
+    .filter(trip => !feed.agencyId || routeIds.has(trip.route_id));
+  const keptTripIds = feed.agencyId ? new Set(trips.map(trip => trip.trip_id)) : null;
+
+  const stopTimes: GTFSData['stopTimes'] = {};
+  for (const [tripId, times] of Object.entries(data.stopTimes)) {
+    if (keptTripIds && !keptTripIds.has(scope(tripId))) continue;
+    stopTimes[scope(tripId)] = times.map(time => ({
+      ...time,
+      trip_id: scope(time.trip_id),
+      stop_id: scope(time.stop_id),
+    }));
+  }
+
+  const shapes: GTFSData['shapes'] = {};
+  for (const [shapeId, points] of Object.entries(data.shapes)) {
+    shapes[scope(shapeId)] = points.map(point => ({ ...point, shape_id: scope(point.shape_id) }));
+  }
+
+  return {
+    routes,
+    stops: data.stops.map(stop => ({ ...stop, stop_id: scope(stop.stop_id) })),
+    stopTimes,
+    shapes,
+    trips,
+    calendar: data.calendar.map(entry => ({ ...entry, service_id: scope(entry.service_id) })),
+    calendarDates: data.calendarDates.map(entry => ({ ...entry, service_id: scope(entry.service_id) })),
+    agencies: data.agencies.map(agency => ({ ...agency, agency_id: scope(agency.agency_id || '') })),
+    transfers: data.transfers.map(transfer => ({
+      ...transfer,
+      from_stop_id: scope(transfer.from_stop_id),
+      to_stop_id: scope(transfer.to_stop_id),
+    })),
+  };
+}
+
+/**
+ * Combine namespaced data sets from several feeds into one
+ */
+export function mergeGTFSData(dataSets: GTFSData[]): GTFSData {
+  // concat rather than push(...rows): large tables would exceed the engine's argument limit
+  return dataSets.reduce<GTFSData>(
+    (merged, data) => ({
+      routes: merged.routes.concat(data.routes),
+      stops: merged.stops.concat(data.stops),
+      stopTimes: Object.assign(merged.stopTimes, data.stopTimes),
+      shapes: Object.assign(merged.shapes, data.shapes),
+      trips: merged.trips.concat(data.trips),
+      calendar: merged.calendar.concat(data.calendar),
+      calendarDates: merged.calendarDates.concat(data.calendarDates),
+      agencies: merged.agencies.concat(data.agencies),
+      transfers: merged.transfers.concat(data.transfers),
+    }),
+    {
+      routes: [],
+      stops: [],
+      stopTimes: {},
+      shapes: {},
+      trips: [],
+      calendar: [],
+      calendarDates: [],
+      agencies: [],
+      transfers: [],
+    }
+  );
+}
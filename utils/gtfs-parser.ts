@@ -1,17 +1,94 @@
 /**
- * GTFS data parser for Amtrak trains
+ * GTFS data parser for rail operators
  * Data is populated dynamically via gtfs-sync service - no bundled fallback data
+ * Several feeds can be loaded side by side; their ids are namespaced by feed (see utils/feed-ids)
  */
 
-import type { EnrichedStopTime, Route, SearchResult, Shape, Stop, StopTime, Trip } from '../types/train';
+import type {
+  Agency,
+  Calendar,
+  CalendarDate,
+  Departure,
+  DepartureWindow,
+  EnrichedStopTime,
+  FeedSource,
+  Route,
+  SearchResult,
+  SearchResultGroup,
+  SearchResultType,
+  Shape,
+  Stop,
+  StopTime,
+  Transfer,
+  Trip,
+} from '../types/train';
+import { DEFAULT_MIN_CONNECTION_MINUTES, MAX_LAYOVER_HOURS, MAX_TRANSFERS } from '../constants/journeys';
+import type { GTFSData } from '../services/gtfs-cache';
+import { addDays, formatGTFSDate, getEndOfDay, getStartOfDay } from './date-helpers';
+import { getFeedIdOf, mergeGTFSData, scopeGTFSData, scopeId, unscopeId } from './feed-ids';
+import { planJourneys, type Journey, type PlannerConnection, type PlannerTrip } from './journey-planner';
+import { SearchIndex } from './search-index';
+import {
+  DEFAULT_AGENCY_TIMEZONE,
+  formatInTimeZone,
+  getServiceTimeOffset,
+  resolveServiceTime,
+  type ResolvedTime,
+} from './service-time';
+import { buildTrainRouteNames, type TrainNumberCollision } from './train-route-names';
+
+// calendar.txt weekday columns indexed by Date.getDay()
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Most results shown per group in search
+const SEARCH_GROUP_LIMITS: Record<SearchResultType, number> = { station: 8, train: 8, route: 4 };
+const SEARCH_RESULT_LIMIT = 20;
+
+/**
+ * Number of days past the service date a GTFS time falls on ("25:30:00" -> 1)
+ */
+function getGTFSDayOffset(gtfsTime: string): number {
+  const hours = parseInt(gtfsTime.split(':')[0], 10);
+  return Number.isNaN(hours) ? 0 : Math.floor(hours / 24);
+}
+
+/**
+ * Time a transfer rule needs to change trains (timed transfers need none)
+ */
+function getMinConnectionMs(transfer: Transfer | undefined): number {
+  if (transfer?.transfer_type === 1) return 0;
+  if (transfer?.min_transfer_time !== undefined) return transfer.min_transfer_time * 1000;
+  return DEFAULT_MIN_CONNECTION_MINUTES * 60 * 1000;
+}
+
+/**
+ * One trip on one service date, with its stop times resolved, for journey planning
+ */
+export interface TripRun extends PlannerTrip {
+  tripId: string;
+  serviceDate: Date;
+  stopTimes: StopTime[]; // Parallel to stops
+}
 
 export class GTFSParser {
   private routes: Map<string, Route> = new Map();
   private stops: Map<string, Stop> = new Map();
-  private stopTimes: Map<string, StopTime[]> = new Map();
+  private stopTimes: Map<string, StopTime[]> = new Map(); // keyed by trip_id, in stop_sequence order
+  private stopTimesByStop: Map<string, StopTime[]> = new Map(); // keyed by stop_id, every trip's visit to the stop
   private shapes: Map<string, Shape[]> = new Map();
   private trips: Map<string, Trip> = new Map(); // keyed by trip_id
   private tripsByNumber: Map<string, Trip[]> = new Map(); // keyed by trip_short_name for search
+  private routeIdsByShape: Map<string, string> = new Map(); // shape_id -> route_id of the first trip drawn with it
+  private trainRouteNames: Map<string, string> = new Map(); // keyed by train number, namespaced by feed
+  private namedTrains: Map<string, string> = new Map(); // Feeds' named-train overrides, keyed like trainRouteNames
+  private trainNumberCollisions: TrainNumberCollision[] = [];
+  private calendars: Map<string, Calendar> = new Map(); // keyed by service_id
+  private calendarDates: Map<string, Map<string, 1 | 2>> = new Map(); // service_id -> date -> exception_type
+  private agencies: Map<string, Agency> = new Map(); // keyed by agency_id ('' when omitted)
+  private transfersByStop: Map<string, Transfer[]> = new Map(); // keyed by from_stop_id
+  private linkedStops: Map<string, string[]> = new Map(); // Other stops a transfer rule links a stop to, either way
+  private feeds: Map<string, FeedSource> = new Map(); // Feeds loaded with loadFeeds, keyed by feed id
+  private searchIndex: SearchIndex<SearchResult> = new SearchIndex();
   private _isLoaded: boolean = false;
 
   constructor() {
@@ -22,20 +99,50 @@ export class GTFSParser {
     return this._isLoaded;
   }
 
-  // Override parser data with dynamically fetched cache
+  /**
+   * Load the data sets of one or more feeds, namespacing each feed's ids
+   */
+  loadFeeds(feeds: Array<{ source: FeedSource; data: GTFSData }>): void {
+    this.feeds = new Map(feeds.map(({ source }) => [source.id, source]));
+    const data = mergeGTFSData(feeds.map(({ source, data }) => scopeGTFSData(source, data)));
+    this.overrideData(
+      data.routes,
+      data.stops,
+      data.stopTimes,
+      data.shapes,
+      data.trips,
+      data.calendar,
+      data.calendarDates,
+      data.agencies,
+      data.transfers
+    );
+  }
+
+  // Override parser data with dynamically fetched cache, using ids as given
   overrideData(
     routes: Route[],
     stops: Stop[],
     stopTimes: Record<string, StopTime[]>,
     shapes: Record<string, Shape[]> = {},
-    trips: Trip[] = []
+    trips: Trip[] = [],
+    calendar: Calendar[] = [],
+    calendarDates: CalendarDate[] = [],
+    agencies: Agency[] = [],
+    transfers: Transfer[] = []
   ): void {
     this.routes.clear();
     this.stops.clear();
     this.stopTimes.clear();
+    this.stopTimesByStop.clear();
     this.shapes.clear();
     this.trips.clear();
     this.tripsByNumber.clear();
+    this.routeIdsByShape.clear();
+    this.calendars.clear();
+    this.calendarDates.clear();
+    this.agencies.clear();
+    this.transfersByStop.clear();
+    this.linkedStops.clear();
 
     routes.forEach(route => {
       if (route && route.route_id) this.routes.set(route.route_id, route);
@@ -44,7 +151,15 @@ export class GTFSParser {
       if (stop && stop.stop_id) this.stops.set(stop.stop_id, stop);
     });
     Object.entries(stopTimes).forEach(([tripId, times]) => {
-      if (tripId && Array.isArray(times)) this.stopTimes.set(tripId, times);
+      if (!tripId || !Array.isArray(times)) return;
+      const sorted = [...times].sort((a, b) => a.stop_sequence - b.stop_sequence);
+      this.stopTimes.set(tripId, sorted);
+      // Reverse index so station lookups don't scan every trip
+      sorted.forEach(stopTime => {
+        const visits = this.stopTimesByStop.get(stopTime.stop_id);
+        if (visits) visits.push(stopTime);
+        else this.stopTimesByStop.set(stopTime.stop_id, [stopTime]);
+      });
     });
     Object.entries(shapes).forEach(([shapeId, points]) => {
       if (shapeId && Array.isArray(points)) this.shapes.set(shapeId, points);
@@ -59,9 +174,53 @@ export class GTFSParser {
           existing.push(trip);
           this.tripsByNumber.set(trip.trip_short_name, existing);
         }
+        if (trip.shape_id && !this.routeIdsByShape.has(trip.shape_id)) {
+          this.routeIdsByShape.set(trip.shape_id, trip.route_id);
+        }
+      }
+    });
+    calendar.forEach(entry => {
+      if (entry && entry.service_id) this.calendars.set(entry.service_id, entry);
+    });
+    calendarDates.forEach(entry => {
+      if (!entry || !entry.service_id) return;
+      const exceptions = this.calendarDates.get(entry.service_id) || new Map<string, 1 | 2>();
+      exceptions.set(entry.date, entry.exception_type);
+      this.calendarDates.set(entry.service_id, exceptions);
+    });
+    agencies.forEach(agency => {
+      if (agency && agency.agency_timezone) this.agencies.set(agency.agency_id || '', agency);
+    });
+    transfers.forEach(transfer => {
+      if (!transfer || !transfer.from_stop_id || !transfer.to_stop_id) return;
+      const existing = this.transfersByStop.get(transfer.from_stop_id);
+      if (existing) existing.push(transfer);
+      else this.transfersByStop.set(transfer.from_stop_id, [transfer]);
+      if (transfer.from_stop_id === transfer.to_stop_id || transfer.transfer_type === 3) return;
+      for (const [stopId, linkedId] of [
+        [transfer.from_stop_id, transfer.to_stop_id],
+        [transfer.to_stop_id, transfer.from_stop_id],
+      ]) {
+        const linked = this.linkedStops.get(stopId);
+        if (linked) linked.push(linkedId);
+        else this.linkedStops.set(stopId, [linkedId]);
       }
     });
 
+    const { names, collisions } = buildTrainRouteNames(this.trips.values(), this.routes, trip =>
+      trip.trip_short_name ? this.getTrainKey(trip.trip_id) : undefined
+    );
+    this.trainRouteNames = names;
+    this.trainNumberCollisions = collisions;
+    this.namedTrains = new Map(
+      Array.from(this.feeds.values()).flatMap(feed =>
+        (feed.namedTrains ?? []).flatMap(({ name, trainNumbers }) =>
+          trainNumbers.map(trainNumber => [scopeId(feed.id, trainNumber), name] as const)
+        )
+      )
+    );
+    this.buildSearchIndex();
+
     this._isLoaded = this.routes.size > 0 && this.stops.size > 0;
   }
 
@@ -73,8 +232,36 @@ export class GTFSParser {
     return this.stops.get(stopId)?.stop_name || stopId;
   }
 
+  /**
+   * Get a station's code as published by its operator, without the feed namespace
+   */
   getStopCode(stopId: string): string {
-    return stopId;
+    return unscopeId(stopId);
+  }
+
+  /**
+   * Get the loaded feed an id (stop, trip, route...) belongs to
+   */
+  getFeed(id: string): FeedSource | undefined {
+    const feedId = getFeedIdOf(id);
+    return feedId !== undefined ? this.feeds.get(feedId) : undefined;
+  }
+
+  /**
+   * Get every loaded feed
+   */
+  getFeeds(): FeedSource[] {
+    return Array.from(this.feeds.values());
+  }
+
+  /**
+   * Get the name of the operator running a trip: its feed, or else its agency
+   */
+  getOperatorName(tripId: string): string {
+    const feed = this.getFeed(tripId);
+    if (feed) return feed.name;
+    const agencyId = this.routes.get(this.trips.get(tripId)?.route_id ?? '')?.agency_id;
+    return (agencyId !== undefined ? this.agencies.get(agencyId)?.agency_name : undefined) ?? '';
   }
 
   getStop(stopId: string): Stop | undefined {
@@ -93,32 +280,198 @@ export class GTFSParser {
       .map(time => ({
         ...time,
         stop_name: this.getStopName(time.stop_id),
-        stop_code: time.stop_id,
+        stop_code: this.getStopCode(time.stop_id),
       }))
       .sort((a, b) => a.stop_sequence - b.stop_sequence);
   }
 
+  /**
+   * Stop times of a trip in calling order, as loaded (without stop names)
+   * For code that runs over many trips at once; the result is shared, so it must not be changed
+   */
+  getScheduledStopTimes(tripId: string): readonly StopTime[] {
+    return this.stopTimes.get(tripId) || [];
+  }
+
   getStopTimesForTrip(tripId: string): EnrichedStopTime[] {
     const times = this.stopTimes.get(tripId) || [];
     return times
       .map(time => ({
         ...time,
         stop_name: this.getStopName(time.stop_id),
-        stop_code: time.stop_id,
+        stop_code: this.getStopCode(time.stop_id),
       }))
       .sort((a, b) => a.stop_sequence - b.stop_sequence);
   }
 
   getTripsForStop(stopId: string): string[] {
-    const trips: string[] = [];
+    return this.getStopVisits(stopId).map(visit => visit.trip_id);
+  }
+
+  /**
+   * Get trips that call at a stop on a given calendar date
+   * Stop times past 24:00 belong to the previous service day, so the calendar is
+   * checked against the date the trip's service day started on
+   */
+  getTripsForStopOnDate(stopId: string, date: Date): string[] {
+    return this.getStopVisits(stopId)
+      .filter(visit => this.isTripActiveAtTime(visit.trip_id, visit.departure_time, date))
+      .map(visit => visit.trip_id);
+  }
+
+  /**
+   * Get the departure board for a stop on a calendar date
+   * Rows are schedule-only and sorted by time at the station; the window bounds that time.
+   * A trip's time at its final stop is its arrival, everywhere else its departure.
+   */
+  getDeparturesForStop(stopId: string, date: Date, window: DepartureWindow = {}): Departure[] {
+    const departures: Departure[] = [];
+
+    for (const visit of this.getStopVisits(stopId)) {
+      const tripId = visit.trip_id;
+      const serviceDate = this.getServiceDate(visit.departure_time || visit.arrival_time, date);
+      if (!this.isTripActiveOn(tripId, serviceDate)) continue;
+
+      const times = this.stopTimes.get(tripId) || [];
+      const origin = times[0];
+      const destination = times[times.length - 1];
+      const arrive = this.resolveStopTime(tripId, stopId, visit.arrival_time || visit.departure_time, serviceDate);
+      const depart = this.resolveStopTime(tripId, stopId, visit.departure_time || visit.arrival_time, serviceDate);
+
+      const stationAt = visit === destination ? arrive.at : depart.at;
+      if (window.start !== undefined && stationAt < window.start) continue;
+      if (window.end !== undefined && stationAt > window.end) continue;
+
+      const routeId = this.trips.get(tripId)?.route_id;
+      departures.push({
+        tripId,
+        trainNumber: this.getTrainNumber(tripId),
+        routeName: routeId ? this.routes.get(routeId)?.route_long_name || '' : '',
+        stopId,
+        stopSequence: visit.stop_sequence,
+        from: this.getStopName(origin.stop_id),
+        fromCode: origin.stop_id,
+        to: this.getStopName(destination.stop_id),
+        toCode: destination.stop_id,
+        arriveTime: arrive.time,
+        arriveDayOffset: arrive.dayOffset,
+        arriveAt: arrive.at,
+        departTime: depart.time,
+        departDayOffset: depart.dayOffset,
+        departAt: depart.at,
+        serviceDate: formatGTFSDate(serviceDate),
+      });
+    }
+
+    const stationAt = (d: Departure) => (d.toCode === stopId ? d.arriveAt : d.departAt);
+    return departures.sort((a, b) => stationAt(a) - stationAt(b));
+  }
+
+  /**
+   * Get each trip's first visit to a stop from the stop index
+   */
+  private getStopVisits(stopId: string): StopTime[] {
     const seen = new Set<string>();
-    this.stopTimes.forEach((times, tripId) => {
-      if (times.some(t => t.stop_id === stopId) && !seen.has(tripId)) {
-        trips.push(tripId);
-        seen.add(tripId);
-      }
+    return (this.stopTimesByStop.get(stopId) || []).filter(visit => {
+      if (seen.has(visit.trip_id)) return false;
+      seen.add(visit.trip_id);
+      return true;
     });
-    return trips;
+  }
+
+  /**
+   * Whether any service calendar data (calendar.txt or calendar_dates.txt) is loaded
+   */
+  hasServiceCalendar(): boolean {
+    return this.calendars.size > 0 || this.calendarDates.size > 0;
+  }
+
+  /**
+   * Check whether a service_id runs on a given service date
+   * calendar_dates.txt exceptions take precedence over the weekly calendar.txt pattern
+   */
+  isServiceActiveOn(serviceId: string, date: Date): boolean {
+    const dateStr = formatGTFSDate(date);
+    const exception = this.calendarDates.get(serviceId)?.get(dateStr);
+    if (exception === 1) return true;
+    if (exception === 2) return false;
+
+    const calendar = this.calendars.get(serviceId);
+    if (!calendar) return false;
+    if (dateStr < calendar.start_date || dateStr > calendar.end_date) return false;
+    return calendar[WEEKDAY_KEYS[date.getDay()]];
+  }
+
+  /**
+   * Check whether a trip operates on a given service date
+   * Trips without service data (e.g. caches from before calendar support) are treated as active
+   */
+  isTripActiveOn(tripId: string, date: Date): boolean {
+    const serviceId = this.trips.get(tripId)?.service_id;
+    if (!serviceId || !this.hasServiceCalendar()) return true;
+    return this.isServiceActiveOn(serviceId, date);
+  }
+
+  /**
+   * Check whether a trip is at a stop with the given GTFS time on a calendar date,
+   * shifting back to the service date for times past midnight (e.g. "25:30:00")
+   */
+  private isTripActiveAtTime(tripId: string, gtfsTime: string, date: Date): boolean {
+    return this.isTripActiveOn(tripId, this.getServiceDate(gtfsTime, date));
+  }
+
+  /**
+   * Get the service date a stop time belongs to, given the calendar date it happens on
+   * e.g. a 25:30 stop time on Tuesday belongs to Monday's service
+   */
+  getServiceDate(gtfsTime: string, date: Date): Date {
+    return addDays(date, -getGTFSDayOffset(gtfsTime));
+  }
+
+  /**
+   * Get the calendar date a stop time happens on, given its service date (the reverse of getServiceDate)
+   */
+  getTravelDate(gtfsTime: string, serviceDate: Date): Date {
+    return addDays(serviceDate, getGTFSDayOffset(gtfsTime));
+  }
+
+  /**
+   * Get the timezone a trip's schedule is published in (its agency's timezone)
+   * Falls back to the first agency of the trip's feed, then to the first agency loaded
+   */
+  getAgencyTimezone(tripId?: string): string {
+    const agencyId = tripId ? this.routes.get(this.trips.get(tripId)?.route_id ?? '')?.agency_id : undefined;
+    let agency = agencyId !== undefined ? this.agencies.get(agencyId) : undefined;
+    const feedId = tripId ? getFeedIdOf(tripId) : undefined;
+    if (!agency && feedId !== undefined) {
+      agency = Array.from(this.agencies.values()).find(a => getFeedIdOf(a.agency_id || '') === feedId);
+    }
+    agency ??= this.agencies.values().next().value;
+    return agency?.agency_timezone || DEFAULT_AGENCY_TIMEZONE;
+  }
+
+  /**
+   * Get a station's local timezone, falling back to the agency timezone
+   */
+  getStopTimezone(stopId: string, tripId?: string): string {
+    return this.stops.get(stopId)?.stop_timezone || this.getAgencyTimezone(tripId);
+  }
+
+  /**
+   * Resolve a trip's stop time on a service date to an absolute instant
+   * Formatted in the station's local timezone unless a display timezone is given
+   */
+  resolveStopTime(
+    tripId: string,
+    stopId: string,
+    gtfsTime: string,
+    serviceDate: Date | string,
+    displayTimeZone?: string
+  ): ResolvedTime {
+    const serviceDateStr = typeof serviceDate === 'string' ? serviceDate : formatGTFSDate(serviceDate);
+    const at = resolveServiceTime(gtfsTime, serviceDateStr, this.getAgencyTimezone(tripId));
+    const timeZone = displayTimeZone || this.getStopTimezone(stopId, tripId);
+    return { ...formatInTimeZone(at, timeZone, serviceDateStr), at, timeZone };
   }
 
   getAllRoutes(): Route[] {
@@ -154,6 +507,34 @@ export class GTFSParser {
     return match ? match[1] : tripId;
   }
 
+  /**
+   * Key a trip's train number by its feed, since operators reuse numbers ("amtrak:43")
+   */
+  private getTrainKey(tripId: string): string {
+    const trainNumber = this.getTrainNumber(tripId);
+    const feedId = getFeedIdOf(tripId);
+    return feedId !== undefined ? scopeId(feedId, trainNumber) : trainNumber;
+  }
+
+  /**
+   * Get the name a train runs under, e.g. "Pennsylvanian"
+   * A feed's named trains come first, then the trip's own route, then the route most trips with the same
+   * number run on (for realtime trip ids that aren't in the schedule)
+   */
+  getTrainRouteName(tripId: string): string | null {
+    const key = this.getTrainKey(tripId);
+    const routeId = this.trips.get(tripId)?.route_id;
+    const routeName = routeId !== undefined ? this.routes.get(routeId)?.route_long_name : undefined;
+    return this.namedTrains.get(key) ?? routeName ?? this.trainRouteNames.get(key) ?? null;
+  }
+
+  /**
+   * Train numbers whose trips run on differently named routes in the loaded data
+   */
+  getTrainNumberCollisions(): TrainNumberCollision[] {
+    return this.trainNumberCollisions;
+  }
+
   /**
    * Get route_id for a trip_id
    */
@@ -161,6 +542,38 @@ export class GTFSParser {
     return this.trips.get(tripId)?.route_id;
   }
 
+  /**
+   * Get a trip, or for realtime trip ids that aren't in the schedule, a scheduled trip with the same
+   * train number in the same feed
+   */
+  getScheduledTrip(tripId: string): Trip | undefined {
+    const trip = this.trips.get(tripId);
+    if (trip) return trip;
+    const feedId = getFeedIdOf(tripId);
+    return this.getTripsByNumber(this.getTrainNumber(tripId)).find(trip => getFeedIdOf(trip.trip_id) === feedId);
+  }
+
+  /**
+   * Get the route a train runs on
+   */
+  getTrainRouteId(tripId: string): string | undefined {
+    return this.getScheduledTrip(tripId)?.route_id;
+  }
+
+  /**
+   * Get the shape a train's path is drawn with (trips.txt shape_id)
+   */
+  getTrainShapeId(tripId: string): string | undefined {
+    return this.getScheduledTrip(tripId)?.shape_id;
+  }
+
+  /**
+   * Get the route whose trips are drawn with a shape (trips.txt shape_id)
+   */
+  getRouteIdForShape(shapeId: string): string | undefined {
+    return this.routeIdsByShape.get(shapeId);
+  }
+
   /**
    * Search trips by train number (trip_short_name)
    */
@@ -183,129 +596,107 @@ export class GTFSParser {
     return result;
   }
 
-  search(query: string): SearchResult[] {
-    const results: SearchResult[] = [];
-    const queryLower = query.toLowerCase();
-    // Support searching by AMT{train}, {name}{train}, or just {train}
-    let trainNumberQuery = '';
-    // If query starts with 'amt', treat as AMT{train}
-    if (queryLower.startsWith('amt')) {
-      trainNumberQuery = queryLower.substring(3);
-    } else if (/^\d+$/.test(query)) {
-      // Pure number query - search by actual train number
-      trainNumberQuery = query;
-    } else {
-      // Try to match {name}{train} pattern (e.g., acela2150, crescent19)
-      const nameTrainMatch = queryLower.match(/^([a-z]+)(\d{1,4})$/);
-      if (nameTrainMatch) {
-        trainNumberQuery = nameTrainMatch[2];
-      }
+  /**
+   * Search stations, trains and routes, grouped by type
+   * Groups are ordered by their best match, so the most relevant kind of result comes first
+   */
+  searchGrouped(query: string): SearchResultGroup[] {
+    const groups = new Map<SearchResultType, SearchResult[]>();
+    for (const match of this.searchIndex.search(query, SEARCH_RESULT_LIMIT * 2)) {
+      const { type, value } = match.document;
+      const results = groups.get(type) || [];
+      if (results.length >= SEARCH_GROUP_LIMITS[type]) continue;
+      results.push(match.matchedAlias ? { ...value, subtitle: `${match.matchedAlias} • ${value.subtitle}` } : value);
+      groups.set(type, results);
     }
+    return Array.from(groups, ([type, results]) => ({ type, results }));
+  }
+
+  search(query: string): SearchResult[] {
+    return this.searchGrouped(query)
+      .flatMap(group => group.results)
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }
+
+  /**
+   * Index stations (with aliases), train numbers and routes for search
+   * Busier stations rank higher among otherwise equal matches
+   */
+  private buildSearchIndex(): void {
+    this.searchIndex.clear();
 
-    // Search stops (stations)
     this.stops.forEach(stop => {
-      if (stop.stop_name.toLowerCase().includes(queryLower)) {
-        results.push({
-          id: `stop-name-${stop.stop_id}`,
-          name: stop.stop_name,
-          subtitle: `Name contains "${query}"`,
-          type: 'station',
-          data: stop,
-        });
-      }
-      // Match by stop ID (abbreviation)
-      else if (stop.stop_id.toLowerCase().includes(queryLower)) {
-        results.push({
-          id: `stop-id-${stop.stop_id}`,
+      const tripCount = this.stopTimesByStop.get(stop.stop_id)?.length || 0;
+      const code = this.getStopCode(stop.stop_id);
+      this.searchIndex.add({
+        id: `stop-${stop.stop_id}`,
+        type: 'station',
+        name: stop.stop_name,
+        codes: [code],
+        aliases: this.getFeed(stop.stop_id)?.stationAliases?.[code],
+        boost: Math.log2(1 + tripCount),
+        value: {
+          id: `stop-${stop.stop_id}`,
           name: stop.stop_name,
-          subtitle: `Station matches "${stop.stop_id}"`,
+          subtitle: this.withOperatorName(stop.stop_id, code),
           type: 'station',
           data: stop,
-        });
-      }
+        },
+      });
     });
 
-    // Search routes
-    this.routes.forEach(route => {
-      if (
-        route.route_long_name.toLowerCase().includes(queryLower) ||
-        route.route_short_name?.toLowerCase().includes(queryLower) ||
-        route.route_id.toLowerCase().includes(queryLower)
-      ) {
-        results.push({
-          id: `route-${route.route_id}`,
-          name: route.route_long_name,
-          subtitle: `AMT${route.route_id}`,
-          type: 'route',
-          data: route,
-        });
-      }
+    // One entry per train number and operator rather than per trip, so service variants don't crowd results
+    const tripIdsByNumber = new Map<string, string>();
+    this.stopTimes.forEach((_, tripId) => {
+      const key = this.getTrainKey(tripId);
+      if (!tripIdsByNumber.has(key)) tripIdsByNumber.set(key, tripId);
     });
-
-    // Search by actual train number using trips data
-    if (trainNumberQuery) {
-      const matchingTrips = this.tripsByNumber.get(trainNumberQuery) || [];
-      for (const trip of matchingTrips.slice(0, 5)) {
-        const routeName = this.getRouteName(trip.route_id);
-        const displayName =
-          routeName !== 'Unknown Route' ? `${routeName} ${trip.trip_short_name}` : `Train ${trip.trip_short_name}`;
-        results.push({
-          id: `train-${trip.trip_id}`,
-          name: displayName,
-          subtitle: trip.trip_headsign || '',
-          type: 'train',
-          data: { trip_id: trip.trip_id },
-        });
-      }
-    }
-
-    // Search trips (trains) by their stops
-    this.stopTimes.forEach((times, tripId) => {
+    tripIdsByNumber.forEach((tripId, key) => {
       const trainNumber = this.getTrainNumber(tripId);
       const trip = this.trips.get(tripId);
-      const routeName = trip?.route_id ? this.getRouteName(trip.route_id) : '';
-      const displayName =
-        routeName && routeName !== 'Unknown Route' ? `${routeName} ${trainNumber}` : `Train ${trainNumber}`;
-
-      // Check for AMT{train} or {name}{train} match (legacy support)
-      const tripIdLower = tripId.toLowerCase();
-      if (
-        trainNumberQuery &&
-        tripIdLower.endsWith(trainNumberQuery) &&
-        !results.find(r => r.id === `train-${tripId}`)
-      ) {
-        results.push({
-          id: `tripid-${tripId}`,
-          name: displayName,
-          subtitle: trip?.trip_headsign || '',
+      const routeName = this.getTrainRouteName(tripId);
+      const name = routeName ? `${routeName} ${trainNumber}` : `Train ${trainNumber}`;
+      const codePrefix = this.getFeed(tripId)?.codePrefix;
+      this.searchIndex.add({
+        id: `train-${key}`,
+        type: 'train',
+        name,
+        codes: codePrefix ? [trainNumber, `${codePrefix}${trainNumber}`] : [trainNumber],
+        value: {
+          id: `train-${tripId}`,
+          name,
+          subtitle: this.withOperatorName(tripId, trip?.trip_headsign || ''),
           type: 'train',
           data: { trip_id: tripId },
-        });
-      }
-      const uniqueStops = new Set(times.map(t => t.stop_id));
-      uniqueStops.forEach(stopId => {
-        const stop = this.stops.get(stopId);
-        if (stop && stop.stop_name.toLowerCase().includes(queryLower)) {
-          results.push({
-            id: `trip-stop-${tripId}-${stopId}`,
-            name: displayName,
-            subtitle: `Stops at "${stop.stop_name}"`,
-            type: 'train',
-            data: { trip_id: tripId, stop_id: stopId, stop_name: stop.stop_name },
-          });
-        }
+        },
       });
     });
 
-    // Remove duplicates and limit results
-    const seen = new Set<string>();
-    return results
-      .filter(result => {
-        if (seen.has(result.id)) return false;
-        seen.add(result.id);
-        return true;
-      })
-      .slice(0, 20); // Limit to 20 results
+    this.routes.forEach(route => {
+      const code = unscopeId(route.route_id);
+      this.searchIndex.add({
+        id: `route-${route.route_id}`,
+        type: 'route',
+        name: route.route_long_name,
+        codes: [code, ...(route.route_short_name ? [route.route_short_name] : [])],
+        value: {
+          id: `route-${route.route_id}`,
+          name: route.route_long_name,
+          subtitle: this.withOperatorName(route.route_id, `${this.getFeed(route.route_id)?.codePrefix ?? ''}${code}`),
+          type: 'route',
+          data: route,
+        },
+      });
+    });
+  }
+
+  /**
+   * Append the operator to a search subtitle when several feeds are loaded, e.g. "CUS • Metra"
+   */
+  private withOperatorName(id: string, subtitle: string): string {
+    const feed = this.feeds.size > 1 ? this.getFeed(id) : undefined;
+    if (!feed) return subtitle;
+    return subtitle ? `${subtitle} • ${feed.name}` : feed.name;
   }
 
   getShape(shapeId: string): Shape[] | undefined {
@@ -331,15 +722,18 @@ export class GTFSParser {
     return result;
   }
 
-  // Get shapes grouped by route
+  // Get shapes grouped by route_id; shapes no trip references are grouped under ''
   getShapesByRoute(): Map<string, Array<{ id: string; coordinates: Array<{ latitude: number; longitude: number }> }>> {
     const shapesByRoute = new Map<
       string,
       Array<{ id: string; coordinates: Array<{ latitude: number; longitude: number }> }>
     >();
-    // Return all shapes grouped together
-    const allShapes = this.getShapesForMap();
-    shapesByRoute.set('all', allShapes);
+    this.getShapesForMap().forEach(shape => {
+      const routeId = this.routeIdsByShape.get(shape.id) ?? '';
+      const existing = shapesByRoute.get(routeId);
+      if (existing) existing.push(shape);
+      else shapesByRoute.set(routeId, [shape]);
+    });
     return shapesByRoute;
   }
 
@@ -347,24 +741,17 @@ export class GTFSParser {
    * Search for stations only (for the two-station search flow)
    */
   searchStations(query: string): Stop[] {
-    const queryLower = query.toLowerCase();
-    const results: Stop[] = [];
-
-    this.stops.forEach(stop => {
-      if (stop.stop_name.toLowerCase().includes(queryLower) || stop.stop_id.toLowerCase().includes(queryLower)) {
-        results.push(stop);
-      }
-    });
-
-    return results.slice(0, 10);
+    return this.searchIndex.search(query, 10, ['station']).map(match => match.document.value.data as Stop);
   }
 
   /**
    * Find all trips that stop at both stations in sequence (fromStop before toStop)
+   * When a date is given, only trips departing fromStop on that calendar date are returned
    */
   findTripsWithStops(
     fromStopId: string,
-    toStopId: string
+    toStopId: string,
+    date?: Date
   ): Array<{
     tripId: string;
     fromStop: EnrichedStopTime;
@@ -386,6 +773,7 @@ export class GTFSParser {
       if (fromIdx !== -1 && toIdx !== -1 && fromIdx < toIdx) {
         const fromStop = times[fromIdx];
         const toStop = times[toIdx];
+        if (date && !this.isTripActiveAtTime(tripId, fromStop.departure_time, date)) return;
         const intermediateStops = times.slice(fromIdx + 1, toIdx);
 
         results.push({
@@ -393,17 +781,17 @@ export class GTFSParser {
           fromStop: {
             ...fromStop,
             stop_name: this.getStopName(fromStop.stop_id),
-            stop_code: fromStop.stop_id,
+            stop_code: this.getStopCode(fromStop.stop_id),
           },
           toStop: {
             ...toStop,
             stop_name: this.getStopName(toStop.stop_id),
-            stop_code: toStop.stop_id,
+            stop_code: this.getStopCode(toStop.stop_id),
           },
           intermediateStops: intermediateStops.map(s => ({
             ...s,
             stop_name: this.getStopName(s.stop_id),
-            stop_code: s.stop_id,
+            stop_code: this.getStopCode(s.stop_id),
           })),
         });
       }
@@ -423,6 +811,138 @@ export class GTFSParser {
       return true;
     });
   }
+
+  /**
+   * Plan journeys between two stations departing on a calendar date, direct or with up to two transfers
+   * Connections allow each station's minimum connection time from transfers.txt, or a default
+   */
+  findItineraries(fromStopId: string, toStopId: string, date: Date): Journey<TripRun>[] {
+    const window = { start: getStartOfDay(date).getTime(), end: getEndOfDay(date).getTime() };
+    const connections = new Map<string, PlannerConnection[]>();
+    const tripIds = this.getJourneyTripIds(fromStopId, toStopId, MAX_TRANSFERS);
+    return planJourneys(this.getTripRuns(date, tripIds), fromStopId, toStopId, window, {
+      maxTransfers: MAX_TRANSFERS,
+      maxLayoverMs: MAX_LAYOVER_HOURS * 60 * 60 * 1000,
+      getConnections: stopId => {
+        let stopConnections = connections.get(stopId);
+        if (!stopConnections) {
+          stopConnections = this.getConnections(stopId);
+          connections.set(stopId, stopConnections);
+        }
+        return stopConnections;
+      },
+    });
+  }
+
+  /**
+   * Get the minimum time to change trains at a stop (ms), from its transfers.txt rule or the default
+   * Null when the schedule says trains there don't connect
+   */
+  getMinConnectionTime(stopId: string): number | null {
+    const sameStop = this.transfersByStop.get(stopId)?.find(transfer => transfer.to_stop_id === stopId);
+    return sameStop?.transfer_type === 3 ? null : getMinConnectionMs(sameStop);
+  }
+
+  /**
+   * Where a rider arriving at a stop can change trains: the stop itself unless its transfers forbid it,
+   * and any stop a transfer rule leads to
+   */
+  private getConnections(stopId: string): PlannerConnection[] {
+    const sameStop = this.getMinConnectionTime(stopId);
+    const connections: PlannerConnection[] = sameStop === null ? [] : [{ stopId, minConnectionMs: sameStop }];
+    this.transfersByStop.get(stopId)?.forEach(transfer => {
+      if (transfer.to_stop_id === stopId || transfer.transfer_type === 3) return;
+      connections.push({ stopId: transfer.to_stop_id, minConnectionMs: getMinConnectionMs(transfer) });
+    });
+    return connections;
+  }
+
+  /**
+   * Trips that can be part of a journey between two stops with up to maxTransfers transfers, found from the
+   * stop_times index: those where the transfers from the origin and the transfers on to the destination add up
+   * to no more than maxTransfers
+   */
+  private getJourneyTripIds(fromStopId: string, toStopId: string, maxTransfers: number): Set<string> {
+    const fromOrigin = this.getTransferDistances(fromStopId, maxTransfers);
+    const toDestination = this.getTransferDistances(toStopId, maxTransfers);
+    const tripIds = new Set<string>();
+    fromOrigin.forEach((transfers, tripId) => {
+      const remaining = toDestination.get(tripId);
+      if (remaining !== undefined && transfers + remaining <= maxTransfers) tripIds.add(tripId);
+    });
+    return tripIds;
+  }
+
+  /**
+   * How many transfers each trip is from a stop, up to maxTransfers: 0 for trips calling there, 1 for trips
+   * calling anywhere those trips call or a transfer rule leads, and so on
+   * Ignores times and direction, so it finds every trip a journey could use, and more
+   */
+  private getTransferDistances(stopId: string, maxTransfers: number): Map<string, number> {
+    const distances = new Map<string, number>();
+    const seenStops = new Set([stopId]);
+    let stopIds = [stopId];
+    for (let transfers = 0; transfers <= maxTransfers && stopIds.length > 0; transfers++) {
+      const nextStopIds: string[] = [];
+      const addStop = (nextStopId: string) => {
+        if (seenStops.has(nextStopId)) return;
+        seenStops.add(nextStopId);
+        nextStopIds.push(nextStopId);
+      };
+      for (const visit of stopIds.flatMap(id => this.stopTimesByStop.get(id) ?? [])) {
+        if (distances.has(visit.trip_id)) continue;
+        distances.set(visit.trip_id, transfers);
+        if (transfers === maxTransfers) continue;
+        for (const stopTime of this.stopTimes.get(visit.trip_id) ?? []) {
+          addStop(stopTime.stop_id);
+          this.linkedStops.get(stopTime.stop_id)?.forEach(addStop);
+        }
+      }
+      stopIds = nextStopIds;
+    }
+    return distances;
+  }
+
+  /**
+   * Runs of the given trips around a calendar date, from the day before (overnight trains) to two days after
+   * (the rest of a long journey), with their times resolved
+   */
+  private getTripRuns(date: Date, tripIds: ReadonlySet<string>): TripRun[] {
+    const runs: TripRun[] = [];
+    // Resolving a time looks up its timezone offset, so resolve each service day's start once
+    const dayStarts = new Map<string, number>();
+
+    for (let offset = -1; offset <= 2; offset++) {
+      const serviceDate = addDays(date, offset);
+      const serviceDateStr = formatGTFSDate(serviceDate);
+      tripIds.forEach(tripId => {
+        const times = this.stopTimes.get(tripId);
+        if (!times || times.length < 2 || !this.isTripActiveOn(tripId, serviceDate)) return;
+
+        const timeZone = this.getAgencyTimezone(tripId);
+        const key = `${serviceDateStr}|${timeZone}`;
+        let dayStart = dayStarts.get(key);
+        if (dayStart === undefined) {
+          dayStart = resolveServiceTime('00:00:00', serviceDateStr, timeZone);
+          dayStarts.set(key, dayStart);
+        }
+        const start = dayStart;
+
+        runs.push({
+          id: `${tripId}@${serviceDateStr}`,
+          tripId,
+          serviceDate,
+          stopTimes: times,
+          stops: times.map(stopTime => ({
+            stopId: stopTime.stop_id,
+            arriveAt: start + getServiceTimeOffset(stopTime.arrival_time || stopTime.departure_time),
+            departAt: start + getServiceTimeOffset(stopTime.departure_time || stopTime.arrival_time),
+          })),
+        });
+      });
+    }
+    return runs;
+  }
 }
 
 // Export singleton instance
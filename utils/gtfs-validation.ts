@@ -0,0 +1,127 @@
+/**
+ * Validation of GTFS rows and GTFS-RT entities against the Zod schemas in types/gtfs-schemas
+ * Invalid rows are dropped and counted per file, with a few examples kept for diagnostics
+ */
+
+import type { z } from 'zod';
+
+const MAX_EXAMPLES_PER_FILE = 3;
+
+export interface RejectedRow {
+  line?: number; // CSV line, when known
+  id?: string; // Identifier of the row, e.g. its trip_id
+  reason: string;
+}
+
+export interface FileValidationSummary {
+  file: string; // e.g. "stop_times.txt", or "trip_updates" for realtime entities
+  accepted: number;
+  rejected: number;
+  examples: RejectedRow[];
+}
+
+export interface ValidationReport {
+  source: 'static' | 'realtime';
+  createdAt: number;
+  files: FileValidationSummary[];
+  passed: boolean; // Whether the data set passed the sanity thresholds and was used
+  failureReason?: string;
+}
+
+export interface SanityThresholds {
+  maxRejectedRatio: number; // Per file, rejected / (accepted + rejected)
+  minRetainedRatio: number; // Per file, accepted rows compared to the last good data set
+  requiredFiles: string[]; // Files that must have at least one accepted row
+}
+
+export const STATIC_SANITY_THRESHOLDS: SanityThresholds = {
+  maxRejectedRatio: 0.05,
+  minRetainedRatio: 0.5,
+  requiredFiles: ['routes.txt', 'stops.txt', 'stop_times.txt'],
+};
+
+/**
+ * Describe the first schema issue, e.g. "stop_lat: Invalid input: expected number, received NaN"
+ */
+function describeIssues(error: z.ZodError): string {
+  const [first, ...rest] = error.issues;
+  if (!first) return 'Invalid row';
+  const path = first.path.join('.');
+  const description = path ? `${path}: ${first.message}` : first.message;
+  return rest.length > 0 ? `${description} (+${rest.length} more)` : description;
+}
+
+export class ValidationCollector {
+  private files: Map<string, FileValidationSummary> = new Map();
+
+  /**
+   * Validate a value, recording whether it was accepted
+   * @returns true if the value matches the schema
+   */
+  check(file: string, schema: z.ZodType, value: unknown, context: { line?: number; id?: string } = {}): boolean {
+    const summary = this.getSummary(file);
+    const result = schema.safeParse(value);
+    if (result.success) {
+      summary.accepted++;
+      return true;
+    }
+    summary.rejected++;
+    if (summary.examples.length < MAX_EXAMPLES_PER_FILE) {
+      summary.examples.push({ ...context, reason: describeIssues(result.error) });
+    }
+    return false;
+  }
+
+  getSummaries(): FileValidationSummary[] {
+    return Array.from(this.files.values());
+  }
+
+  /**
+   * Accepted rows per file, for comparing later data sets against this one
+   */
+  getAcceptedCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const summary of this.files.values()) counts[summary.file] = summary.accepted;
+    return counts;
+  }
+
+  private getSummary(file: string): FileValidationSummary {
+    let summary = this.files.get(file);
+    if (!summary) {
+      summary = { file, accepted: 0, rejected: 0, examples: [] };
+      this.files.set(file, summary);
+    }
+    return summary;
+  }
+}
+
+/**
+ * Check a validated data set against sanity thresholds
+ * @param previousCounts - Accepted rows per file in the last good data set
+ * @returns Why the data set should not be used, or null if it passes
+ * @example
+ * checkSanity([{ file: 'stops.txt', accepted: 10, rejected: 90, examples: [] }], undefined, thresholds)
+ * // "stops.txt: 90% of rows rejected"
+ */
+export function checkSanity(
+  files: FileValidationSummary[],
+  previousCounts: Record<string, number> | undefined,
+  thresholds: SanityThresholds
+): string | null {
+  for (const required of thresholds.requiredFiles) {
+    const summary = files.find(f => f.file === required);
+    if (!summary || summary.accepted === 0) return `${required}: no valid rows`;
+  }
+
+  for (const { file, accepted, rejected } of files) {
+    const total = accepted + rejected;
+    if (total > 0 && rejected / total > thresholds.maxRejectedRatio) {
+      return `${file}: ${Math.round((rejected / total) * 100)}% of rows rejected`;
+    }
+    const previous = previousCounts?.[file];
+    if (previous && accepted < previous * thresholds.minRetainedRatio) {
+      return `${file}: ${accepted} rows, down from ${previous}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Journey planner
+ * Finds itineraries between two stops with up to a few transfers, over trip runs with resolved times
+ * Works backwards from the destination in rounds, as RAPTOR does forwards: round k knows, for every stop
+ * a trip calls at, the earliest arrival at the destination when boarding that trip there and making k transfers
+ */
+
+export interface PlannerStop {
+  stopId: string;
+  arriveAt: number; // ms since epoch
+  departAt: number; // ms since epoch
+}
+
+export interface PlannerTrip {
+  id: string; // Unique per run: the same trip on two service dates needs two ids
+  stops: PlannerStop[]; // In calling order
+}
+
+/**
+ * A stop a rider arriving at a stop can board from, and how long the change takes
+ */
+export interface PlannerConnection {
+  stopId: string;
+  minConnectionMs: number;
+}
+
+export interface PlannerOptions {
+  maxTransfers: number;
+  maxLayoverMs: number;
+  getConnections: (stopId: string) => PlannerConnection[]; // Where a rider can change trains at a stop
+}
+
+export interface JourneyLeg<T extends PlannerTrip = PlannerTrip> {
+  trip: T;
+  fromIndex: number; // Index of the boarding stop in trip.stops
+  toIndex: number; // Index of the alighting stop in trip.stops
+  departAt: number;
+  arriveAt: number;
+}
+
+export interface Journey<T extends PlannerTrip = PlannerTrip> {
+  legs: JourneyLeg<T>[];
+  departAt: number;
+  arriveAt: number;
+  duration: number; // ms
+  layovers: number[]; // ms waited between each leg and the next
+}
+
+/**
+ * Boarding a trip at a stop, with the earliest arrival at the destination from there
+ */
+interface Boarding<T extends PlannerTrip> {
+  trip: T;
+  fromIndex: number;
+  toIndex: number; // Where the rider gets off: the destination, or where they change to `next`
+  departAt: number;
+  arriveAt: number; // At the destination
+  next: Boarding<T> | null;
+}
+
+/**
+ * One round's boardings at a stop, by departure, with the earliest arrival among each suffix
+ */
+interface StopBoardings<T extends PlannerTrip> {
+  boardings: Boarding<T>[];
+  bestFrom: number[]; // bestFrom[i] = index of the earliest arrival among boardings[i..]
+}
+
+type Round<T extends PlannerTrip> = Map<string, StopBoardings<T>>;
+
+function addBoarding<T extends PlannerTrip>(pending: Map<string, Boarding<T>[]>, boarding: Boarding<T>): void {
+  const stopId = boarding.trip.stops[boarding.fromIndex].stopId;
+  const boardings = pending.get(stopId);
+  if (boardings) boardings.push(boarding);
+  else pending.set(stopId, [boarding]);
+}
+
+function indexRound<T extends PlannerTrip>(pending: Map<string, Boarding<T>[]>): Round<T> {
+  const round: Round<T> = new Map();
+  pending.forEach((boardings, stopId) => {
+    boardings.sort((a, b) => a.departAt - b.departAt);
+    const bestFrom = new Array<number>(boardings.length);
+    for (let i = boardings.length - 1; i >= 0; i--) {
+      const later = bestFrom[i + 1];
+      bestFrom[i] = later !== undefined && boardings[later].arriveAt < boardings[i].arriveAt ? later : i;
+    }
+    round.set(stopId, { boardings, bestFrom });
+  });
+  return round;
+}
+
+/**
+ * Index of the first boarding departing at or after a time
+ */
+function lowerBound<T extends PlannerTrip>(boardings: Boarding<T>[], at: number): number {
+  let low = 0;
+  let high = boardings.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (boardings[mid].departAt < at) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * The boarding departing in [earliest, latest] that reaches the destination first, on a trip other than tripId
+ */
+function findConnection<T extends PlannerTrip>(
+  stop: StopBoardings<T> | undefined,
+  earliest: number,
+  latest: number,
+  tripId: string
+): Boarding<T> | null {
+  if (!stop) return null;
+  const start = lowerBound(stop.boardings, earliest);
+  if (start === stop.boardings.length) return null;
+
+  // Usually the best of every later departure is within reach
+  const best = stop.boardings[stop.bestFrom[start]];
+  if (best.departAt <= latest && best.trip.id !== tripId) return best;
+
+  let found: Boarding<T> | null = null;
+  for (let i = start; i < stop.boardings.length && stop.boardings[i].departAt <= latest; i++) {
+    const boarding = stop.boardings[i];
+    if (boarding.trip.id !== tripId && (!found || boarding.arriveAt < found.arriveAt)) found = boarding;
+  }
+  return found;
+}
+
+/**
+ * Round 0: every boarding of a trip that goes on to the destination
+ */
+function planDirect<T extends PlannerTrip>(trips: readonly T[], toStopId: string): Round<T> {
+  const pending = new Map<string, Boarding<T>[]>();
+  for (const trip of trips) {
+    const toIndex = trip.stops.findIndex(stop => stop.stopId === toStopId);
+    for (let i = 0; i < toIndex; i++) {
+      addBoarding(pending, {
+        trip,
+        fromIndex: i,
+        toIndex,
+        departAt: trip.stops[i].departAt,
+        arriveAt: trip.stops[toIndex].arriveAt,
+        next: null,
+      });
+    }
+  }
+  return indexRound(pending);
+}
+
+/**
+ * Round k: every boarding of a trip from which a connection reaches the destination with k - 1 transfers left
+ * Each trip is walked backwards, keeping the best connection at any stop after the boarding stop
+ */
+function planConnections<T extends PlannerTrip>(
+  trips: readonly T[],
+  toStopId: string,
+  previous: Round<T>,
+  options: PlannerOptions
+): Round<T> {
+  const pending = new Map<string, Boarding<T>[]>();
+  for (const trip of trips) {
+    let best: { toIndex: number; next: Boarding<T> } | null = null;
+    for (let j = trip.stops.length - 1; j > 0; j--) {
+      const stop = trip.stops[j];
+      if (stop.stopId !== toStopId) {
+        for (const connection of options.getConnections(stop.stopId)) {
+          const next = findConnection(
+            previous.get(connection.stopId),
+            stop.arriveAt + connection.minConnectionMs,
+            stop.arriveAt + options.maxLayoverMs,
+            trip.id
+          );
+          if (next && (!best || next.arriveAt < best.next.arriveAt)) best = { toIndex: j, next };
+        }
+      }
+
+      const boardingStop = trip.stops[j - 1];
+      if (best && boardingStop.stopId !== toStopId) {
+        addBoarding(pending, {
+          trip,
+          fromIndex: j - 1,
+          toIndex: best.toIndex,
+          departAt: boardingStop.departAt,
+          arriveAt: best.next.arriveAt,
+          next: best.next,
+        });
+      }
+    }
+  }
+  return indexRound(pending);
+}
+
+function toJourney<T extends PlannerTrip>(first: Boarding<T>): Journey<T> {
+  const legs: JourneyLeg<T>[] = [];
+  for (let boarding: Boarding<T> | null = first; boarding; boarding = boarding.next) {
+    legs.push({
+      trip: boarding.trip,
+      fromIndex: boarding.fromIndex,
+      toIndex: boarding.toIndex,
+      departAt: boarding.departAt,
+      arriveAt: boarding.trip.stops[boarding.toIndex].arriveAt,
+    });
+  }
+  return {
+    legs,
+    departAt: first.departAt,
+    arriveAt: first.arriveAt,
+    duration: first.arriveAt - first.departAt,
+    layovers: legs.slice(1).map((leg, i) => leg.departAt - legs[i].arriveAt),
+  };
+}
+
+/**
+ * Whether an itinerary departs no earlier, arrives no later and changes trains no more often than another
+ */
+function isAsGoodAs(a: Journey, b: Journey): boolean {
+  return a.departAt >= b.departAt && a.arriveAt <= b.arriveAt && a.legs.length <= b.legs.length;
+}
+
+/**
+ * Plan journeys from one stop to another, departing within a time window
+ *
+ * Every direct trip is returned. Connections are returned when no other itinerary departs at the same
+ * time or later and arrives at the same time or earlier with as few transfers. Each transfer allows the
+ * minimum connection time of its stop and at most maxLayoverMs of waiting.
+ *
+ * @example
+ * planJourneys(runs, 'amtrak:NYP', 'amtrak:SEA', { start, end }, { maxTransfers: 2, maxLayoverMs, getConnections })
+ * // [{ legs: [NYP -> CHI, CHI -> SEA], layovers: [10_800_000], ... }]
+ */
+export function planJourneys<T extends PlannerTrip>(
+  trips: readonly T[],
+  fromStopId: string,
+  toStopId: string,
+  window: { start: number; end: number },
+  options: PlannerOptions
+): Journey<T>[] {
+  if (fromStopId === toStopId) return [];
+
+  const rounds: Round<T>[] = [planDirect(trips, toStopId)];
+  for (let k = 1; k <= options.maxTransfers; k++) {
+    rounds.push(planConnections(trips, toStopId, rounds[k - 1], options));
+  }
+
+  const candidates = rounds
+    .flatMap(round => round.get(fromStopId)?.boardings ?? [])
+    .filter(boarding => boarding.departAt >= window.start && boarding.departAt <= window.end)
+    .map(toJourney)
+    // Going back through the origin is never worth it
+    .filter(itinerary => itinerary.legs.slice(1).every(leg => leg.trip.stops[leg.fromIndex].stopId !== fromStopId));
+
+  // Fewest transfers, then latest departure, then earliest arrival first, so a kept itinerary is never bettered later
+  candidates.sort((a, b) => a.legs.length - b.legs.length || b.departAt - a.departAt || a.arriveAt - b.arriveAt);
+  const kept: Journey<T>[] = [];
+  for (const candidate of candidates) {
+    if (candidate.legs.length === 1 || !kept.some(other => isAsGoodAs(other, candidate))) kept.push(candidate);
+  }
+
+  return kept.sort((a, b) => a.departAt - b.departAt || a.arriveAt - b.arriveAt);
+}
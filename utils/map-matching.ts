@@ -0,0 +1,189 @@
+/**
+ * Map matching for live train positions
+ * Snaps GTFS-RT vehicle positions onto the trip's shape, measures how far along the route the train is,
+ * and moves it along the line between reports using its speed, so markers glide instead of jumping
+ */
+
+import type { PathPoint } from './shape-path';
+
+// Reports further than this from the shape are left where they are (wrong shape, detour)
+const MAX_SNAP_DISTANCE_M = 500;
+
+// Stop extrapolating this long after a report, rather than run a train past a stop it is waiting at
+const MAX_EXTRAPOLATION_MS = 30_000;
+
+// How long a marker takes to glide onto the position implied by a new report
+const GLIDE_MS = 3_000;
+
+// Corrections larger than this snap instead of glide (e.g. a train that was matched to the wrong spot)
+const MAX_GLIDE_DISTANCE_M = 2_000;
+
+const METERS_PER_DEGREE_LAT = 110_540;
+const METERS_PER_DEGREE_LON = 111_320;
+
+export interface MeasuredPath {
+  points: readonly PathPoint[];
+  distances: number[]; // Meters from the first point to each point
+}
+
+export interface PathMatch {
+  point: PathPoint; // Closest point on the line
+  distanceAlong: number; // Meters from the start of the path
+  offset: number; // Meters between the report and the line
+  bearing: number; // Direction of the line at the match, degrees clockwise from north
+}
+
+export interface VehicleReport {
+  speed?: number; // Meters per second, as in GTFS-RT
+  bearing?: number; // Degrees clockwise from north
+  timestamp: number; // ms since epoch
+}
+
+export interface TrainMotion {
+  distanceAlong: number; // Meters along the path at timestamp
+  speed: number; // Meters per second along the path; negative when moving against the shape's direction
+  timestamp: number; // When the train was at distanceAlong
+  correction: number; // Meters between the previous estimate and this report when it arrived, glided away
+  correctedAt: number; // When the correction started
+}
+
+/**
+ * Offset of b from a in meters, east and north, on a local flat projection
+ */
+function toMeters(a: PathPoint, b: PathPoint): { x: number; y: number } {
+  const lonScale = Math.cos((((a.latitude + b.latitude) / 2) * Math.PI) / 180);
+  return {
+    x: (b.longitude - a.longitude) * METERS_PER_DEGREE_LON * lonScale,
+    y: (b.latitude - a.latitude) * METERS_PER_DEGREE_LAT,
+  };
+}
+
+function getBearing(a: PathPoint, b: PathPoint): number {
+  const { x, y } = toMeters(a, b);
+  return ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Smallest angle between two bearings, 0 to 180 degrees
+ */
+function getAngleBetween(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Measure the cumulative length of a path, for distance-along-route lookups
+ */
+export function measurePath(points: readonly PathPoint[]): MeasuredPath {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const { x, y } = toMeters(points[i - 1], points[i]);
+    distances.push(distances[i - 1] + Math.hypot(x, y));
+  }
+  return { points, distances };
+}
+
+/**
+ * Project a position onto the closest segment of a path, or null if it is too far from the line
+ */
+export function projectOntoPath(path: MeasuredPath, position: PathPoint): PathMatch | null {
+  const { points, distances } = path;
+  let best: PathMatch | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1];
+    const segment = toMeters(start, points[i]);
+    const toPosition = toMeters(start, position);
+    const lengthSquared = segment.x * segment.x + segment.y * segment.y;
+    const t =
+      lengthSquared > 0
+        ? Math.min(1, Math.max(0, (toPosition.x * segment.x + toPosition.y * segment.y) / lengthSquared))
+        : 0;
+    const offset = Math.hypot(toPosition.x - t * segment.x, toPosition.y - t * segment.y);
+    if (best && offset >= best.offset) continue;
+
+    best = {
+      point: {
+        latitude: start.latitude + t * (points[i].latitude - start.latitude),
+        longitude: start.longitude + t * (points[i].longitude - start.longitude),
+      },
+      distanceAlong: distances[i - 1] + t * (distances[i] - distances[i - 1]),
+      offset,
+      bearing: getBearing(start, points[i]),
+    };
+  }
+
+  return best && best.offset <= MAX_SNAP_DISTANCE_M ? best : null;
+}
+
+/**
+ * The point a given distance along a path, clamped to its ends, with the line's bearing there
+ */
+export function getPointAlongPath(path: MeasuredPath, distance: number): { point: PathPoint; bearing: number } {
+  const { points, distances } = path;
+  if (points.length < 2) return { point: points[0], bearing: 0 };
+
+  const total = distances[distances.length - 1];
+  const target = Math.min(total, Math.max(0, distance));
+  let i = 1;
+  while (i < points.length - 1 && distances[i] < target) i++;
+
+  const start = points[i - 1];
+  const end = points[i];
+  const length = distances[i] - distances[i - 1];
+  const t = length > 0 ? (target - distances[i - 1]) / length : 0;
+  return {
+    point: {
+      latitude: start.latitude + t * (end.latitude - start.latitude),
+      longitude: start.longitude + t * (end.longitude - start.longitude),
+    },
+    bearing: getBearing(start, end),
+  };
+}
+
+/**
+ * Estimated distance along the path at a given time
+ * Extrapolates from the last report at its speed, for at most MAX_EXTRAPOLATION_MS, and glides away
+ * the difference between the previous estimate and the report over GLIDE_MS
+ */
+export function getMotionDistance(motion: TrainMotion, now: number): number {
+  const elapsed = Math.min(MAX_EXTRAPOLATION_MS, Math.max(0, now - motion.timestamp));
+  const glide = Math.max(0, 1 - (now - motion.correctedAt) / GLIDE_MS);
+  return motion.distanceAlong + (motion.speed * elapsed) / 1000 + motion.correction * glide;
+}
+
+/**
+ * Fold a new report into a train's motion
+ * The report's bearing says which way along the shape the train runs; without a reported speed,
+ * speed comes from the distance covered since the previous report
+ * @param previous - Motion from the train's previous report on the same path
+ * @param now - When the report was received, where the glide starts
+ */
+export function updateMotion(
+  previous: TrainMotion | undefined,
+  match: PathMatch,
+  report: VehicleReport,
+  now: number
+): TrainMotion {
+  if (previous && report.timestamp <= previous.timestamp) return previous;
+
+  const direction = report.bearing !== undefined && getAngleBetween(report.bearing, match.bearing) > 90 ? -1 : 1;
+  let speed = 0;
+  if (report.speed !== undefined) {
+    speed = report.speed * direction;
+  } else if (previous) {
+    speed = ((match.distanceAlong - previous.distanceAlong) * 1000) / (report.timestamp - previous.timestamp);
+  }
+
+  const next: TrainMotion = {
+    distanceAlong: match.distanceAlong,
+    speed,
+    timestamp: report.timestamp,
+    correction: 0,
+    correctedAt: now,
+  };
+  if (!previous) return next;
+
+  const correction = getMotionDistance(previous, now) - getMotionDistance(next, now);
+  return Math.abs(correction) <= MAX_GLIDE_DISTANCE_M ? { ...next, correction } : next;
+}
@@ -0,0 +1,217 @@
+/**
+ * Rules for saved train notifications
+ * Decides what to tell a rider about their journey from its schedule and the latest realtime status.
+ * Pure: the clock and the realtime status are passed in, and what was already announced is kept in a
+ * state the caller stores between evaluations, so the same event is never announced twice
+ */
+
+import type { TrainNotificationPreferences } from '../types/train';
+
+// Realtime updates for a train number may describe another day's run until the rider's day is close
+const WATCH_BEFORE_DEPARTURE_MS = 6 * 60 * 60_000;
+
+// Late trains keep reporting well past their scheduled arrival
+const WATCH_AFTER_ARRIVAL_MS = 6 * 60 * 60_000;
+
+// A delay must drop this far below a threshold before it counts as recovered, so small swings stay quiet
+const DELAY_HYSTERESIS_MINUTES = 3;
+
+export type TrainNotificationKind = 'departure' | 'delay' | 'cancelled' | 'platform' | 'arrival';
+
+export interface WatchedStop {
+  stopId: string;
+  name: string;
+  arriveAt: number; // Scheduled arrival (ms since epoch)
+  departAt: number; // Scheduled departure (ms since epoch)
+  platform?: string; // Scheduled platform or track
+}
+
+export interface WatchedTrip {
+  label: string; // e.g. "Train 543"
+  stops: WatchedStop[]; // The rider's segment, boarding stop first and alighting stop last
+}
+
+export interface StopStatus {
+  arrivalDelay: number | null; // seconds, null when there is no prediction
+  departureDelay: number | null; // seconds, null when there is no prediction
+  skipped: boolean;
+  platform?: string; // Platform or track now assigned, when the feed reassigned it
+}
+
+export interface TripStatus {
+  cancelled: boolean;
+  stops: StopStatus[]; // Aligned with WatchedTrip.stops, empty when the feed has no stop updates
+}
+
+export interface NotificationState {
+  delayLevel: number; // How many delay thresholds the last announced delay had crossed
+  cancelled: boolean;
+  platform?: string; // Last announced platform
+  departureReminded: boolean;
+  arrivalAnnounced: boolean;
+}
+
+export interface TrainNotification {
+  kind: TrainNotificationKind;
+  title: string;
+  body: string;
+}
+
+export interface NotificationEvaluation {
+  notifications: TrainNotification[]; // To show now
+  departureReminder: (TrainNotification & { at: number }) | null; // To schedule, replacing any earlier one
+  state: NotificationState;
+  finished: boolean; // The journey is over, nothing more will be announced
+}
+
+export const INITIAL_NOTIFICATION_STATE: NotificationState = {
+  delayLevel: 0,
+  cancelled: false,
+  departureReminded: false,
+  arrivalAnnounced: false,
+};
+
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 60);
+}
+
+function formatStops(count: number): string {
+  return count === 1 ? '1 stop' : `${count} stops`;
+}
+
+/**
+ * Whether realtime updates describe this run of the trip: from a few hours before it is due to depart
+ * until a few hours after it is due to arrive
+ */
+export function isWithinWatchWindow(trip: WatchedTrip, now: number): boolean {
+  const { stops } = trip;
+  return (
+    now >= stops[0].departAt - WATCH_BEFORE_DEPARTURE_MS &&
+    now <= stops[stops.length - 1].arriveAt + WATCH_AFTER_ARRIVAL_MS
+  );
+}
+
+/**
+ * Work out which notifications are due for a saved train
+ * @param status - Latest realtime status, or null when the feed has nothing for the trip
+ * @param state - What was announced by the previous evaluation (INITIAL_NOTIFICATION_STATE the first time)
+ * @param now - Current time (ms since epoch)
+ * @example
+ * const { notifications, state: next } = evaluateNotifications(trip, preferences, status, state, Date.now());
+ */
+export function evaluateNotifications(
+  trip: WatchedTrip,
+  preferences: TrainNotificationPreferences,
+  status: TripStatus | null,
+  state: NotificationState,
+  now: number
+): NotificationEvaluation {
+  const { label, stops } = trip;
+  const boarding = stops[0];
+  const alighting = stops[stops.length - 1];
+  const live = status && isWithinWatchWindow(trip, now) ? status : null;
+
+  const expectedDeparture = (index: number) => stops[index].departAt + (live?.stops[index]?.departureDelay ?? 0) * 1000;
+  const expectedArrival = (index: number) => stops[index].arriveAt + (live?.stops[index]?.arrivalDelay ?? 0) * 1000;
+
+  const departed = now >= expectedDeparture(0);
+  const finished = now >= expectedArrival(stops.length - 1);
+  const notifications: TrainNotification[] = [];
+  const next: NotificationState = { ...state };
+
+  if (!preferences.enabled || finished) {
+    return { notifications, departureReminder: null, state: next, finished };
+  }
+
+  if (live?.cancelled) {
+    if (!state.cancelled && preferences.cancellation) {
+      notifications.push({ kind: 'cancelled', title: label, body: `${label} has been cancelled` });
+    }
+    return { notifications, departureReminder: null, state: { ...next, cancelled: true }, finished };
+  }
+  next.cancelled = false;
+
+  // Boarding platform, until the train leaves
+  const platform = live?.stops[0]?.platform;
+  if (preferences.platformChanges && !departed && platform && platform !== boarding.platform) {
+    if (platform !== state.platform) {
+      notifications.push({
+        kind: 'platform',
+        title: label,
+        body: `Platform change: ${label} now departs ${boarding.name} from platform ${platform}`,
+      });
+    }
+    next.platform = platform;
+  }
+
+  // Delay at the boarding stop until the train leaves, then at the alighting stop
+  const thresholds = [...preferences.delayThresholdsMinutes].sort((a, b) => a - b);
+  const delaySeconds = departed
+    ? (live?.stops[stops.length - 1]?.arrivalDelay ?? null)
+    : (live?.stops[0]?.departureDelay ?? null);
+  if (thresholds.length > 0 && delaySeconds !== null) {
+    const delay = toMinutes(delaySeconds);
+    const stopName = departed ? alighting.name : boarding.name;
+    const level = thresholds.filter(threshold => delay >= threshold).length;
+    const recoveredLevel = thresholds.filter(threshold => delay + DELAY_HYSTERESIS_MINUTES >= threshold).length;
+
+    if (level > state.delayLevel) {
+      notifications.push({
+        kind: 'delay',
+        title: label,
+        body: `${label} is running ${delay} min late at ${stopName}`,
+      });
+      next.delayLevel = level;
+    } else if (recoveredLevel < state.delayLevel) {
+      notifications.push({
+        kind: 'delay',
+        title: label,
+        body:
+          delay > 0
+            ? `${label} has made up time and is now ${delay} min late at ${stopName}`
+            : `${label} is back on time at ${stopName}`,
+      });
+      next.delayLevel = level;
+    }
+  }
+
+  // Departure reminder, at the expected departure so a delayed train is not announced too early
+  let departureReminder: NotificationEvaluation['departureReminder'] = null;
+  if (preferences.departureReminderMinutes !== null && !state.departureReminded) {
+    const at = expectedDeparture(0) - preferences.departureReminderMinutes * 60_000;
+    if (now >= at) {
+      next.departureReminded = true;
+    } else {
+      const from = next.platform ?? boarding.platform;
+      departureReminder = {
+        kind: 'departure',
+        title: label,
+        body: `Departs ${boarding.name}${from ? ` from platform ${from}` : ''} in ${preferences.departureReminderMinutes} min`,
+        at,
+      };
+    }
+  }
+
+  // Approaching the destination, counting the stops the train has yet to leave
+  if (preferences.stopsBeforeArrival !== null && departed && !state.arrivalAnnounced) {
+    let stopsAway = 0;
+    for (let i = 1; i < stops.length; i++) {
+      if (live?.stops[i]?.skipped) continue;
+      const leaveAt = i === stops.length - 1 ? expectedArrival(i) : expectedDeparture(i);
+      if (now < leaveAt) stopsAway++;
+    }
+    if (stopsAway > 0 && stopsAway <= preferences.stopsBeforeArrival) {
+      notifications.push({
+        kind: 'arrival',
+        title: label,
+        body:
+          stopsAway === 1
+            ? `${alighting.name} is the next stop`
+            : `${alighting.name} is ${formatStops(stopsAway)} away`,
+      });
+      next.arrivalAnnounced = true;
+    }
+  }
+
+  return { notifications, departureReminder, state: next, finished };
+}
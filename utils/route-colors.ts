@@ -1,61 +1,63 @@
 /**
  * Route color utilities for train route visualization
- * Provides color coding based on route type and characteristics
+ * Routes use the colors their agency publishes in routes.txt; routes without one, or with one that
+ * would disappear into the map (white, black, pale yellow), get a color from a fallback palette
  */
 
+import type { Route } from '../types/train';
+
 export interface RouteColorScheme {
   stroke: string;
+  textColor: string; // Legible on top of stroke, e.g. for legend chips
   strokeWidth: number;
   opacity: number;
 }
 
+// Base colors of the light and dark map styles
+const MAP_BACKGROUNDS = ['#F8F7F2', '#2C2C2E'];
+
+// Lowest contrast ratio against every map background for a line to stay visible
+const MIN_MAP_CONTRAST = 1.6;
+
+// Mid-luminance colors that clear MIN_MAP_CONTRAST on both map styles
+const FALLBACK_ROUTE_COLORS = ['#E74C3C', '#3498DB', '#27AE60', '#9B59B6', '#E67E22', '#16A085', '#D4AC0D', '#E84393'];
+
 /**
- * Get color for a route based on its ID or characteristics
- * All routes use white color with 25% opacity for consistency
+ * Normalize a GTFS color ("00537E", "#00537e") to "#RRGGBB", or null if it isn't one
  */
-export function getRouteColor(shapeId: string): RouteColorScheme {
-  // All routes use white color with 25% opacity
-  return {
-    stroke: '#FFFFFF',
-    strokeWidth: 2,
-    opacity: 1,
-  };
+export function normalizeHexColor(color: string | undefined): string | null {
+  const match = color?.trim().match(/^#?([0-9a-f]{6})$/i);
+  return match ? `#${match[1].toUpperCase()}` : null;
 }
 
 /**
- * Get colored route scheme with unique colors per route
+ * WCAG relative luminance of a "#RRGGBB" color, from 0 (black) to 1 (white)
  */
-export function getColoredRouteColor(shapeId: string): RouteColorScheme {
-  const shapeIdLower = shapeId.toLowerCase();
-
-  // Acela Express - Premium high-speed service
-  if (shapeIdLower.includes('acela') || shapeIdLower.includes('2150')) {
-    return {
-      stroke: '#E31837', // Amtrak red
-      strokeWidth: 2,
-      opacity: 0.8,
-    };
-  }
+export function getRelativeLuminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map(start => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
 
-  // Northeast Regional
-  if (shapeIdLower.includes('northeast') || shapeIdLower.includes('regional')) {
-    return {
-      stroke: '#0066CC', // Blue
-      strokeWidth: 2,
-      opacity: 0.7,
-    };
-  }
+/**
+ * WCAG contrast ratio between two "#RRGGBB" colors, from 1 to 21
+ */
+export function getContrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [getRelativeLuminance(a), getRelativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
 
-  // Use hash-based color for other routes
-  return {
-    stroke: getConsistentColorFromId(shapeId),
-    strokeWidth: 2,
-    opacity: 0.7,
-  };
+/**
+ * Whether a line of this color stands out on both the light and dark map
+ */
+export function isVisibleOnMap(hex: string): boolean {
+  return MAP_BACKGROUNDS.every(background => getContrastRatio(hex, background) >= MIN_MAP_CONTRAST);
 }
 
 /**
- * Generate a consistent color from a string ID
+ * Pick a fallback palette color from a string ID
  * Same ID will always produce the same color
  */
 function getConsistentColorFromId(id: string): string {
@@ -63,13 +65,31 @@ function getConsistentColorFromId(id: string): string {
   for (let i = 0; i < id.length; i++) {
     hash = id.charCodeAt(i) + ((hash << 5) - hash);
   }
+  return FALLBACK_ROUTE_COLORS[Math.abs(hash % FALLBACK_ROUTE_COLORS.length)];
+}
 
-  // Generate color with good saturation and brightness
-  const hue = Math.abs(hash % 360);
-  const saturation = 50 + (Math.abs(hash >> 8) % 20); // 50-70%
-  const lightness = 50 + (Math.abs(hash >> 16) % 15); // 50-65%
+/**
+ * Get the color scheme for a route
+ * @param id - Route id, or shape id for shapes no trip references; picks the fallback color
+ * @param route - The route, for its route_color / route_text_color
+ * @example
+ * getRouteColor('amtrak:88', { route_color: '00537E' }).stroke // "#00537E"
+ * getRouteColor('amtrak:88', { route_color: 'FFFFFF' }).stroke // a fallback palette color
+ */
+export function getRouteColor(id: string, route?: Pick<Route, 'route_color' | 'route_text_color'>): RouteColorScheme {
+  const routeColor = normalizeHexColor(route?.route_color);
+  const agencyColor = routeColor && isVisibleOnMap(routeColor) ? routeColor : null;
+  const stroke = agencyColor ?? getConsistentColorFromId(id);
+  const agencyTextColor = agencyColor ? normalizeHexColor(route?.route_text_color) : null;
 
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+  return {
+    stroke,
+    textColor:
+      agencyTextColor ??
+      (getContrastRatio(stroke, '#FFFFFF') >= getContrastRatio(stroke, '#000000') ? '#FFFFFF' : '#000000'),
+    strokeWidth: 2,
+    opacity: 0.9,
+  };
 }
 
 /**
@@ -0,0 +1,304 @@
+/**
+ * In-memory search index for stations, routes and trains
+ * Names are tokenized once; queries match tokens exactly, by prefix, or with small typos,
+ * and results are ranked by relevance
+ */
+
+import type { SearchResultType } from '../types/train';
+
+export interface SearchDocument<T> {
+  id: string;
+  type: SearchResultType;
+  name: string; // Primary display name, e.g. "Chicago Union Station"
+  codes?: string[]; // Identifiers matched as a whole, e.g. station codes or train numbers
+  aliases?: string[]; // Alternative names, e.g. "Penn Station"
+  boost?: number; // Added to the score, e.g. for busier stations
+  value: T;
+}
+
+export interface SearchMatch<T> {
+  document: SearchDocument<T>;
+  score: number;
+  matchedAlias?: string; // Set when the document matched through an alias rather than its name
+}
+
+// Score for a single query token against a single name token
+const EXACT_TOKEN_SCORE = 10;
+const PREFIX_TOKEN_SCORE = 5; // Plus up to 5 more the more of the token the query covers
+const FUZZY_TOKEN_SCORE = 4;
+const FUZZY_PREFIX_TOKEN_SCORE = 3;
+// Bonuses for the query as a whole
+const EXACT_CODE_SCORE = 100;
+const CODE_PREFIX_SCORE = 40;
+const PHRASE_PREFIX_BONUS = 15;
+
+// Results of equal score are listed stations first
+const TYPE_ORDER: Record<SearchResultType, number> = { station: 0, train: 1, route: 2 };
+
+/**
+ * Normalize text for matching: lowercase, no accents or punctuation,
+ * and letters split from digits so "acela2150" matches "Acela 2150"
+ * @example
+ * normalizeSearchText("St. Louis–Gateway") // "st louis gateway"
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split text into normalized search tokens
+ * @example
+ * tokenize("Chicago Union Station") // ["chicago", "union", "station"]
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Edit distance between two strings, counting adjacent transpositions as one edit
+ * Stops early and returns max + 1 once the distance is known to exceed max
+ * @example
+ * editDistance("chciago", "chicago", 2) // 1
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Number of typos tolerated for a query token; short tokens must match exactly
+ */
+function maxTyposFor(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Score how well a query token matches a name token, or 0 for no match
+ */
+function scoreToken(queryToken: string, token: string): number {
+  if (token === queryToken) return EXACT_TOKEN_SCORE;
+  if (token.startsWith(queryToken)) {
+    return PREFIX_TOKEN_SCORE + (5 * queryToken.length) / token.length;
+  }
+  const maxTypos = maxTyposFor(queryToken);
+  if (maxTypos === 0) return 0;
+  if (editDistance(queryToken, token, maxTypos) <= maxTypos) return FUZZY_TOKEN_SCORE;
+  if (
+    token.length > queryToken.length &&
+    editDistance(queryToken, token.slice(0, queryToken.length), maxTypos) <= maxTypos
+  ) {
+    return FUZZY_PREFIX_TOKEN_SCORE;
+  }
+  return 0;
+}
+
+interface IndexedName {
+  text: string; // Normalized name or alias
+  tokens: string[];
+  alias?: string; // Original alias text, unset for the primary name
+}
+
+interface IndexedDocument<T> {
+  document: SearchDocument<T>;
+  names: IndexedName[];
+  codes: string[]; // Normalized with spaces removed
+}
+
+export class SearchIndex<T> {
+  private documents: IndexedDocument<T>[] = [];
+  private tokenDocuments: Map<string, Set<number>> = new Map(); // token -> indexes into documents
+  private sortedTokens: string[] | null = null; // Vocabulary for prefix lookups, built on demand
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  clear(): void {
+    this.documents = [];
+    this.tokenDocuments.clear();
+    this.sortedTokens = null;
+  }
+
+  add(document: SearchDocument<T>): void {
+    const docIndex = this.documents.length;
+    const names: IndexedName[] = [
+      { text: normalizeSearchText(document.name), tokens: tokenize(document.name) },
+      ...(document.aliases || []).map(alias => ({
+        text: normalizeSearchText(alias),
+        tokens: tokenize(alias),
+        alias,
+      })),
+    ];
+    const codes = (document.codes || []).map(code => normalizeSearchText(code).replace(/ /g, '')).filter(Boolean);
+
+    this.documents.push({ document, names, codes });
+    for (const name of names) {
+      for (const token of name.tokens) this.addToken(token, docIndex);
+    }
+    for (const code of codes) this.addToken(code, docIndex);
+    this.sortedTokens = null;
+  }
+
+  /**
+   * Find documents matching every query token, best first
+   * @param types - Only return documents of these types
+   */
+  search(query: string, limit: number = 20, types?: SearchResultType[]): SearchMatch<T>[] {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+    const queryText = queryTokens.join(' ');
+    const compactQuery = queryTokens.join('');
+
+    const matches: SearchMatch<T>[] = [];
+    for (const docIndex of this.findCandidates(queryTokens)) {
+      const indexed = this.documents[docIndex];
+      if (types && !types.includes(indexed.document.type)) continue;
+      const match = this.scoreDocument(indexed, queryTokens, queryText, compactQuery);
+      if (match) matches.push(match);
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          TYPE_ORDER[a.document.type] - TYPE_ORDER[b.document.type] ||
+          a.document.name.length - b.document.name.length ||
+          a.document.name.localeCompare(b.document.name)
+      )
+      .slice(0, limit);
+  }
+
+  private addToken(token: string, docIndex: number): void {
+    const docs = this.tokenDocuments.get(token);
+    if (docs) docs.add(docIndex);
+    else this.tokenDocuments.set(token, new Set([docIndex]));
+  }
+
+  /**
+   * Documents containing a token that could match the query's most selective token
+   */
+  private findCandidates(queryTokens: string[]): Set<number> {
+    let best: Set<number> | null = null;
+    for (const queryToken of queryTokens) {
+      const candidates = new Set<number>();
+      for (const token of this.findTokens(queryToken)) {
+        this.tokenDocuments.get(token)?.forEach(docIndex => candidates.add(docIndex));
+      }
+      if (!best || candidates.size < best.size) best = candidates;
+    }
+    // Codes can span several query tokens ("amt 2150"), so look them up as a whole too
+    const compact = queryTokens.join('');
+    if (queryTokens.length > 1) {
+      for (const token of this.findTokens(compact)) {
+        this.tokenDocuments.get(token)?.forEach(docIndex => best?.add(docIndex));
+      }
+    }
+    return best || new Set();
+  }
+
+  /**
+   * Vocabulary tokens a query token may match: exact, by prefix, or within the typo budget
+   */
+  private findTokens(queryToken: string): string[] {
+    const vocabulary = this.getSortedTokens();
+    const found: string[] = [];
+
+    // Prefix matches are a contiguous run in the sorted vocabulary
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < queryToken) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(queryToken); i++) {
+      found.push(vocabulary[i]);
+    }
+
+    if (maxTyposFor(queryToken) > 0) {
+      for (const token of vocabulary) {
+        if (!token.startsWith(queryToken) && scoreToken(queryToken, token) > 0) found.push(token);
+      }
+    }
+    return found;
+  }
+
+  private getSortedTokens(): string[] {
+    if (!this.sortedTokens) {
+      this.sortedTokens = Array.from(this.tokenDocuments.keys()).sort();
+    }
+    return this.sortedTokens;
+  }
+
+  private scoreDocument(
+    indexed: IndexedDocument<T>,
+    queryTokens: string[],
+    queryText: string,
+    compactQuery: string
+  ): SearchMatch<T> | null {
+    const { document } = indexed;
+    const boost = document.boost || 0;
+
+    let codeScore = 0;
+    for (const code of indexed.codes) {
+      if (code === compactQuery) codeScore = Math.max(codeScore, EXACT_CODE_SCORE);
+      else if (compactQuery.length >= 2 && code.startsWith(compactQuery)) {
+        codeScore = Math.max(codeScore, CODE_PREFIX_SCORE);
+      }
+    }
+
+    // Best of the primary name and each alias; every query token must match one of its tokens
+    let best: { score: number; alias?: string } | null = null;
+    for (const name of indexed.names) {
+      let score = 0;
+      for (const queryToken of queryTokens) {
+        const tokenScore = Math.max(0, ...name.tokens.map(token => scoreToken(queryToken, token)));
+        if (tokenScore === 0) {
+          score = 0;
+          break;
+        }
+        score += tokenScore;
+      }
+      if (score === 0) continue;
+      if (name.text.startsWith(queryText)) score += PHRASE_PREFIX_BONUS;
+      if (!best || score > best.score) best = { score, alias: name.alias };
+    }
+
+    if (!best && codeScore === 0) return null;
+    const nameScore = best?.score || 0;
+    return {
+      document,
+      score: Math.max(nameScore, codeScore) + boost,
+      matchedAlias: codeScore > nameScore ? undefined : best?.alias,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Timezone-aware GTFS time model
+ * GTFS stop times are offsets from the start of a service day in the agency timezone.
+ * These helpers resolve them to absolute instants and format instants in any timezone.
+ */
+
+import type { FormattedTime } from './time-formatting';
+
+// Amtrak publishes its schedule in Eastern time
+export const DEFAULT_AGENCY_TIMEZONE = 'America/New_York';
+
+export interface ResolvedTime extends FormattedTime {
+  at: number; // Absolute instant (ms since epoch)
+  timeZone: string; // Timezone the time is formatted in
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+// Intl.DateTimeFormat instances are expensive to create, so keep one per timezone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const abbreviationCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ */
+function getZonedParts(at: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(at))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24, // Some engines report midnight as 24
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Parse a GTFS service date (YYYYMMDD) into its parts
+ */
+function parseServiceDate(serviceDate: string): { year: number; month: number; day: number } {
+  return {
+    year: parseInt(serviceDate.slice(0, 4), 10),
+    month: parseInt(serviceDate.slice(4, 6), 10),
+    day: parseInt(serviceDate.slice(6, 8), 10),
+  };
+}
+
+/**
+ * Get the device's IANA timezone
+ * @example
+ * getDeviceTimeZone() // "America/Chicago"
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_AGENCY_TIMEZONE;
+}
+
+/**
+ * Get a timezone's UTC offset in minutes at a given instant
+ * @example
+ * getTimeZoneOffsetMinutes(Date.UTC(2024, 0, 15), 'America/Chicago') // -360
+ */
+export function getTimeZoneOffsetMinutes(at: number, timeZone: string): number {
+  const p = getZonedParts(at, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallClockAsUtc - Math.floor(at / 1000) * 1000) / MS_PER_MINUTE);
+}
+
+/**
+ * Resolve a GTFS stop time on a service date to an absolute instant (ms since epoch)
+ * Times are measured from "noon minus 12h" so service days spanning a DST change stay correct
+ * @param gtfsTime - GTFS time, may exceed 24:00 (e.g. "25:30:00")
+ * @param serviceDate - Service date in YYYYMMDD format
+ * @param agencyTimeZone - IANA timezone the schedule is published in
+ * @example
+ * resolveServiceTime('14:30:00', '20240115', 'America/New_York') // 2024-01-15T19:30:00Z
+ */
+export function resolveServiceTime(gtfsTime: string, serviceDate: string, agencyTimeZone: string): number {
+  const { year, month, day } = parseServiceDate(serviceDate);
+
+  // Noon is never inside a DST transition, so its offset is unambiguous
+  const noonAsUtc = Date.UTC(year, month - 1, day, 12);
+  const noon = noonAsUtc - getTimeZoneOffsetMinutes(noonAsUtc, agencyTimeZone) * MS_PER_MINUTE;
+
+  return noon - 12 * 60 * MS_PER_MINUTE + getServiceTimeOffset(gtfsTime);
+}
+
+/**
+ * Milliseconds from the start of a service day ("noon minus 12h") to a GTFS time
+ * Adding it to a resolved "00:00:00" resolves many times of one service day without repeating the timezone lookup
+ * @example
+ * getServiceTimeOffset('25:30:00') // 91_800_000
+ */
+export function getServiceTimeOffset(gtfsTime: string): number {
+  const [hours = 0, minutes = 0, seconds = 0] = gtfsTime.split(':').map(v => parseInt(v, 10) || 0);
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Format an instant as wall-clock time in a timezone
+ * The day offset counts calendar days after the service date in that timezone
+ * @example
+ * formatInTimeZone(Date.UTC(2024, 0, 16, 6, 30), 'America/Chicago', '20240115') // { time: "12:30 AM", dayOffset: 1 }
+ */
+export function formatInTimeZone(at: number, timeZone: string, serviceDate: string): FormattedTime {
+  const p = getZonedParts(at, timeZone);
+  const service = parseServiceDate(serviceDate);
+  const dayOffset = Math.round(
+    (Date.UTC(p.year, p.month - 1, p.day) - Date.UTC(service.year, service.month - 1, service.day)) / MS_PER_DAY
+  );
+
+  const ampm = p.hour >= 12 ? 'PM' : 'AM';
+  const displayHours = p.hour % 12 === 0 ? 12 : p.hour % 12;
+
+  return {
+    time: `${displayHours}:${p.minute.toString().padStart(2, '0')} ${ampm}`,
+    dayOffset,
+  };
+}
+
+/**
+ * Get the short display name of a timezone at an instant
+ * @example
+ * getTimeZoneAbbreviation(Date.UTC(2024, 6, 1), 'America/Los_Angeles') // "PDT"
+ */
+export function getTimeZoneAbbreviation(at: number, timeZone: string): string {
+  let formatter = abbreviationCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' });
+    abbreviationCache.set(timeZone, formatter);
+  }
+  return formatter.formatToParts(new Date(at)).find(p => p.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * Format a duration between two instants
+ * @example
+ * formatDurationBetween(0, 5_400_000) // "1h 30m"
+ */
+export function formatDurationBetween(startAt: number, endAt: number): string {
+  const totalMinutes = Math.max(0, Math.round((endAt - startAt) / MS_PER_MINUTE));
+  return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
+}
+
+/**
+ * Pick the time to display: the instant in the requested timezone when available,
+ * otherwise the precomputed station-local time
+ */
+export function getDisplayTime(
+  stationTime: FormattedTime,
+  at: number | undefined,
+  serviceDate: string | undefined,
+  timeZone: string | undefined
+): FormattedTime {
+  if (at === undefined || !serviceDate || !timeZone) return stationTime;
+  return formatInTimeZone(at, timeZone, serviceDate);
+}
@@ -0,0 +1,55 @@
+/**
+ * Geometry helpers for drawing a single train's path along its GTFS shape
+ * Shape points are in travel order (shape_pt_sequence), so a point's index orders it along the trip
+ */
+
+export interface PathPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SplitPath {
+  traveled: PathPoint[]; // Start of the shape up to the train
+  remaining: PathPoint[]; // The train onwards; shares its first point with the end of traveled
+}
+
+/**
+ * Index of the shape point closest to a location
+ * Uses an equirectangular approximation, which is plenty to snap a station or train onto its line
+ */
+export function findNearestPointIndex(path: readonly PathPoint[], point: PathPoint): number {
+  const lonScale = Math.cos((point.latitude * Math.PI) / 180);
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  path.forEach((candidate, index) => {
+    const dLat = candidate.latitude - point.latitude;
+    const dLon = (candidate.longitude - point.longitude) * lonScale;
+    const distance = dLat * dLat + dLon * dLon;
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * The part of a path between the points closest to two locations, e.g. a rider's boarding and alighting stations
+ * @example
+ * slicePath(path, boston, newYork) // Boston to New York, whichever way the shape runs
+ */
+export function slicePath(path: readonly PathPoint[], from: PathPoint, to: PathPoint): PathPoint[] {
+  const start = findNearestPointIndex(path, from);
+  const end = findNearestPointIndex(path, to);
+  if (start < 0 || end < 0) return [];
+  return path.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
+
+/**
+ * Split a path at the point closest to a train, or leave it all remaining when the position is unknown
+ */
+export function splitPathAt(path: readonly PathPoint[], position?: PathPoint): SplitPath {
+  const index = position ? findNearestPointIndex(path, position) : -1;
+  if (index < 0) return { traveled: [], remaining: [...path] };
+  return { traveled: path.slice(0, index + 1), remaining: path.slice(index) };
+}
@@ -140,3 +140,15 @@ export function addDelayToTime(timeStr: string, delayMinutes: number, baseDayOff
     dayOffset,
   };
 }
+
+/**
+ * Describe how long ago a live position was reported
+ * @example
+ * formatLastReported(Date.now() - 12 * 60_000) // "Last reported 12 min ago"
+ */
+export function formatLastReported(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60_000);
+  if (minutes < 1) return 'Last reported just now';
+  if (minutes < 60) return `Last reported ${minutes} min ago`;
+  return `Last reported ${Math.floor(minutes / 60)} h ago`;
+}
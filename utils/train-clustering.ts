@@ -9,12 +9,15 @@ export interface LiveTrainData {
   tripId: string;
   trainNumber: string;
   routeName: string | null;
+  color?: string;
   position: {
     lat: number;
     lon: number;
     bearing?: number;
   };
   isSaved?: boolean;
+  estimated?: boolean; // Position estimated from the schedule
+  lastReportedAt?: number; // When a stale position was last reported (ms)
 }
 
 export interface TrainCluster {
@@ -26,8 +29,11 @@ export interface TrainCluster {
   // For single train, keep original data
   trainNumber?: string;
   routeName?: string | null;
+  color?: string;
   tripId?: string;
   isSaved?: boolean;
+  estimated?: boolean;
+  lastReportedAt?: number;
 }
 
 /**
@@ -47,8 +53,11 @@ export function clusterTrains(trains: LiveTrainData[], latitudeDelta: number): T
       isCluster: false,
       trainNumber: train.trainNumber,
       routeName: train.routeName,
+      color: train.color,
       tripId: train.tripId,
       isSaved: train.isSaved,
+      estimated: train.estimated,
+      lastReportedAt: train.lastReportedAt,
     }));
   }
 
@@ -89,12 +98,15 @@ export function clusterTrains(trains: LiveTrainData[], latitudeDelta: number): T
         isCluster: false,
         trainNumber: nearbyTrains[0].trainNumber,
         routeName: nearbyTrains[0].routeName,
+        color: nearbyTrains[0].color,
         tripId: nearbyTrains[0].tripId,
         isSaved: nearbyTrains[0].isSaved,
+        estimated: nearbyTrains[0].estimated,
+        lastReportedAt: nearbyTrains[0].lastReportedAt,
       });
     } else {
       clusters.push({
-        id: `train-cluster-${avgLat}-${avgLon}`,
+        id: `train-cluster-${train.tripId}`, // Stable while trains move between updates
         lat: avgLat,
         lon: avgLon,
         trains: nearbyTrains,
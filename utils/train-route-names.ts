@@ -0,0 +1,59 @@
+/**
+ * Train number -> route name mapping, built from trips.txt trip_short_name and routes.txt
+ * A number whose trips run on differently named routes is a collision; the name most of its trips use wins
+ */
+
+import type { NamedTrains, Route, Trip } from '../types/train';
+
+export interface TrainNumberCollision {
+  trainNumber: string; // As keyed, e.g. "amtrak:364"
+  routeNames: string[]; // Most used first
+}
+
+/**
+ * Map each train number to the name of the route its trips run on
+ * @param getKey - Key for a trip's train number, e.g. namespaced by feed; trips without one are skipped
+ * @example
+ * buildTrainRouteNames([{ trip_id: 'T1', route_id: 'R1', trip_short_name: '43' }], routes).names.get('43')
+ * // "Pennsylvanian"
+ */
+export function buildTrainRouteNames(
+  trips: Iterable<Trip>,
+  routes: ReadonlyMap<string, Route>,
+  getKey: (trip: Trip) => string | undefined = trip => trip.trip_short_name
+): { names: Map<string, string>; collisions: TrainNumberCollision[] } {
+  const tripCounts = new Map<string, Map<string, number>>(); // train number -> route name -> trips
+  for (const trip of trips) {
+    const key = getKey(trip);
+    const routeName = routes.get(trip.route_id)?.route_long_name;
+    if (!key || !routeName) continue;
+    const byName = tripCounts.get(key) ?? new Map<string, number>();
+    byName.set(routeName, (byName.get(routeName) ?? 0) + 1);
+    tripCounts.set(key, byName);
+  }
+
+  const names = new Map<string, string>();
+  const collisions: TrainNumberCollision[] = [];
+  tripCounts.forEach((byName, key) => {
+    // Stable sort keeps the first-seen name among equally used ones
+    const routeNames = Array.from(byName.keys()).sort((a, b) => byName.get(b)! - byName.get(a)!);
+    names.set(key, routeNames[0]);
+    if (routeNames.length > 1) collisions.push({ trainNumber: key, routeNames });
+  });
+  return { names, collisions };
+}
+
+/**
+ * Find train numbers listed more than once in a named-train table
+ */
+export function findNamedTrainCollisions(groups: readonly NamedTrains[]): TrainNumberCollision[] {
+  const namesByNumber = new Map<string, string[]>();
+  for (const { name, trainNumbers } of groups) {
+    for (const trainNumber of trainNumbers) {
+      namesByNumber.set(trainNumber, [...(namesByNumber.get(trainNumber) ?? []), name]);
+    }
+  }
+  return Array.from(namesByNumber)
+    .filter(([, routeNames]) => routeNames.length > 1)
+    .map(([trainNumber, routeNames]) => ({ trainNumber, routeNames }));
+}